@@ -0,0 +1,255 @@
+import { PrivateKeyAccount } from "applesauce-accounts/accounts";
+import { unlockGiftWrap } from "applesauce-common/helpers/gift-wrap";
+import type { NostrEvent } from "nostr-tools";
+import { defaultCryptoProvider, getCiphersuiteImpl } from "ts-mls";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { MarmotGroup } from "../client/group/marmot-group";
+import { proposeAdminSuccession } from "../client/group/proposals/admins";
+import { MarmotClient } from "../client/marmot-client";
+import {
+  adminSuccessionRuleToExtension,
+  decodeAdminSuccessionRule,
+  encodeAdminSuccessionRule,
+  getAdminSuccessionRule,
+} from "../core/admin-succession";
+import { createCredential } from "../core/credential";
+import { getGroupMembers } from "../core/group-members";
+import { generateKeyPackage } from "../core/key-package";
+import { createKeyPackageEvent } from "../core/key-package-event";
+import { AdminSuccessionRule, GROUP_EVENT_KIND } from "../core/protocol";
+import { KeyValueGroupStateBackend } from "../store/adapters/key-value-group-state-backend";
+import { KeyPackageStore } from "../store/key-package-store";
+import { MockNetwork } from "./helpers/mock-network";
+import { MemoryBackend } from "./ingest-commit-race.test";
+
+describe("admin succession rule encoding", () => {
+  it("round-trips both rules", () => {
+    const rules: AdminSuccessionRule[] = [
+      { kind: "lowest-leaf" },
+      { kind: "successors", successors: ["a".repeat(64), "b".repeat(64)] },
+      { kind: "lowest-leaf", takeoverVotes: ["d".repeat(64)] },
+    ];
+
+    for (const rule of rules)
+      expect(
+        decodeAdminSuccessionRule(encodeAdminSuccessionRule(rule)),
+      ).toEqual(rule);
+  });
+
+  it("only reads a rule the group carries", () => {
+    expect(getAdminSuccessionRule([])).toBeUndefined();
+
+    const rule: AdminSuccessionRule = {
+      kind: "successors",
+      successors: ["c".repeat(64)],
+    };
+    expect(
+      getAdminSuccessionRule([adminSuccessionRuleToExtension(rule)]),
+    ).toEqual(rule);
+  });
+
+  it("rejects invalid successor pubkeys", () => {
+    expect(() =>
+      encodeAdminSuccessionRule({ kind: "successors", successors: ["npub"] }),
+    ).toThrow("Invalid successor public key format");
+  });
+});
+
+describe("admin succession", () => {
+  let network: MockNetwork;
+
+  beforeEach(() => {
+    network = new MockNetwork();
+  });
+
+  function createClient(account: PrivateKeyAccount<any>) {
+    return new MarmotClient({
+      groupStateBackend: new KeyValueGroupStateBackend(new MemoryBackend()),
+      keyPackageStore: new KeyPackageStore(new MemoryBackend()),
+      signer: account.signer,
+      network,
+      // Commit leaves right away instead of after a random delay
+      autoCommitPolicy: { rules: [], debounce: 0, jitter: 0 },
+    });
+  }
+
+  async function ingestAll(group: MarmotGroup<any>) {
+    const events = await network.request(group.relays!, {
+      kinds: [GROUP_EVENT_KIND],
+    });
+    for await (const _ of group.ingest(events)) {
+      // drain
+    }
+  }
+
+  async function joinMember(
+    group: MarmotGroup<any>,
+    member: PrivateKeyAccount<any>,
+  ) {
+    const client = createClient(member);
+    const pubkey = await member.signer.getPublicKey();
+    const ciphersuiteImpl = await getCiphersuiteImpl(
+      "MLS_128_DHKEMX25519_AES128GCM_SHA256_Ed25519",
+      defaultCryptoProvider,
+    );
+    const keyPackage = await generateKeyPackage({
+      credential: createCredential(pubkey),
+      ciphersuiteImpl,
+    });
+    await client.keyPackageStore.add(keyPackage);
+    const keyPackageEvent: NostrEvent = await member.signer.signEvent(
+      createKeyPackageEvent({ keyPackage: keyPackage.publicPackage }),
+    );
+    await group.inviteByKeyPackageEvent(keyPackageEvent);
+
+    const giftWrap = network.events.find(
+      (e) => e.kind === 1059 && e.tags.some((t) => t[1] === pubkey),
+    )!;
+    const welcomeRumor = await unlockGiftWrap(giftWrap, member.signer);
+    return await client.joinGroupFromWelcome({ welcomeRumor });
+  }
+
+  it("promotes the member in the lowest leaf when the last admin leaves", async () => {
+    const admin = PrivateKeyAccount.generateNew();
+    const member = PrivateKeyAccount.generateNew();
+    const memberPubkey = await member.signer.getPublicKey();
+
+    const group = await createClient(admin).createGroup("Succession Test", {
+      relays: ["wss://mock-relay.test"],
+    });
+    await group.commit({
+      extraProposals: [proposeAdminSuccession({ kind: "lowest-leaf" })],
+    });
+    const memberGroup = await joinMember(group, member);
+
+    await group.leave();
+
+    // The member is the successor, so it commits the leave and takes over
+    const epoch = memberGroup.state.groupContext.epoch;
+    await ingestAll(memberGroup);
+    await vi.waitFor(() =>
+      expect(memberGroup.state.groupContext.epoch).toBe(epoch + 1n),
+    );
+    expect(getGroupMembers(memberGroup.state)).toEqual([memberPubkey]);
+    expect(memberGroup.groupData!.adminPubkeys).toEqual([memberPubkey]);
+
+    // The former admin accepts the commit from its successor
+    let left = false;
+    group.on("left", () => (left = true));
+    await ingestAll(group);
+    expect(left).toBe(true);
+  });
+
+  it("does not hand over groups without a succession rule", async () => {
+    const admin = PrivateKeyAccount.generateNew();
+    const member = PrivateKeyAccount.generateNew();
+
+    const group = await createClient(admin).createGroup("Succession Test", {
+      relays: ["wss://mock-relay.test"],
+    });
+    const memberGroup = await joinMember(group, member);
+    expect(memberGroup.adminSuccessionRule).toBeUndefined();
+
+    await group.leave();
+
+    const epoch = memberGroup.state.groupContext.epoch;
+    await ingestAll(memberGroup);
+    expect(await memberGroup.autoCommit()).toBeUndefined();
+    expect(memberGroup.state.groupContext.epoch).toBe(epoch);
+    await expect(memberGroup.voteAdminTakeover()).rejects.toThrow(
+      "Group has no admin succession rule",
+    );
+  });
+
+  it("lets the successor take over once most members voted", async () => {
+    const admin = PrivateKeyAccount.generateNew();
+    const first = PrivateKeyAccount.generateNew();
+    const second = PrivateKeyAccount.generateNew();
+    const adminPubkey = await admin.signer.getPublicKey();
+    const firstPubkey = await first.signer.getPublicKey();
+
+    const group = await createClient(admin).createGroup("Succession Test", {
+      relays: ["wss://mock-relay.test"],
+    });
+    await group.commit({
+      extraProposals: [proposeAdminSuccession({ kind: "lowest-leaf" })],
+    });
+    const firstGroup = await joinMember(group, first);
+    const secondGroup = await joinMember(group, second);
+    await ingestAll(firstGroup);
+
+    // The admin lost their device, so its leaf stays in the tree
+    await firstGroup.voteAdminTakeover();
+    await ingestAll(secondGroup);
+    await expect(firstGroup.takeOverAdmin()).rejects.toThrow(
+      "Not a group admin",
+    );
+
+    await secondGroup.voteAdminTakeover();
+    await ingestAll(firstGroup);
+    expect(firstGroup.adminSuccessionRule?.takeoverVotes).toHaveLength(2);
+    await expect(secondGroup.takeOverAdmin()).rejects.toThrow(
+      "Not a group admin",
+    );
+
+    await firstGroup.takeOverAdmin();
+    for (const other of [group, secondGroup]) {
+      await ingestAll(other);
+      expect(other.state.groupContext.epoch).toBe(
+        firstGroup.state.groupContext.epoch,
+      );
+      expect(other.groupData!.adminPubkeys).toEqual([adminPubkey, firstPubkey]);
+      expect(other.adminSuccessionRule).toEqual({ kind: "lowest-leaf" });
+    }
+  });
+
+  it("only lets the designated successor take over", async () => {
+    const admin = PrivateKeyAccount.generateNew();
+    const first = PrivateKeyAccount.generateNew();
+    const second = PrivateKeyAccount.generateNew();
+    const secondPubkey = await second.signer.getPublicKey();
+
+    const group = await createClient(admin).createGroup("Succession Test", {
+      relays: ["wss://mock-relay.test"],
+    });
+    const firstGroup = await joinMember(group, first);
+    const secondGroup = await joinMember(group, second);
+
+    await group.commit({
+      extraProposals: [
+        proposeAdminSuccession({
+          kind: "successors",
+          successors: [secondPubkey],
+        }),
+      ],
+    });
+    await ingestAll(firstGroup);
+    expect(firstGroup.adminSuccessionRule).toEqual({
+      kind: "successors",
+      successors: [secondPubkey],
+    });
+
+    await group.leave();
+
+    // The member in the lowest leaf is not the designated successor and does not commit
+    const epoch = firstGroup.state.groupContext.epoch;
+    await ingestAll(firstGroup);
+    expect(await firstGroup.autoCommit()).toBeUndefined();
+    expect(firstGroup.state.groupContext.epoch).toBe(epoch);
+    await expect(
+      firstGroup.commit({
+        proposalRefs: Object.keys(firstGroup.unappliedProposals),
+      }),
+    ).rejects.toThrow("Not a group admin");
+
+    await ingestAll(secondGroup);
+    await vi.waitFor(() =>
+      expect(secondGroup.state.groupContext.epoch).toBe(epoch + 1n),
+    );
+
+    await ingestAll(firstGroup);
+    expect(firstGroup.state.groupContext.epoch).toBe(epoch + 1n);
+    expect(firstGroup.groupData!.adminPubkeys).toEqual([secondPubkey]);
+  });
+});
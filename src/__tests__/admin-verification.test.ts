@@ -20,7 +20,10 @@ import { SerializedClientState } from "../core/client-state.js";
 import { createCredential } from "../core/credential.js";
 import { createSimpleGroup } from "../core/group.js";
 import { generateKeyPackage } from "../core/key-package.js";
-import type { GroupStateStoreBackend } from "../store/group-state-store.js";
+import type {
+  GroupStateJournal,
+  GroupStateStoreBackend,
+} from "../store/group-state-store.js";
 import { GroupStateStore } from "../store/group-state-store.js";
 import type { KeyValueStoreBackend } from "../utils/key-value.js";
 
@@ -70,6 +73,23 @@ class MemoryGroupStateBackend implements GroupStateStoreBackend {
   async list(): Promise<Uint8Array[]> {
     return [...this.map.keys()].map((hex) => Buffer.from(hex, "hex"));
   }
+
+  private journals = new Map<string, GroupStateJournal>();
+
+  async getJournal(groupId: Uint8Array): Promise<GroupStateJournal | null> {
+    return this.journals.get(Buffer.from(groupId).toString("hex")) ?? null;
+  }
+
+  async setJournal(
+    groupId: Uint8Array,
+    journal: GroupStateJournal,
+  ): Promise<void> {
+    this.journals.set(Buffer.from(groupId).toString("hex"), journal);
+  }
+
+  async removeJournal(groupId: Uint8Array): Promise<void> {
+    this.journals.delete(Buffer.from(groupId).toString("hex"));
+  }
 }
 
 async function createTestGroupState(
@@ -139,13 +159,23 @@ describe("MarmotGroup admin verification (MIP-03)", () => {
       ratchetTree: undefined,
     });
 
-    // Non-admin attempts to create a commit (should be rejected by admin verification)
+    // Non-admin attempts to commit a proposal (should be rejected by admin verification)
+    const otherKeyPackage = await generateKeyPackage({
+      credential: createCredential("c".repeat(64)),
+      ciphersuiteImpl: impl,
+    });
     const { commit: nonAdminCommit } = await createCommit({
       context: {
         cipherSuite: impl,
         authService: unsafeTestingAuthenticationService,
       },
       state: nonAdminStateEpoch1,
+      extraProposals: [
+        {
+          proposalType: defaultProposalTypes.add,
+          add: { keyPackage: otherKeyPackage.publicPackage },
+        },
+      ],
     });
 
     // Set up MarmotGroup with admin state
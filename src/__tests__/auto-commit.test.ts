@@ -0,0 +1,144 @@
+import { PrivateKeyAccount } from "applesauce-accounts/accounts";
+import { unlockGiftWrap } from "applesauce-common/helpers/gift-wrap";
+import type { NostrEvent } from "nostr-tools";
+import { defaultCryptoProvider, getCiphersuiteImpl } from "ts-mls";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import {
+  allowAddsFrom,
+  allowAdminMetadata,
+  allowLeaves,
+  getAutoCommitDelay,
+} from "../client/group/auto-commit";
+import { MarmotGroup } from "../client/group/marmot-group";
+import { proposeInviteUser } from "../client/group/proposals/invite-user";
+import { proposeUpdateMetadata } from "../client/group/proposals/update-metadata";
+import { MarmotClient } from "../client/marmot-client";
+import { createCredential } from "../core/credential";
+import { getGroupMembers } from "../core/group-members";
+import { generateKeyPackage } from "../core/key-package";
+import { createKeyPackageEvent } from "../core/key-package-event";
+import { GROUP_EVENT_KIND } from "../core/protocol";
+import { KeyValueGroupStateBackend } from "../store/adapters/key-value-group-state-backend";
+import { KeyPackageStore } from "../store/key-package-store";
+import { MockNetwork } from "./helpers/mock-network";
+import { MemoryBackend } from "./ingest-commit-race.test";
+
+describe("getAutoCommitDelay", () => {
+  it("adds a random jitter to the debounce", () => {
+    expect(getAutoCommitDelay({ rules: [] }, () => 0)).toBe(1000);
+    expect(
+      getAutoCommitDelay({ rules: [], debounce: 500, jitter: 1000 }, () => 0.5),
+    ).toBe(1000);
+    expect(getAutoCommitDelay({ rules: [], debounce: -1, jitter: 0 })).toBe(0);
+  });
+});
+
+describe("MarmotGroup auto-commit policy", () => {
+  let network: MockNetwork;
+
+  beforeEach(() => {
+    network = new MockNetwork();
+  });
+
+  function createClient(account: PrivateKeyAccount<any>) {
+    return new MarmotClient({
+      groupStateBackend: new KeyValueGroupStateBackend(new MemoryBackend()),
+      keyPackageStore: new KeyPackageStore(new MemoryBackend()),
+      signer: account.signer,
+      network,
+    });
+  }
+
+  async function ingestAll(group: MarmotGroup<any>) {
+    const events = await network.request(group.relays!, {
+      kinds: [GROUP_EVENT_KIND],
+    });
+    for await (const _ of group.ingest(events)) {
+      // drain
+    }
+  }
+
+  async function createKeyPackage(account: PrivateKeyAccount<any>) {
+    const client = createClient(account);
+    const ciphersuiteImpl = await getCiphersuiteImpl(
+      "MLS_128_DHKEMX25519_AES128GCM_SHA256_Ed25519",
+      defaultCryptoProvider,
+    );
+    const keyPackage = await generateKeyPackage({
+      credential: createCredential(await account.signer.getPublicKey()),
+      ciphersuiteImpl,
+    });
+    await client.keyPackageStore.add(keyPackage);
+    const keyPackageEvent: NostrEvent = await account.signer.signEvent(
+      createKeyPackageEvent({ keyPackage: keyPackage.publicPackage }),
+    );
+    return { client, keyPackageEvent };
+  }
+
+  async function setup() {
+    const admin = PrivateKeyAccount.generateNew();
+    const member = PrivateKeyAccount.generateNew();
+    const memberPubkey = await member.signer.getPublicKey();
+
+    const group = await createClient(admin).createGroup("Auto Commit Test", {
+      relays: ["wss://mock-relay.test"],
+    });
+
+    const { client, keyPackageEvent } = await createKeyPackage(member);
+    await group.inviteByKeyPackageEvent(keyPackageEvent);
+    const giftWrap = network.events.find((e) => e.kind === 1059)!;
+    const welcomeRumor = await unlockGiftWrap(giftWrap, member.signer);
+    const memberGroup = await client.joinGroupFromWelcome({ welcomeRumor });
+
+    return { group, memberGroup, memberPubkey };
+  }
+
+  it("commits allowed proposals after the delay", async () => {
+    const { group, memberGroup, memberPubkey } = await setup();
+    group.autoCommitPolicy = {
+      rules: [allowAddsFrom([memberPubkey])],
+      debounce: 0,
+      jitter: 0,
+    };
+
+    const invitee = PrivateKeyAccount.generateNew();
+    const { keyPackageEvent } = await createKeyPackage(invitee);
+    await memberGroup.propose(proposeInviteUser(keyPackageEvent));
+
+    const epoch = group.state.groupContext.epoch;
+    await ingestAll(group);
+    await vi.waitFor(() =>
+      expect(group.state.groupContext.epoch).toBe(epoch + 1n),
+    );
+    expect(getGroupMembers(group.state)).toContain(
+      await invitee.signer.getPublicKey(),
+    );
+  });
+
+  it("leaves proposals that no rule allows pending", async () => {
+    const { group, memberGroup } = await setup();
+    group.autoCommitLeaves = false;
+    group.autoCommitPolicy = {
+      rules: [allowAdminMetadata(), allowLeaves()],
+      debounce: 60_000,
+    };
+
+    // Metadata changes from non-admins are not allowed
+    await memberGroup.propose(proposeUpdateMetadata({ name: "Renamed" }));
+    await ingestAll(group);
+    expect(await group.autoCommit()).toBeUndefined();
+    expect(group.inbox.proposals).toHaveLength(1);
+
+    // Leaves are
+    await ingestAll(memberGroup);
+    await memberGroup.leave();
+    await ingestAll(group);
+    const epoch = group.state.groupContext.epoch;
+    expect(await group.autoCommit()).toBeDefined();
+    expect(group.state.groupContext.epoch).toBe(epoch + 1n);
+    expect(getGroupMembers(group.state)).toHaveLength(1);
+
+    await group.destroy();
+  });
+});
@@ -0,0 +1,225 @@
+import { bytesToHex } from "@noble/hashes/utils.js";
+import { PrivateKeyAccount } from "applesauce-accounts/accounts";
+import { Rumor, unlockGiftWrap } from "applesauce-common/helpers/gift-wrap";
+import { getEventHash, type NostrEvent } from "nostr-tools";
+import { defaultCryptoProvider, getCiphersuiteImpl } from "ts-mls";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { MarmotGroup } from "../client/group/marmot-group";
+import { proposeUpdateMetadata } from "../client/group/proposals/update-metadata";
+import { MarmotClient } from "../client/marmot-client";
+import { getNostrGroupIdHex } from "../core/client-state";
+import { createCredential } from "../core/credential";
+import { deserializeApplicationData } from "../core/group-message";
+import { generateKeyPackage } from "../core/key-package";
+import { createKeyPackageEvent } from "../core/key-package-event";
+import { GROUP_EVENT_KIND } from "../core/protocol";
+import { KeyValueGroupStateBackend } from "../store/adapters/key-value-group-state-backend";
+import { KeyPackageStore } from "../store/key-package-store";
+import { MockNetwork } from "./helpers/mock-network";
+import { MemoryBackend } from "./ingest-commit-race.test";
+
+describe("MarmotClient.ingest()", () => {
+  let network: MockNetwork;
+
+  beforeEach(() => {
+    network = new MockNetwork();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  function createClient(
+    account: PrivateKeyAccount<any>,
+    ingestConcurrency?: number,
+  ) {
+    return new MarmotClient({
+      groupStateBackend: new KeyValueGroupStateBackend(new MemoryBackend()),
+      keyPackageStore: new KeyPackageStore(new MemoryBackend()),
+      signer: account.signer,
+      network,
+      ingestConcurrency,
+    });
+  }
+
+  /** Creates a fake group event for a nostr group id */
+  function fakeGroupEvent(nostrGroupId: string, kind = GROUP_EVENT_KIND) {
+    return {
+      id: bytesToHex(crypto.getRandomValues(new Uint8Array(32))),
+      kind,
+      pubkey: "",
+      created_at: 0,
+      content: "",
+      tags: [["h", nostrGroupId]],
+      sig: "",
+    } satisfies NostrEvent;
+  }
+
+  /** Replaces a group's ingest with a slow one that records when it runs */
+  function trackIngest(group: MarmotGroup<any>, log: string[]) {
+    vi.spyOn(group, "ingest").mockImplementation(async function* (events) {
+      log.push(`start ${group.groupData!.name} ${events.length}`);
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      log.push(`end ${group.groupData!.name}`);
+      return { processed: events.length, skipped: 0, failed: 0, pending: 0 };
+    });
+  }
+
+  it("routes events to their groups and reports unroutable events", async () => {
+    const admin = PrivateKeyAccount.generateNew();
+    const member = PrivateKeyAccount.generateNew();
+    const adminPubkey = await admin.signer.getPublicKey();
+    const memberPubkey = await member.signer.getPublicKey();
+    const adminClient = createClient(admin);
+    const memberClient = createClient(member);
+    const ciphersuiteImpl = await getCiphersuiteImpl(
+      "MLS_128_DHKEMX25519_AES128GCM_SHA256_Ed25519",
+      defaultCryptoProvider,
+    );
+
+    // The member joins two groups
+    const pairs: [MarmotGroup<any>, MarmotGroup<any>][] = [];
+    for (const name of ["One", "Two"]) {
+      const group = await adminClient.createGroup(name, {
+        relays: ["wss://mock-relay.test"],
+      });
+      const keyPackage = await generateKeyPackage({
+        credential: createCredential(memberPubkey),
+        ciphersuiteImpl,
+      });
+      await memberClient.keyPackageStore.add(keyPackage);
+      const keyPackageEvent: NostrEvent = await member.signer.signEvent(
+        createKeyPackageEvent({ keyPackage: keyPackage.publicPackage }),
+      );
+      await group.inviteByKeyPackageEvent(keyPackageEvent);
+
+      const giftWrap = network.events.filter((e) => e.kind === 1059).at(-1)!;
+      const welcomeRumor = await unlockGiftWrap(giftWrap, member.signer);
+      pairs.push([
+        group,
+        await memberClient.joinGroupFromWelcome({ welcomeRumor }),
+      ]);
+    }
+
+    const received: string[] = [];
+    const events: NostrEvent[] = [];
+    for (const [group, memberGroup] of pairs) {
+      memberGroup.on("applicationMessage", (data) =>
+        received.push(deserializeApplicationData(data).content),
+      );
+
+      const rumor: Rumor = {
+        id: "",
+        kind: 9,
+        pubkey: adminPubkey,
+        created_at: Math.floor(Date.now() / 1000),
+        content: `hello ${group.groupData!.name}`,
+        tags: [],
+      };
+      rumor.id = getEventHash(rumor);
+      await group.sendApplicationRumor(rumor);
+      events.push(network.events.at(-1)!);
+    }
+
+    const unknown = fakeGroupEvent("00".repeat(32));
+    const giftWrap = network.events.find((e) => e.kind === 1059)!;
+    const unroutableEvents = vi.fn();
+    memberClient.on("unroutableEvents", unroutableEvents);
+
+    const result = await memberClient.ingest([
+      events[1],
+      unknown,
+      giftWrap,
+      events[0],
+    ]);
+    expect(received.sort()).toEqual(["hello One", "hello Two"]);
+    expect(result.unroutable).toEqual([unknown, giftWrap]);
+    expect(unroutableEvents).toHaveBeenCalledWith([unknown, giftWrap]);
+    expect(
+      result.groups.map(({ group, events, result }) => [
+        group.groupData!.name,
+        events.length,
+        result?.processed,
+      ]),
+    ).toEqual(
+      expect.arrayContaining([
+        ["One", 1, 1],
+        ["Two", 1, 1],
+      ]),
+    );
+  });
+
+  it("limits how many groups ingest at once and keeps each group in order", async () => {
+    const client = createClient(PrivateKeyAccount.generateNew(), 2);
+    const groups = [];
+    for (const name of ["A", "B", "C"])
+      groups.push(
+        await client.createGroup(name, { relays: ["wss://mock-relay.test"] }),
+      );
+
+    const log: string[] = [];
+    for (const group of groups) trackIngest(group, log);
+    const [a, b, c] = groups.map((g) =>
+      fakeGroupEvent(getNostrGroupIdHex(g.state)),
+    );
+
+    await Promise.all([client.ingest([a, b, c, a]), client.ingest([a])]);
+
+    // At most two groups run at the same time
+    let running = 0;
+    for (const entry of log) {
+      running += entry.startsWith("start") ? 1 : -1;
+      expect(running).toBeLessThanOrEqual(2);
+    }
+
+    // The second call for A waits for the first one
+    expect(log.filter((entry) => entry.split(" ")[1] === "A")).toEqual([
+      "start A 2",
+      "end A",
+      "start A 1",
+      "end A",
+    ]);
+  });
+
+  it("keeps routing events after the nostr group id changes", async () => {
+    const client = createClient(PrivateKeyAccount.generateNew());
+    const group = await client.createGroup("Rename", {
+      relays: ["wss://mock-relay.test"],
+    });
+    const previous = getNostrGroupIdHex(group.state);
+
+    const nostrGroupId = crypto.getRandomValues(new Uint8Array(32));
+    await group.commit({
+      extraProposals: [proposeUpdateMetadata({ nostrGroupId })],
+    });
+
+    expect(client.getGroupByNostrGroupId(bytesToHex(nostrGroupId))).toBe(group);
+    expect(client.getGroupByNostrGroupId(previous)).toBe(group);
+
+    await client.destroyGroup(group.id);
+    expect(
+      client.getGroupByNostrGroupId(bytesToHex(nostrGroupId)),
+    ).toBeUndefined();
+    expect(
+      (await client.ingest([fakeGroupEvent(previous)])).unroutable,
+    ).toHaveLength(1);
+  });
+
+  it("removes its listeners from groups that are unloaded", async () => {
+    const client = createClient(PrivateKeyAccount.generateNew());
+    const group = await client.createGroup("Reload", {
+      relays: ["wss://mock-relay.test"],
+    });
+    const listeners = group.listenerCount("stateChanged");
+
+    await client.unloadGroup(group.id);
+    expect(group.listenerCount("stateChanged")).toBe(listeners - 1);
+    expect(group.listenerCount("destroyed")).toBe(0);
+
+    const reloaded = await client.getGroup(group.id);
+    await client.unloadGroup(group.id);
+    await client.getGroup(group.id);
+    expect(reloaded.listenerCount("stateChanged")).toBe(listeners - 1);
+  });
+});
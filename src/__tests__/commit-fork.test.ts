@@ -0,0 +1,249 @@
+import { PrivateKeyAccount } from "applesauce-accounts/accounts";
+import { Rumor, unlockGiftWrap } from "applesauce-common/helpers/gift-wrap";
+import { getEventHash, type NostrEvent } from "nostr-tools";
+import { defaultCryptoProvider, getCiphersuiteImpl } from "ts-mls";
+import { beforeEach, describe, expect, it } from "vitest";
+
+import { MarmotGroupChange } from "../client/group/group-changes";
+import { MarmotGroup } from "../client/group/marmot-group";
+import { proposePromoteAdmin } from "../client/group/proposals/admins";
+import { proposeUpdateMetadata } from "../client/group/proposals/update-metadata";
+import { MarmotClient } from "../client/marmot-client";
+import { createCredential } from "../core/credential";
+import { generateKeyPackage } from "../core/key-package";
+import { createKeyPackageEvent } from "../core/key-package-event";
+import { GROUP_EVENT_KIND } from "../core/protocol";
+import { KeyValueGroupStateBackend } from "../store/adapters/key-value-group-state-backend";
+import { KeyPackageStore } from "../store/key-package-store";
+import { MockNetwork } from "./helpers/mock-network";
+import { MemoryBackend } from "./ingest-commit-race.test";
+
+describe("MarmotGroup competing commits", () => {
+  let network: MockNetwork;
+
+  beforeEach(() => {
+    network = new MockNetwork();
+  });
+
+  function createClient(account: PrivateKeyAccount<any>) {
+    return new MarmotClient({
+      groupStateBackend: new KeyValueGroupStateBackend(new MemoryBackend()),
+      keyPackageStore: new KeyPackageStore(new MemoryBackend()),
+      signer: account.signer,
+      network,
+    });
+  }
+
+  /** Returns the group events published since the given count */
+  function groupEventsSince(count: number) {
+    return network.events
+      .filter((e) => e.kind === GROUP_EVENT_KIND)
+      .slice(count);
+  }
+
+  function countGroupEvents() {
+    return network.events.filter((e) => e.kind === GROUP_EVENT_KIND).length;
+  }
+
+  async function ingestChanges(group: MarmotGroup<any>, events: NostrEvent[]) {
+    const changes: MarmotGroupChange[] = [];
+    for await (const change of group.ingestChanges(events)) {
+      changes.push(change);
+    }
+    return changes;
+  }
+
+  async function ingestAll(group: MarmotGroup<any>) {
+    return await ingestChanges(
+      group,
+      await network.request(group.relays!, { kinds: [GROUP_EVENT_KIND] }),
+    );
+  }
+
+  /** Creates a group with two admins */
+  async function setup() {
+    const admin = PrivateKeyAccount.generateNew();
+    const member = PrivateKeyAccount.generateNew();
+    const memberPubkey = await member.signer.getPublicKey();
+    const memberClient = createClient(member);
+
+    const group = await createClient(admin).createGroup("Fork Test", {
+      relays: ["wss://mock-relay.test"],
+    });
+
+    const ciphersuiteImpl = await getCiphersuiteImpl(
+      "MLS_128_DHKEMX25519_AES128GCM_SHA256_Ed25519",
+      defaultCryptoProvider,
+    );
+    const keyPackage = await generateKeyPackage({
+      credential: createCredential(memberPubkey),
+      ciphersuiteImpl,
+    });
+    await memberClient.keyPackageStore.add(keyPackage);
+    const keyPackageEvent: NostrEvent = await member.signer.signEvent(
+      createKeyPackageEvent({ keyPackage: keyPackage.publicPackage }),
+    );
+    await group.inviteByKeyPackageEvent(keyPackageEvent);
+
+    const giftWrap = network.events.find((e) => e.kind === 1059)!;
+    const welcomeRumor = await unlockGiftWrap(giftWrap, member.signer);
+    const memberGroup = await memberClient.joinGroupFromWelcome({
+      welcomeRumor,
+    });
+
+    await group.commit({ extraProposals: [proposePromoteAdmin(memberPubkey)] });
+    await ingestAll(memberGroup);
+
+    return { group, memberGroup, memberPubkey };
+  }
+
+  it("rolls back a commit that lost the epoch and commits its changes again", async () => {
+    const { group, memberGroup } = await setup();
+    const epoch = group.state.groupContext.epoch;
+    const start = countGroupEvents();
+
+    await group.commit({
+      extraProposals: [proposeUpdateMetadata({ name: "From admin" })],
+    });
+    await memberGroup.commit({
+      extraProposals: [proposeUpdateMetadata({ name: "From member" })],
+    });
+    const [lost, winner] = groupEventsSince(start);
+    expect(group.pendingCommits.at(-1)).toBe(lost);
+
+    // The member's commit comes first in the MIP-03 ordering
+    winner.created_at = lost.created_at - 1;
+
+    // The winner keeps its commit
+    expect(await ingestChanges(memberGroup, [lost])).toEqual([]);
+    expect(memberGroup.pendingCommits.at(-1)).toBe(winner);
+
+    const changes = await ingestChanges(group, [winner]);
+    expect(changes).toContainEqual({
+      type: "commitRolledBack",
+      event: lost,
+      winner,
+      own: true,
+      lostRumors: [],
+      epoch,
+    });
+    expect(group.state.groupContext.epoch).toBe(epoch + 2n);
+    expect(group.groupData!.name).toBe("From admin");
+    expect(group.pendingCommits).not.toContain(lost);
+
+    // Both members end up on the same branch
+    await ingestAll(memberGroup);
+    expect(memberGroup.state.groupContext.epoch).toBe(epoch + 2n);
+    expect(memberGroup.groupData!.name).toBe("From admin");
+  });
+
+  it("sends own messages of a rolled back epoch again", async () => {
+    const { group, memberGroup } = await setup();
+    const start = countGroupEvents();
+
+    await group.commit({
+      extraProposals: [proposeUpdateMetadata({ name: "From admin" })],
+    });
+    const rumor: Rumor = {
+      id: "",
+      kind: 9,
+      pubkey: await group.signer.getPublicKey(),
+      created_at: Math.floor(Date.now() / 1000),
+      content: "sent on the losing branch",
+      tags: [],
+    };
+    rumor.id = getEventHash(rumor);
+    await group.sendApplicationRumor(rumor);
+    await memberGroup.commit({
+      extraProposals: [proposeUpdateMetadata({ name: "From member" })],
+    });
+    const [lost, message, winner] = groupEventsSince(start);
+    winner.created_at = lost.created_at - 1;
+
+    const changes = await ingestChanges(group, [winner]);
+    expect(changes).toContainEqual(
+      expect.objectContaining({ type: "commitRolledBack", lostRumors: [] }),
+    );
+    expect(group.outbox.map((m) => m.event)).not.toContain(message);
+
+    // The member reads the message sent again on the winning branch
+    const received = await ingestAll(memberGroup);
+    expect(
+      received.filter((c) => c.type === "applicationRumor").map((c) => c.rumor),
+    ).toEqual([rumor]);
+  });
+
+  it("confirms commits once another member builds on them", async () => {
+    const { group, memberGroup, memberPubkey } = await setup();
+
+    await group.commit({
+      extraProposals: [proposeUpdateMetadata({ name: "Renamed" })],
+    });
+    expect(group.pendingCommits).not.toEqual([]);
+    await ingestAll(memberGroup);
+
+    const rumor: Rumor = {
+      id: "",
+      kind: 9,
+      pubkey: memberPubkey,
+      created_at: Math.floor(Date.now() / 1000),
+      content: "seen it",
+      tags: [],
+    };
+    rumor.id = getEventHash(rumor);
+    await memberGroup.sendApplicationRumor(rumor);
+
+    await ingestAll(group);
+    expect(group.pendingCommits).toEqual([]);
+  });
+
+  it("applies the proposals a winning commit references before rolling back", async () => {
+    const { group, memberGroup } = await setup();
+    const epoch = group.state.groupContext.epoch;
+    const start = countGroupEvents();
+
+    // The member commits its own proposal by reference
+    await memberGroup.propose(proposeUpdateMetadata({ name: "Proposed" }));
+    const [proposal] = groupEventsSince(start);
+    await ingestChanges(memberGroup, [proposal]);
+    await group.selfUpdate();
+    await memberGroup.commit({
+      proposalRefs: Object.keys(memberGroup.unappliedProposals),
+    });
+    const [lost, winner] = groupEventsSince(start + 1);
+    winner.created_at = lost.created_at - 1;
+
+    const changes = await ingestChanges(group, [proposal, winner]);
+    expect(changes.map((c) => c.type)).toContain("commitRolledBack");
+    expect(group.groupData!.name).toBe("Proposed");
+
+    // The lost self-update was sent again
+    expect(group.state.groupContext.epoch).toBe(epoch + 2n);
+    expect(group.pendingCommits).not.toContain(lost);
+  });
+
+  it("emits forked when the winning commit can not be applied", async () => {
+    const { group, memberGroup } = await setup();
+    const epoch = group.state.groupContext.epoch;
+    const start = countGroupEvents();
+
+    await memberGroup.propose(proposeUpdateMetadata({ name: "Proposed" }));
+    const [proposal] = groupEventsSince(start);
+    await ingestChanges(memberGroup, [proposal]);
+    await group.selfUpdate();
+    await memberGroup.commit({
+      proposalRefs: Object.keys(memberGroup.unappliedProposals),
+    });
+    const [lost, winner] = groupEventsSince(start + 1);
+    winner.created_at = lost.created_at - 1;
+
+    // Without the proposal the winner can not be applied
+    const forks: { epoch: bigint; event: NostrEvent }[] = [];
+    group.on("forked", (fork) => forks.push(fork));
+    await ingestChanges(group, [winner]);
+
+    expect(forks).toEqual([expect.objectContaining({ epoch, event: winner })]);
+    expect(group.state.groupContext.epoch).toBe(epoch + 1n);
+    expect(group.pendingCommits.at(-1)).toBe(lost);
+  });
+});
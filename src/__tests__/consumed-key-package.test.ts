@@ -0,0 +1,144 @@
+import { PrivateKeyAccount } from "applesauce-accounts/accounts";
+import { unlockGiftWrap } from "applesauce-common/helpers/gift-wrap";
+import type { NostrEvent } from "nostr-tools";
+import { defaultCryptoProvider, getCiphersuiteImpl } from "ts-mls";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { NoRelayReceivedEventError } from "../client/errors";
+import { MarmotClient } from "../client/marmot-client";
+import { createCredential } from "../core/credential";
+import { hasLastResortExtension } from "../core/extensions";
+import { generateKeyPackage } from "../core/key-package";
+import {
+  createKeyPackageEvent,
+  getKeyPackage,
+} from "../core/key-package-event";
+import { KEY_PACKAGE_KIND } from "../core/protocol";
+import { KeyValueGroupStateBackend } from "../store/adapters/key-value-group-state-backend";
+import { KeyPackageStore } from "../store/key-package-store";
+import { MockNetwork } from "./helpers/mock-network";
+import { MemoryBackend } from "./ingest-commit-race.test";
+
+describe("MarmotClient.joinGroupFromWelcome() key package cleanup", () => {
+  let network: MockNetwork;
+
+  beforeEach(() => {
+    network = new MockNetwork();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  function createClient(
+    account: PrivateKeyAccount<any>,
+    replaceConsumedKeyPackages?: boolean,
+  ) {
+    return new MarmotClient({
+      groupStateBackend: new KeyValueGroupStateBackend(new MemoryBackend()),
+      keyPackageStore: new KeyPackageStore(new MemoryBackend()),
+      signer: account.signer,
+      network,
+      replaceConsumedKeyPackages,
+    });
+  }
+
+  /** Publishes a key package for the member, gets invited with it and joins */
+  async function joinWith(client: MarmotClient, lastResort: boolean) {
+    const member = PrivateKeyAccount.generateNew();
+    const memberClient = createClient(
+      member,
+      client.replaceConsumedKeyPackages,
+    );
+    const keyPackage = await generateKeyPackage({
+      credential: createCredential(await member.signer.getPublicKey()),
+      lastResort,
+      ciphersuiteImpl: await getCiphersuiteImpl(
+        "MLS_128_DHKEMX25519_AES128GCM_SHA256_Ed25519",
+        defaultCryptoProvider,
+      ),
+    });
+    await memberClient.keyPackageStore.add(keyPackage);
+    const keyPackageEvent: NostrEvent = await member.signer.signEvent(
+      createKeyPackageEvent({ keyPackage: keyPackage.publicPackage }),
+    );
+    await network.publish(["wss://mock-inbox.test"], keyPackageEvent);
+
+    const group = await client.createGroup("Cleanup Test", {
+      relays: ["wss://mock-relay.test"],
+    });
+    await group.inviteByKeyPackageEvent(keyPackageEvent);
+    const giftWrap = network.events.filter((e) => e.kind === 1059).at(-1)!;
+    const welcomeRumor = await unlockGiftWrap(giftWrap, member.signer);
+    await memberClient.joinGroupFromWelcome({ welcomeRumor });
+
+    return { member, memberClient, keyPackageEvent };
+  }
+
+  it("removes a single-use key package and deletes its event", async () => {
+    const admin = createClient(PrivateKeyAccount.generateNew());
+    const { member, memberClient, keyPackageEvent } = await joinWith(
+      admin,
+      false,
+    );
+
+    expect(await memberClient.keyPackageStore.count()).toBe(0);
+    const deletion = network.events.find((e) => e.kind === 5);
+    expect(deletion).toMatchObject({
+      pubkey: await member.signer.getPublicKey(),
+      tags: expect.arrayContaining([
+        ["k", String(KEY_PACKAGE_KIND)],
+        ["e", keyPackageEvent.id],
+      ]),
+    });
+  });
+
+  it("keeps last resort key packages", async () => {
+    const admin = createClient(PrivateKeyAccount.generateNew());
+    const { memberClient } = await joinWith(admin, true);
+
+    expect(await memberClient.keyPackageStore.count()).toBe(1);
+    expect(network.events.some((e) => e.kind === 5)).toBe(false);
+  });
+
+  it("publishes a fresh key package when replacements are enabled", async () => {
+    const admin = createClient(PrivateKeyAccount.generateNew(), true);
+    const { member, memberClient, keyPackageEvent } = await joinWith(
+      admin,
+      false,
+    );
+
+    const [stored] = await memberClient.keyPackageStore.list();
+    expect(stored).toBeDefined();
+    expect(hasLastResortExtension(stored.publicPackage.extensions)).toBe(false);
+
+    const replacement = network.events.find(
+      (e) => e.kind === KEY_PACKAGE_KIND && e.id !== keyPackageEvent.id,
+    )!;
+    expect(replacement.pubkey).toBe(await member.signer.getPublicKey());
+    expect(getKeyPackage(replacement)).toEqual(stored.publicPackage);
+  });
+
+  it("leaves unacknowledged cleanup events out of keyPackageConsumed", async () => {
+    const publish = network.publish.bind(network);
+    vi.spyOn(network, "publish").mockImplementation(async (relays, event) =>
+      event.kind === 5 ? {} : publish(relays, event),
+    );
+    const emit = vi.spyOn(MarmotClient.prototype, "emit");
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    const admin = createClient(PrivateKeyAccount.generateNew(), true);
+    const { memberClient } = await joinWith(admin, false);
+
+    const consumed = emit.mock.calls.find(
+      ([name]) => name === "keyPackageConsumed",
+    )!;
+    expect(consumed[2]).toBeUndefined();
+    expect(consumed[3]).toMatchObject({ kind: KEY_PACKAGE_KIND });
+    expect(await memberClient.keyPackageStore.count()).toBe(1);
+    expect(warn).toHaveBeenCalledWith(
+      expect.stringContaining("consumed key package"),
+      expect.any(NoRelayReceivedEventError),
+    );
+  });
+});
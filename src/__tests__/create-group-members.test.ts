@@ -0,0 +1,181 @@
+import { PrivateKeyAccount } from "applesauce-accounts/accounts";
+import { unlockGiftWrap } from "applesauce-common/helpers/gift-wrap";
+import type { NostrEvent } from "applesauce-core/helpers/event";
+import { defaultCryptoProvider, getCiphersuiteImpl } from "ts-mls";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { MarmotClient } from "../client/marmot-client";
+import { createCredential } from "../core/credential";
+import { getGroupMembers } from "../core/group-members";
+import { generateKeyPackage } from "../core/key-package";
+import { createKeyPackageEvent } from "../core/key-package-event";
+import { GROUP_EVENT_KIND } from "../core/protocol";
+import { KeyValueGroupStateBackend } from "../store/adapters/key-value-group-state-backend";
+import { KeyPackageStore } from "../store/key-package-store";
+import { MockNetwork } from "./helpers/mock-network";
+import { MemoryBackend } from "./ingest-commit-race.test";
+
+describe("MarmotClient.createGroup with members", () => {
+  let network: MockNetwork;
+
+  beforeEach(() => {
+    network = new MockNetwork();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  function createClient(account: PrivateKeyAccount<any>) {
+    return new MarmotClient({
+      groupStateBackend: new KeyValueGroupStateBackend(new MemoryBackend()),
+      keyPackageStore: new KeyPackageStore(new MemoryBackend()),
+      signer: account.signer,
+      network,
+    });
+  }
+
+  /** Creates a user with a key package published on the network */
+  async function createUser() {
+    const account = PrivateKeyAccount.generateNew();
+    const pubkey = await account.signer.getPublicKey();
+    const client = createClient(account);
+    const keyPackage = await generateKeyPackage({
+      credential: createCredential(pubkey),
+      ciphersuiteImpl: await getCiphersuiteImpl(
+        "MLS_128_DHKEMX25519_AES128GCM_SHA256_Ed25519",
+        defaultCryptoProvider,
+      ),
+    });
+    await client.keyPackageStore.add(keyPackage);
+    network.events.push(
+      await account.signer.signEvent(
+        createKeyPackageEvent({ keyPackage: keyPackage.publicPackage }),
+      ),
+    );
+    return { account, pubkey, client };
+  }
+
+  it("adds the initial members in the first commit and sends their Welcomes", async () => {
+    const admin = PrivateKeyAccount.generateNew();
+    const adminPubkey = await admin.signer.getPublicKey();
+    const client = createClient(admin);
+    const alice = await createUser();
+    const bob = await createUser();
+
+    const created: unknown[] = [];
+    client.on("groupCreated", (group) => created.push(group));
+    const { group, invites } = await client.createGroup("With members", {
+      relays: ["wss://mock-relay.test"],
+      members: [alice.pubkey, bob.pubkey, adminPubkey],
+    });
+
+    expect(created).toEqual([group]);
+    expect(invites.map((r) => [r.pubkey, r.status])).toEqual([
+      [alice.pubkey, "invited"],
+      [bob.pubkey, "invited"],
+      [adminPubkey, "alreadyMember"],
+    ]);
+    expect(group.state.groupContext.epoch).toBe(1n);
+    expect(getGroupMembers(group.state).sort()).toEqual(
+      [adminPubkey, alice.pubkey, bob.pubkey].sort(),
+    );
+    expect(
+      network.events.filter((e) => e.kind === GROUP_EVENT_KIND),
+    ).toHaveLength(1);
+
+    const giftWrap = network.events.find(
+      (e) => e.kind === 1059 && e.tags.some((t) => t[1] === alice.pubkey),
+    )!;
+    const joined = await alice.client.joinGroupFromWelcome({
+      welcomeRumor: await unlockGiftWrap(giftWrap, alice.account.signer),
+    });
+    expect(joined.groupData?.name).toBe("With members");
+  });
+
+  it("reports members whose Welcome could not be sent", async () => {
+    const admin = PrivateKeyAccount.generateNew();
+    const client = createClient(admin);
+    const alice = await createUser();
+    const bob = await createUser();
+
+    const publish = network.publish.bind(network);
+    vi.spyOn(network, "publish").mockImplementation(
+      async (relays, event: NostrEvent) => {
+        if (event.kind === 1059 && event.tags.some((t) => t[1] === bob.pubkey))
+          return Object.fromEntries(
+            relays.map((relay) => [
+              relay,
+              { from: relay, ok: false, message: "blocked" },
+            ]),
+          );
+        return await publish(relays, event);
+      },
+    );
+
+    const { group, invites } = await client.createGroup("Partial", {
+      relays: ["wss://mock-relay.test"],
+      members: [alice.pubkey, bob.pubkey],
+    });
+
+    expect(getGroupMembers(group.state)).toContain(bob.pubkey);
+    expect(invites).toEqual([
+      expect.objectContaining({ pubkey: alice.pubkey, status: "invited" }),
+      expect.objectContaining({
+        pubkey: bob.pubkey,
+        status: "welcomeFailed",
+        delivery: expect.objectContaining({ delivered: false }),
+      }),
+    ]);
+  });
+
+  it("stores nothing when a member has no valid key package", async () => {
+    const admin = PrivateKeyAccount.generateNew();
+    const client = createClient(admin);
+    const alice = await createUser();
+    const stranger =
+      await PrivateKeyAccount.generateNew().signer.getPublicKey();
+
+    await expect(
+      client.createGroup("Missing", {
+        relays: ["wss://mock-relay.test"],
+        members: [alice.pubkey, stranger],
+      }),
+    ).rejects.toThrow(`No valid key package found for ${stranger}`);
+
+    expect(await client.groupStateStore.list()).toEqual([]);
+    expect(client.groups).toEqual([]);
+    expect(network.events.some((e) => e.kind === GROUP_EVENT_KIND)).toBe(false);
+  });
+
+  it("removes the group again when the first commit can't be published", async () => {
+    const admin = PrivateKeyAccount.generateNew();
+    const client = createClient(admin);
+    const alice = await createUser();
+
+    const publish = network.publish.bind(network);
+    vi.spyOn(network, "publish").mockImplementation(
+      async (relays, event: NostrEvent) => {
+        if (event.kind === GROUP_EVENT_KIND)
+          return Object.fromEntries(
+            relays.map((relay) => [
+              relay,
+              { from: relay, ok: false, message: "offline" },
+            ]),
+          );
+        return await publish(relays, event);
+      },
+    );
+
+    await expect(
+      client.createGroup("Offline", {
+        relays: ["wss://mock-relay.test"],
+        members: [alice.pubkey],
+      }),
+    ).rejects.toThrow("No relay received event");
+
+    expect(await client.groupStateStore.list()).toEqual([]);
+    expect(client.groups).toEqual([]);
+    expect(network.events.some((e) => e.kind === 1059)).toBe(false);
+  });
+});
@@ -0,0 +1,186 @@
+import { PrivateKeyAccount } from "applesauce-accounts/accounts";
+import { Rumor, unlockGiftWrap } from "applesauce-common/helpers/gift-wrap";
+import { getEventHash, type NostrEvent } from "nostr-tools";
+import { defaultCryptoProvider, getCiphersuiteImpl } from "ts-mls";
+import { beforeEach, describe, expect, it } from "vitest";
+
+import { MarmotGroup } from "../client/group/marmot-group";
+import { MarmotClient } from "../client/marmot-client";
+import {
+  deserializeClientState,
+  deserializeGroupState,
+} from "../core/client-state";
+import { createCredential } from "../core/credential";
+import {
+  decodePastEpochKeys,
+  encodePastEpochKeys,
+} from "../core/epoch-retention";
+import { generateKeyPackage } from "../core/key-package";
+import { createKeyPackageEvent } from "../core/key-package-event";
+import { GROUP_EVENT_KIND } from "../core/protocol";
+import { KeyValueGroupStateBackend } from "../store/adapters/key-value-group-state-backend";
+import { KeyPackageStore } from "../store/key-package-store";
+import { MockNetwork } from "./helpers/mock-network";
+import { MemoryBackend } from "./ingest-commit-race.test";
+
+describe("encodePastEpochKeys", () => {
+  it("round trips past epoch keys", () => {
+    const keys = new Map([
+      [3n, new Uint8Array(32).fill(3)],
+      [4n, new Uint8Array(32).fill(4)],
+    ]);
+    expect(decodePastEpochKeys(encodePastEpochKeys(keys))).toEqual(keys);
+    expect(() => decodePastEpochKeys(new Uint8Array([0, 0, 0, 1]))).toThrow();
+
+    // Data without the header is not read as keys
+    const untagged = encodePastEpochKeys(keys).subarray(5);
+    expect(() => decodePastEpochKeys(untagged)).toThrow(
+      "Data is not tagged as past epoch keys",
+    );
+    const unknownVersion = encodePastEpochKeys(keys);
+    unknownVersion[4] = 2;
+    expect(() => decodePastEpochKeys(unknownVersion)).toThrow(
+      "Unsupported past epoch keys version 2",
+    );
+  });
+});
+
+describe("MarmotGroup epoch retention", () => {
+  let network: MockNetwork;
+
+  beforeEach(() => {
+    network = new MockNetwork();
+  });
+
+  function createClient(
+    account: PrivateKeyAccount<any>,
+    options?: { epochRetention?: number; stateBackend?: MemoryBackend },
+  ) {
+    return new MarmotClient({
+      groupStateBackend: new KeyValueGroupStateBackend(
+        options?.stateBackend ?? new MemoryBackend(),
+      ),
+      keyPackageStore: new KeyPackageStore(new MemoryBackend()),
+      signer: account.signer,
+      network,
+      epochRetention: options?.epochRetention,
+    });
+  }
+
+  async function ingestRumors(group: MarmotGroup<any>) {
+    const events = await network.request(group.relays!, {
+      kinds: [GROUP_EVENT_KIND],
+    });
+    const rumors: Rumor[] = [];
+    for await (const change of group.ingestChanges(events)) {
+      if (change.type === "applicationRumor") rumors.push(change.rumor);
+    }
+    return rumors;
+  }
+
+  async function setup(epochRetention?: number) {
+    const admin = PrivateKeyAccount.generateNew();
+    const member = PrivateKeyAccount.generateNew();
+    const memberPubkey = await member.signer.getPublicKey();
+    const memberClient = createClient(member);
+    const stateBackend = new MemoryBackend();
+
+    const group = await createClient(admin, {
+      epochRetention,
+      stateBackend,
+    }).createGroup("Retention Test", { relays: ["wss://mock-relay.test"] });
+
+    const ciphersuiteImpl = await getCiphersuiteImpl(
+      "MLS_128_DHKEMX25519_AES128GCM_SHA256_Ed25519",
+      defaultCryptoProvider,
+    );
+    const keyPackage = await generateKeyPackage({
+      credential: createCredential(memberPubkey),
+      ciphersuiteImpl,
+    });
+    await memberClient.keyPackageStore.add(keyPackage);
+    const keyPackageEvent: NostrEvent = await member.signer.signEvent(
+      createKeyPackageEvent({ keyPackage: keyPackage.publicPackage }),
+    );
+    await group.inviteByKeyPackageEvent(keyPackageEvent);
+
+    const giftWrap = network.events.find((e) => e.kind === 1059)!;
+    const welcomeRumor = await unlockGiftWrap(giftWrap, member.signer);
+    const memberGroup = await memberClient.joinGroupFromWelcome({
+      welcomeRumor,
+    });
+
+    /** Sends a chat message from the member in its current epoch */
+    async function sendMessage(content: string) {
+      const rumor: Rumor = {
+        id: "",
+        kind: 9,
+        pubkey: memberPubkey,
+        created_at: Math.floor(Date.now() / 1000),
+        content,
+        tags: [],
+      };
+      rumor.id = getEventHash(rumor);
+      await memberGroup.sendApplicationRumor(rumor);
+    }
+
+    return { admin, group, memberGroup, stateBackend, sendMessage };
+  }
+
+  it("decrypts messages sent just before a commit", async () => {
+    const { group, sendMessage } = await setup();
+
+    await sendMessage("late");
+    await group.selfUpdate();
+
+    const rumors = await ingestRumors(group);
+    expect(rumors.map((r) => r.content)).toEqual(["late"]);
+  });
+
+  it("keeps past epoch keys with the stored group state", async () => {
+    const { admin, group, stateBackend, sendMessage } = await setup();
+
+    await sendMessage("late");
+    await group.selfUpdate();
+
+    const stored = await new KeyValueGroupStateBackend(stateBackend).get(
+      group.id,
+    );
+    const { state, pastEpochKeys } = deserializeGroupState(stored!);
+    expect(state.groupContext.epoch).toBe(group.state.groupContext.epoch);
+    expect([...pastEpochKeys.keys()]).toContain(
+      group.state.groupContext.epoch - 1n,
+    );
+    expect(deserializeClientState(stored!).groupContext.epoch).toBe(
+      state.groupContext.epoch,
+    );
+
+    // A fresh client loading the group can still read the late message
+    const reloaded = await createClient(admin, { stateBackend }).getGroup(
+      group.id,
+    );
+    const rumors = await ingestRumors(reloaded);
+    expect(rumors.map((r) => r.content)).toEqual(["late"]);
+  });
+
+  it("erases secrets once they leave the retention window", async () => {
+    const { group, stateBackend, sendMessage } = await setup(1);
+
+    await sendMessage("too late");
+    const previous = group.state.groupContext.epoch;
+    await group.selfUpdate();
+    await group.selfUpdate();
+
+    expect([...group.state.historicalReceiverData.keys()]).toEqual([
+      previous + 1n,
+    ]);
+    const stored = await new KeyValueGroupStateBackend(stateBackend).get(
+      group.id,
+    );
+    expect([...deserializeGroupState(stored!).pastEpochKeys.keys()]).toEqual([
+      previous + 1n,
+    ]);
+
+    expect(await ingestRumors(group)).toEqual([]);
+  });
+});
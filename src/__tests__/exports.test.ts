@@ -5,10 +5,19 @@ describe("exports", () => {
   it("should export the expected members", () => {
     expect(Object.keys(exports).sort()).toMatchInlineSnapshot(`
       [
+        "ADMIN_SUCCESSION_EXTENSION_TYPE",
+        "ADMIN_SUCCESSION_VERSION",
+        "DEFAULT_EPOCH_RETENTION",
+        "DEFAULT_SYNC_BACKFILL_MARGIN",
+        "GIFT_WRAP_LOOKBACK",
         "GROUP_EVENT_KIND",
         "GroupRumorHistory",
+        "GroupScopedStore",
         "GroupStateStore",
         "GroupStore",
+        "GroupSync",
+        "InboxRelayResolver",
+        "InviteInbox",
         "InviteReader",
         "KEY_PACKAGE_CIPHER_SUITE_TAG",
         "KEY_PACKAGE_CLIENT_TAG",
@@ -18,64 +27,108 @@ describe("exports", () => {
         "KEY_PACKAGE_RELAYS_TAG",
         "KEY_PACKAGE_RELAY_LIST_KIND",
         "KEY_PACKAGE_RELAY_LIST_RELAY_TAG",
+        "KeyPackageManager",
         "KeyPackageStore",
+        "KeyPackageValidator",
         "KeyValueGroupStateBackend",
         "LAST_RESORT_KEY_PACKAGE_EXTENSION_TYPE",
         "MARMOT_GROUP_DATA_EXTENSION_TYPE",
         "MARMOT_GROUP_DATA_VERSION",
+        "MEDIA_ENCRYPTION_VERSION",
+        "MEDIA_IMETA_TAG",
         "MarmotClient",
         "MarmotGroup",
+        "MediaKeyStore",
+        "MemoryBlobStore",
+        "OutboxStore",
+        "PendingEventStore",
+        "ProcessedEventStore",
+        "ProposalInbox",
         "Proposals",
+        "SyncCursorStore",
         "WELCOME_EVENT_KIND",
+        "adminSuccessionRuleToExtension",
+        "allowAddsFrom",
+        "allowAdminMetadata",
+        "allowLeaves",
         "calculateKeyPackageRef",
+        "compareGroupCommits",
         "createAdminCommitPolicyCallback",
         "createCommitEvent",
         "createCredential",
         "createDeleteKeyPackageEvent",
         "createEncryptedGroupEventContent",
+        "createEpochRetentionClientConfig",
         "createGiftWrap",
         "createGroup",
         "createGroupEvent",
         "createKeyPackageEvent",
         "createKeyPackageRelayListEvent",
         "createMarmotGroupData",
+        "createMediaImetaTag",
         "createProposalEvent",
+        "createSelfUpdateCommit",
         "createSimpleGroup",
         "createThreeMonthLifetime",
         "createWelcomeRumor",
+        "decodeAdminSuccessionRule",
         "decodeContent",
         "decodeMarmotGroupData",
+        "decodePastEpochKeys",
+        "decryptGroupImage",
         "decryptGroupMessageEvent",
+        "decryptMedia",
         "defaultCapabilities",
         "defaultMarmotClientConfig",
+        "describePendingProposal",
         "deserializeApplicationData",
         "deserializeApplicationRumor",
         "deserializeClientState",
+        "deserializeGroupState",
         "detectEncoding",
+        "discoverKeyPackage",
+        "encodeAdminSuccessionRule",
         "encodeContent",
         "encodeMarmotGroupData",
+        "encodePastEpochKeys",
+        "encryptGroupImage",
+        "encryptMedia",
         "ensureLastResortExtension",
         "ensureMarmotCapabilities",
         "extendedExtensionTypes",
         "extractMarmotGroupData",
         "formatMlsTimestamp",
         "generateKeyPackage",
+        "getAdminSuccessionRule",
+        "getAdminSuccessor",
+        "getAdminsAfterProposals",
+        "getAutoCommitDelay",
+        "getAutoCommitProposals",
         "getCredentialLeafNodeIndexes",
         "getCredentialPubkey",
+        "getEffectiveAdmins",
         "getEncodingTag",
         "getEpoch",
+        "getExporterSecretForNip44",
         "getGroupIdHex",
         "getGroupMembers",
+        "getGroupStateChanges",
         "getKeyPackage",
         "getKeyPackageCipherSuiteId",
         "getKeyPackageClient",
+        "getKeyPackageExpiry",
         "getKeyPackageExtensions",
         "getKeyPackageMLSVersion",
         "getKeyPackageNostrPubkey",
         "getKeyPackageRelayList",
         "getKeyPackageRelays",
+        "getKeyRotationEffect",
+        "getMarmotGroupDataChanges",
         "getMarmotGroupDataExtensionBytes",
+        "getMediaAttachments",
+        "getMediaExporterSecret",
         "getMemberCount",
+        "getMembersAfterProposals",
         "getNostrGroupIdHex",
         "getPubkeyLeafNodeIndexes",
         "getPubkeyLeafNodes",
@@ -84,10 +137,16 @@ describe("exports", () => {
         "getWelcomeGroupRelays",
         "getWelcomeKeyPackageEventId",
         "hasAck",
+        "hasGroupImage",
+        "hasLastResortExtension",
         "isAdmin",
+        "isAdminSuccessionCommit",
+        "isAdminSuccessionExtension",
+        "isAdminTakeoverApproved",
         "isApplicationMessage",
         "isCommitMessage",
         "isHexKey",
+        "isKeyRotationDue",
         "isLifetimeValid",
         "isMarmotGroupDataExtension",
         "isProposalMessage",
@@ -98,6 +157,9 @@ describe("exports", () => {
         "keyPackageDefaultExtensions",
         "marmotGroupDataToExtension",
         "normalizeRelayUrl",
+        "parseMediaImetaTag",
+        "pruneHistoricalReceiverData",
+        "prunePastEpochKeys",
         "readGroupMessage",
         "readGroupMessages",
         "replaceExtension",
@@ -106,6 +168,7 @@ describe("exports", () => {
         "sortGroupCommits",
         "supportsMarmotExtensions",
         "unixNow",
+        "validateAdminInvariants",
       ]
     `);
   });
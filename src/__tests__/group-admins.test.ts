@@ -0,0 +1,179 @@
+import { PrivateKeyAccount } from "applesauce-accounts/accounts";
+import { unlockGiftWrap } from "applesauce-common/helpers/gift-wrap";
+import type { NostrEvent } from "nostr-tools";
+import {
+  createCommit,
+  defaultCryptoProvider,
+  getCiphersuiteImpl,
+} from "ts-mls";
+import { beforeEach, describe, expect, it } from "vitest";
+
+import { MarmotGroup } from "../client/group/marmot-group";
+import {
+  proposeDemoteAdmin,
+  proposePromoteAdmin,
+} from "../client/group/proposals/admins";
+import { proposeUpdateMetadata } from "../client/group/proposals/update-metadata";
+import { MarmotClient } from "../client/marmot-client";
+import { marmotAuthService } from "../core/auth-service";
+import { createCredential } from "../core/credential";
+import { validateAdminInvariants } from "../core/group-admins";
+import { createGroupEvent } from "../core/group-message";
+import { generateKeyPackage } from "../core/key-package";
+import { createKeyPackageEvent } from "../core/key-package-event";
+import { GROUP_EVENT_KIND } from "../core/protocol";
+import { KeyValueGroupStateBackend } from "../store/adapters/key-value-group-state-backend";
+import { KeyPackageStore } from "../store/key-package-store";
+import { MockNetwork } from "./helpers/mock-network";
+import { MemoryBackend } from "./ingest-commit-race.test";
+
+const a = "a".repeat(64);
+const b = "b".repeat(64);
+const c = "c".repeat(64);
+
+describe("validateAdminInvariants", () => {
+  it("requires new admins to be members", () => {
+    expect(() => validateAdminInvariants([a], [a, c], [a, b])).toThrow(
+      "is not a member",
+    );
+    expect(() => validateAdminInvariants([a], [a, b], [a, b])).not.toThrow();
+  });
+
+  it("requires at least one admin who is a member", () => {
+    expect(() => validateAdminInvariants([a], [], [a, b])).toThrow(
+      "at least one admin",
+    );
+    expect(() => validateAdminInvariants([a, c], [a, c], [b])).toThrow(
+      "at least one admin",
+    );
+  });
+
+  it("does not re-check admins that were already listed", () => {
+    expect(() => validateAdminInvariants([a, c], [a, c], [a])).not.toThrow();
+  });
+});
+
+describe("admin promotion and demotion", () => {
+  let network: MockNetwork;
+
+  beforeEach(() => {
+    network = new MockNetwork();
+  });
+
+  function createClient(account: PrivateKeyAccount<any>) {
+    return new MarmotClient({
+      groupStateBackend: new KeyValueGroupStateBackend(new MemoryBackend()),
+      keyPackageStore: new KeyPackageStore(new MemoryBackend()),
+      signer: account.signer,
+      network,
+    });
+  }
+
+  async function ingestAll(group: MarmotGroup<any>) {
+    const events = await network.request(group.relays!, {
+      kinds: [GROUP_EVENT_KIND],
+    });
+    for await (const _ of group.ingest(events)) {
+      // drain
+    }
+  }
+
+  async function setup() {
+    const admin = PrivateKeyAccount.generateNew();
+    const member = PrivateKeyAccount.generateNew();
+    const adminPubkey = await admin.signer.getPublicKey();
+    const memberPubkey = await member.signer.getPublicKey();
+    const memberClient = createClient(member);
+
+    const group = await createClient(admin).createGroup("Admin Test", {
+      relays: ["wss://mock-relay.test"],
+    });
+
+    const ciphersuiteImpl = await getCiphersuiteImpl(
+      "MLS_128_DHKEMX25519_AES128GCM_SHA256_Ed25519",
+      defaultCryptoProvider,
+    );
+    const keyPackage = await generateKeyPackage({
+      credential: createCredential(memberPubkey),
+      ciphersuiteImpl,
+    });
+    await memberClient.keyPackageStore.add(keyPackage);
+    const keyPackageEvent: NostrEvent = await member.signer.signEvent(
+      createKeyPackageEvent({ keyPackage: keyPackage.publicPackage }),
+    );
+    await group.inviteByKeyPackageEvent(keyPackageEvent);
+
+    const giftWrap = network.events.find((e) => e.kind === 1059)!;
+    const welcomeRumor = await unlockGiftWrap(giftWrap, member.signer);
+    const memberGroup = await memberClient.joinGroupFromWelcome({
+      welcomeRumor,
+    });
+
+    return { group, memberGroup, adminPubkey, memberPubkey };
+  }
+
+  it("promotes a member who can then commit", async () => {
+    const { group, memberGroup, adminPubkey, memberPubkey } = await setup();
+
+    await group.commit({ extraProposals: [proposePromoteAdmin(memberPubkey)] });
+    await ingestAll(memberGroup);
+    expect(memberGroup.groupData!.adminPubkeys).toEqual([
+      adminPubkey,
+      memberPubkey,
+    ]);
+
+    // The new admin demotes the original admin
+    await memberGroup.commit({
+      extraProposals: [proposeDemoteAdmin(adminPubkey)],
+    });
+    await ingestAll(group);
+    expect(group.groupData!.adminPubkeys).toEqual([memberPubkey]);
+  });
+
+  it("refuses to promote non-members or demote the last admin", async () => {
+    const { group, adminPubkey } = await setup();
+
+    await expect(
+      group.commit({ extraProposals: [proposePromoteAdmin(c)] }),
+    ).rejects.toThrow("is not a member");
+    await expect(
+      group.commit({ extraProposals: [proposeDemoteAdmin(adminPubkey)] }),
+    ).rejects.toThrow("at least one admin");
+    await expect(
+      group.commit({
+        extraProposals: [proposeUpdateMetadata({ adminPubkeys: [] })],
+      }),
+    ).rejects.toThrow("at least one admin");
+  });
+
+  it("rejects commits that leave the group without an admin", async () => {
+    const { group, memberGroup } = await setup();
+
+    // Bypass MarmotGroup.commit() to publish a commit that drops every admin
+    const proposal = await proposeUpdateMetadata({ adminPubkeys: [] })({
+      state: group.state,
+      ciphersuite: group.ciphersuite,
+      groupData: group.groupData!,
+    });
+    const { commit } = await createCommit({
+      context: {
+        cipherSuite: group.ciphersuite,
+        authService: marmotAuthService,
+      },
+      state: group.state,
+      extraProposals: [proposal],
+      ratchetTreeExtension: true,
+    });
+    await group.publish(
+      await createGroupEvent({
+        message: commit,
+        state: group.state,
+        ciphersuite: group.ciphersuite,
+      }),
+    );
+
+    const epoch = memberGroup.state.groupContext.epoch;
+    await ingestAll(memberGroup);
+    expect(memberGroup.state.groupContext.epoch).toBe(epoch);
+  });
+});
@@ -0,0 +1,215 @@
+import { PrivateKeyAccount } from "applesauce-accounts/accounts";
+import { Rumor, unlockGiftWrap } from "applesauce-common/helpers/gift-wrap";
+import { getEventHash, type NostrEvent } from "nostr-tools";
+import {
+  createCommit,
+  defaultCryptoProvider,
+  getCiphersuiteImpl,
+} from "ts-mls";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { MarmotGroupChange } from "../client/group/group-changes";
+import { MarmotGroup } from "../client/group/marmot-group";
+import { proposePromoteAdmin } from "../client/group/proposals/admins";
+import { proposeRemoveUser } from "../client/group/proposals/remove-member";
+import { proposeUpdateMetadata } from "../client/group/proposals/update-metadata";
+import { MarmotClient } from "../client/marmot-client";
+import { marmotAuthService } from "../core/auth-service";
+import { createCredential } from "../core/credential";
+import { createGroupEvent } from "../core/group-message";
+import { generateKeyPackage } from "../core/key-package";
+import { createKeyPackageEvent } from "../core/key-package-event";
+import { GROUP_EVENT_KIND } from "../core/protocol";
+import { KeyValueGroupStateBackend } from "../store/adapters/key-value-group-state-backend";
+import { KeyPackageStore } from "../store/key-package-store";
+import { MockNetwork } from "./helpers/mock-network";
+import { MemoryBackend } from "./ingest-commit-race.test";
+
+describe("MarmotGroup change events", () => {
+  let network: MockNetwork;
+
+  beforeEach(() => {
+    network = new MockNetwork();
+  });
+
+  function createClient(account: PrivateKeyAccount<any>) {
+    return new MarmotClient({
+      groupStateBackend: new KeyValueGroupStateBackend(new MemoryBackend()),
+      keyPackageStore: new KeyPackageStore(new MemoryBackend()),
+      signer: account.signer,
+      network,
+    });
+  }
+
+  async function ingestChanges(group: MarmotGroup<any>) {
+    const events = await network.request(group.relays!, {
+      kinds: [GROUP_EVENT_KIND],
+    });
+    const changes: MarmotGroupChange[] = [];
+    for await (const change of group.ingestChanges(events)) {
+      changes.push(change);
+    }
+    return changes;
+  }
+
+  async function setup() {
+    const admin = PrivateKeyAccount.generateNew();
+    const member = PrivateKeyAccount.generateNew();
+    const adminPubkey = await admin.signer.getPublicKey();
+    const memberPubkey = await member.signer.getPublicKey();
+    const memberClient = createClient(member);
+
+    const group = await createClient(admin).createGroup("Changes Test", {
+      relays: ["wss://mock-relay.test"],
+    });
+
+    const ciphersuiteImpl = await getCiphersuiteImpl(
+      "MLS_128_DHKEMX25519_AES128GCM_SHA256_Ed25519",
+      defaultCryptoProvider,
+    );
+    const keyPackage = await generateKeyPackage({
+      credential: createCredential(memberPubkey),
+      ciphersuiteImpl,
+    });
+    await memberClient.keyPackageStore.add(keyPackage);
+    const keyPackageEvent: NostrEvent = await member.signer.signEvent(
+      createKeyPackageEvent({ keyPackage: keyPackage.publicPackage }),
+    );
+
+    const added: string[] = [];
+    group.on("memberAdded", (change) => added.push(change.pubkey));
+    await group.inviteByKeyPackageEvent(keyPackageEvent);
+    expect(added).toEqual([memberPubkey]);
+
+    const giftWrap = network.events.find((e) => e.kind === 1059)!;
+    const welcomeRumor = await unlockGiftWrap(giftWrap, member.signer);
+    const memberGroup = await memberClient.joinGroupFromWelcome({
+      welcomeRumor,
+    });
+
+    return { group, memberGroup, adminPubkey, memberPubkey };
+  }
+
+  it("reports metadata, admin and epoch changes from commits", async () => {
+    const { group, memberGroup, adminPubkey, memberPubkey } = await setup();
+    const epoch = memberGroup.state.groupContext.epoch;
+
+    await group.commit({
+      extraProposals: [proposeUpdateMetadata({ name: "Renamed" })],
+    });
+    await group.commit({ extraProposals: [proposePromoteAdmin(memberPubkey)] });
+
+    expect(await ingestChanges(memberGroup)).toEqual([
+      {
+        type: "metadataChanged",
+        changes: { name: "Renamed" },
+        epoch: epoch + 1n,
+      },
+      { type: "epochAdvanced", previousEpoch: epoch, epoch: epoch + 1n },
+      {
+        type: "adminsChanged",
+        previous: [adminPubkey],
+        admins: [adminPubkey, memberPubkey],
+        epoch: epoch + 2n,
+      },
+      { type: "epochAdvanced", previousEpoch: epoch + 1n, epoch: epoch + 2n },
+    ]);
+  });
+
+  it("keeps ingesting when a change listener throws", async () => {
+    const { group, memberGroup } = await setup();
+    const epoch = memberGroup.state.groupContext.epoch;
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    memberGroup.on("metadataChanged", () => {
+      throw new Error("Listener failed");
+    });
+
+    const published = network.events.length;
+    await group.commit({
+      extraProposals: [proposeUpdateMetadata({ name: "Renamed" })],
+    });
+    const iterator = memberGroup.ingest(network.events.slice(published));
+    let next = await iterator.next();
+    while (!next.done) next = await iterator.next();
+
+    expect(next.value).toMatchObject({ processed: 1, pending: 0 });
+    expect(memberGroup.state.groupContext.epoch).toBe(epoch + 1n);
+    expect(memberGroup.pendingEvents).toEqual([]);
+    vi.restoreAllMocks();
+  });
+
+  it("reports proposals and application rumors", async () => {
+    const { group, memberGroup, memberPubkey } = await setup();
+
+    const rumor: Rumor = {
+      id: "",
+      kind: 9,
+      pubkey: memberPubkey,
+      created_at: Math.floor(Date.now() / 1000),
+      content: "hello",
+      tags: [],
+    };
+    rumor.id = getEventHash(rumor);
+    await memberGroup.sendApplicationRumor(rumor);
+    await memberGroup.propose(proposeUpdateMetadata({ name: "Renamed" }));
+
+    const changes = await ingestChanges(group);
+    expect(changes.map((c) => c.type)).toEqual([
+      "applicationRumor",
+      "proposalReceived",
+    ]);
+    expect(changes[0]).toMatchObject({ rumor: { content: "hello" } });
+    expect(changes[1]).toMatchObject({
+      proposal: { type: "metadata", sender: memberPubkey },
+    });
+  });
+
+  it("reports rejected commits with their sender and reason", async () => {
+    const { group, memberGroup, memberPubkey } = await setup();
+
+    // Bypass MarmotGroup.commit() to publish a commit from a non-admin
+    const proposal = await proposeUpdateMetadata({ name: "Hijacked" })({
+      state: memberGroup.state,
+      ciphersuite: memberGroup.ciphersuite,
+      groupData: memberGroup.groupData!,
+    });
+    const { commit } = await createCommit({
+      context: {
+        cipherSuite: memberGroup.ciphersuite,
+        authService: marmotAuthService,
+      },
+      state: memberGroup.state,
+      extraProposals: [proposal],
+      ratchetTreeExtension: true,
+    });
+    await memberGroup.publish(
+      await createGroupEvent({
+        message: commit,
+        state: memberGroup.state,
+        ciphersuite: memberGroup.ciphersuite,
+      }),
+    );
+
+    expect(await ingestChanges(group)).toEqual([
+      {
+        type: "commitRejected",
+        sender: memberPubkey,
+        reason: "Commit sender is not an admin",
+        epoch: group.state.groupContext.epoch,
+      },
+    ]);
+  });
+
+  it("reports when the local member is removed", async () => {
+    const { group, memberGroup, memberPubkey } = await setup();
+
+    await group.commit({ extraProposals: [proposeRemoveUser(memberPubkey)] });
+
+    const changes = await ingestChanges(memberGroup);
+    expect(changes.map((c) => c.type)).toEqual([
+      "memberRemoved",
+      "selfRemoved",
+      "epochAdvanced",
+    ]);
+  });
+});
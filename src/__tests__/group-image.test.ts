@@ -0,0 +1,148 @@
+import { bytesToHex } from "@noble/hashes/utils.js";
+import { PrivateKeyAccount } from "applesauce-accounts/accounts";
+import { unlockGiftWrap } from "applesauce-common/helpers/gift-wrap";
+import type { NostrEvent } from "nostr-tools";
+import { defaultCryptoProvider, getCiphersuiteImpl } from "ts-mls";
+import { beforeEach, describe, expect, it } from "vitest";
+
+import { NoBlobStoreError } from "../client/errors";
+import { MarmotClient } from "../client/marmot-client";
+import { createCredential } from "../core/credential";
+import {
+  decryptGroupImage,
+  encryptGroupImage,
+  hasGroupImage,
+} from "../core/group-image";
+import { generateKeyPackage } from "../core/key-package";
+import { createKeyPackageEvent } from "../core/key-package-event";
+import { KeyValueGroupStateBackend } from "../store/adapters/key-value-group-state-backend";
+import { MemoryBlobStore } from "../store/blob-store";
+import { KeyPackageStore } from "../store/key-package-store";
+import { MockNetwork } from "./helpers/mock-network";
+import { MemoryBackend } from "./ingest-commit-race.test";
+
+const image = new TextEncoder().encode("definitely a png");
+
+describe("group image encryption", () => {
+  it("round-trips an image through encrypt and decrypt", () => {
+    const encrypted = encryptGroupImage(image);
+
+    expect(encrypted.imageKey).toHaveLength(32);
+    expect(encrypted.imageNonce).toHaveLength(12);
+    expect(encrypted.imageHash).toHaveLength(32);
+    expect(bytesToHex(encrypted.data)).not.toContain(bytesToHex(image));
+
+    expect(decryptGroupImage(encrypted.data, encrypted)).toEqual(image);
+  });
+
+  it("rejects data that does not match the image hash", () => {
+    const encrypted = encryptGroupImage(image);
+    const tampered = encrypted.data.slice();
+    tampered[0] ^= 0xff;
+
+    expect(() => decryptGroupImage(tampered, encrypted)).toThrow(
+      "does not match image hash",
+    );
+  });
+
+  it("treats null or all-zero image fields as no image", () => {
+    expect(
+      hasGroupImage({ imageHash: null, imageKey: null, imageNonce: null }),
+    ).toBe(false);
+    expect(
+      hasGroupImage({
+        imageHash: new Uint8Array(32),
+        imageKey: new Uint8Array(32),
+        imageNonce: new Uint8Array(12),
+      }),
+    ).toBe(false);
+  });
+});
+
+describe("MarmotGroup group image", () => {
+  let network: MockNetwork;
+  let blobStore: MemoryBlobStore;
+
+  function createClient(account: PrivateKeyAccount<any>, withBlobs = true) {
+    return new MarmotClient({
+      groupStateBackend: new KeyValueGroupStateBackend(new MemoryBackend()),
+      keyPackageStore: new KeyPackageStore(new MemoryBackend()),
+      signer: account.signer,
+      network,
+      blobStore: withBlobs ? blobStore : undefined,
+    });
+  }
+
+  beforeEach(() => {
+    network = new MockNetwork();
+    blobStore = new MemoryBlobStore();
+  });
+
+  it("uploads the encrypted image and commits the keys", async () => {
+    const admin = PrivateKeyAccount.generateNew();
+    const client = createClient(admin);
+    const group = await client.createGroup("Image Test", {
+      relays: ["wss://mock-relay.test"],
+    });
+
+    expect(await group.getGroupImage()).toBeNull();
+
+    const epoch = group.state.groupContext.epoch;
+    await group.setGroupImage(image);
+
+    expect(group.state.groupContext.epoch).toBe(epoch + 1n);
+    expect(blobStore.size).toBe(1);
+    expect(hasGroupImage(group.groupData!)).toBe(true);
+    expect(await group.getGroupImage()).toEqual(image);
+
+    // Removing the image clears the keys
+    await group.setGroupImage(null);
+    expect(group.groupData!.imageHash).toBeNull();
+    expect(await group.getGroupImage()).toBeNull();
+  });
+
+  it("lets new members download and decrypt the image", async () => {
+    const admin = PrivateKeyAccount.generateNew();
+    const member = PrivateKeyAccount.generateNew();
+    const adminClient = createClient(admin);
+    const memberClient = createClient(member);
+
+    const group = await adminClient.createGroup("Image Test", {
+      relays: ["wss://mock-relay.test"],
+    });
+    await group.setGroupImage(image);
+
+    // Member publishes a key package and gets invited
+    const ciphersuiteImpl = await getCiphersuiteImpl(
+      "MLS_128_DHKEMX25519_AES128GCM_SHA256_Ed25519",
+      defaultCryptoProvider,
+    );
+    const keyPackage = await generateKeyPackage({
+      credential: createCredential(await member.signer.getPublicKey()),
+      ciphersuiteImpl,
+    });
+    await memberClient.keyPackageStore.add(keyPackage);
+    const keyPackageEvent: NostrEvent = await member.signer.signEvent(
+      createKeyPackageEvent({ keyPackage: keyPackage.publicPackage }),
+    );
+    await group.inviteByKeyPackageEvent(keyPackageEvent);
+
+    const giftWrap = network.events.find((e) => e.kind === 1059)!;
+    const welcomeRumor = await unlockGiftWrap(giftWrap, member.signer);
+    const memberGroup = await memberClient.joinGroupFromWelcome({
+      welcomeRumor,
+    });
+
+    expect(await memberGroup.getGroupImage()).toEqual(image);
+  });
+
+  it("throws when no blob store is configured", async () => {
+    const admin = PrivateKeyAccount.generateNew();
+    const client = createClient(admin, false);
+    const group = await client.createGroup("Image Test", {
+      relays: ["wss://mock-relay.test"],
+    });
+
+    await expect(group.setGroupImage(image)).rejects.toThrow(NoBlobStoreError);
+  });
+});
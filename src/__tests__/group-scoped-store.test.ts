@@ -0,0 +1,42 @@
+import { describe, expect, it, vi } from "vitest";
+
+import { GroupScopedStore } from "../store/group-scoped-store";
+import { MemoryKeyValueStore } from "../utils/key-value";
+
+describe("GroupScopedStore", () => {
+  const groupA = new Uint8Array([1]);
+  const groupB = new Uint8Array([2]);
+
+  it("lists and purges the items of one group", async () => {
+    const backend = new MemoryKeyValueStore<string>();
+    const store = new GroupScopedStore(backend);
+    await store.set(groupA, "1", "a1");
+    await store.set(groupA, "2", "a2");
+    await store.set(groupB, "1", "b1");
+
+    expect((await store.list(groupA)).sort()).toEqual(["a1", "a2"]);
+    expect(await store.get(groupB, "1")).toBe("b1");
+
+    await store.remove(groupA, "1");
+    expect(await store.list(groupA)).toEqual(["a2"]);
+
+    await store.purge(groupA);
+    expect(await store.list(groupA)).toEqual([]);
+    expect(await backend.keys()).toEqual(["02:1"]);
+  });
+
+  it("reads the backend keys only once", async () => {
+    const backend = new MemoryKeyValueStore<string>();
+    await backend.setItem("01:existing", "a0");
+    await backend.setItem("02:existing", "b0");
+    const keys = vi.spyOn(backend, "keys");
+
+    const store = new GroupScopedStore(backend);
+    expect(await store.list(groupA)).toEqual(["a0"]);
+    await store.set(groupB, "new", "b1");
+    expect((await store.list(groupB)).sort()).toEqual(["b0", "b1"]);
+    await store.purge(groupA);
+
+    expect(keys).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,234 @@
+import { PrivateKeyAccount } from "applesauce-accounts/accounts";
+import { Rumor, unlockGiftWrap } from "applesauce-common/helpers/gift-wrap";
+import type { Filter } from "applesauce-core/helpers/filter";
+import { getEventHash, type NostrEvent } from "nostr-tools";
+import { defaultCryptoProvider, getCiphersuiteImpl } from "ts-mls";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { MarmotGroup } from "../client/group/marmot-group";
+import { DEFAULT_SYNC_BACKFILL_MARGIN } from "../client/group-sync";
+import { MarmotClient } from "../client/marmot-client";
+import { Observer } from "../client/nostr-interface";
+import { getNostrGroupIdHex } from "../core/client-state";
+import { createCredential } from "../core/credential";
+import { deserializeApplicationData } from "../core/group-message";
+import { generateKeyPackage } from "../core/key-package";
+import { createKeyPackageEvent } from "../core/key-package-event";
+import { KeyValueGroupStateBackend } from "../store/adapters/key-value-group-state-backend";
+import { KeyPackageStore } from "../store/key-package-store";
+import { SyncCursor } from "../store/sync-cursor-store";
+import { MockNetwork } from "./helpers/mock-network";
+import { MemoryBackend } from "./ingest-commit-race.test";
+
+type Backends = {
+  state: MemoryBackend<any>;
+  cursors: MemoryBackend<SyncCursor>;
+};
+
+describe("MarmotClient.sync()", () => {
+  let network: MockNetwork;
+  let subscriptions: {
+    filters: Filter;
+    observer: Partial<Observer<any>>;
+    closed: boolean;
+  }[];
+
+  beforeEach(() => {
+    network = new MockNetwork();
+    subscriptions = [];
+
+    // Keep the observers so tests can deliver live events
+    vi.spyOn(network, "subscription").mockImplementation(
+      (_relays, filters) => ({
+        subscribe: (observer) => {
+          const sub = { filters: filters as Filter, observer, closed: false };
+          subscriptions.push(sub);
+          return { unsubscribe: () => (sub.closed = true) };
+        },
+      }),
+    );
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  function createBackends(): Backends {
+    return { state: new MemoryBackend(), cursors: new MemoryBackend() };
+  }
+
+  function createClient(account: PrivateKeyAccount<any>, backends: Backends) {
+    return new MarmotClient({
+      groupStateBackend: new KeyValueGroupStateBackend(backends.state),
+      keyPackageStore: new KeyPackageStore(new MemoryBackend()),
+      signer: account.signer,
+      network,
+      syncCursorBackend: backends.cursors,
+    });
+  }
+
+  function nostrId(group: MarmotGroup<any>) {
+    return getNostrGroupIdHex(group.state);
+  }
+
+  function openSubscriptions() {
+    return subscriptions.filter((sub) => !sub.closed);
+  }
+
+  function collectMessages(group: MarmotGroup<any>) {
+    const contents: string[] = [];
+    group.on("applicationMessage", (data) =>
+      contents.push(deserializeApplicationData(data).content),
+    );
+    return contents;
+  }
+
+  async function setup() {
+    const admin = PrivateKeyAccount.generateNew();
+    const member = PrivateKeyAccount.generateNew();
+    const adminPubkey = await admin.signer.getPublicKey();
+    const memberPubkey = await member.signer.getPublicKey();
+    const memberBackends = createBackends();
+    const memberClient = createClient(member, memberBackends);
+
+    const group = await createClient(admin, createBackends()).createGroup(
+      "Sync Test",
+      { relays: ["wss://mock-relay.test"] },
+    );
+
+    const ciphersuiteImpl = await getCiphersuiteImpl(
+      "MLS_128_DHKEMX25519_AES128GCM_SHA256_Ed25519",
+      defaultCryptoProvider,
+    );
+    const keyPackage = await generateKeyPackage({
+      credential: createCredential(memberPubkey),
+      ciphersuiteImpl,
+    });
+    await memberClient.keyPackageStore.add(keyPackage);
+    const keyPackageEvent: NostrEvent = await member.signer.signEvent(
+      createKeyPackageEvent({ keyPackage: keyPackage.publicPackage }),
+    );
+    await group.inviteByKeyPackageEvent(keyPackageEvent);
+
+    const giftWrap = network.events.find((e) => e.kind === 1059)!;
+    const welcomeRumor = await unlockGiftWrap(giftWrap, member.signer);
+    const memberGroup = await memberClient.joinGroupFromWelcome({
+      welcomeRumor,
+    });
+
+    /** Sends a chat message from the admin and returns the group event */
+    async function sendMessage(content: string) {
+      const rumor: Rumor = {
+        id: "",
+        kind: 9,
+        pubkey: adminPubkey,
+        created_at: Math.floor(Date.now() / 1000),
+        content,
+        tags: [],
+      };
+      rumor.id = getEventHash(rumor);
+      await group.sendApplicationRumor(rumor);
+      return network.events.at(-1)!;
+    }
+
+    return {
+      group,
+      member,
+      memberBackends,
+      memberClient,
+      memberGroup,
+      sendMessage,
+    };
+  }
+
+  it("backfills missed events and routes live events to their groups", async () => {
+    const { memberBackends, memberClient, memberGroup, sendMessage } =
+      await setup();
+    const messages = collectMessages(memberGroup);
+
+    await sendMessage("while offline");
+    const sync = await memberClient.sync();
+    await sync.idle();
+    expect(messages).toEqual(["while offline"]);
+    expect(openSubscriptions()).toHaveLength(1);
+
+    const live = await sendMessage("live");
+    live.created_at += 10;
+    openSubscriptions()[0].observer.next!(live);
+    await sync.idle();
+    expect(messages).toEqual(["while offline", "live"]);
+
+    expect(await memberBackends.cursors.getItem(memberGroup.idStr)).toEqual({
+      since: live.created_at,
+      updatedAt: expect.any(Number),
+    });
+    sync.stop();
+    expect(openSubscriptions()).toHaveLength(0);
+  });
+
+  it("backfills from the persisted cursors after a restart", async () => {
+    const { member, memberBackends, memberClient, memberGroup, sendMessage } =
+      await setup();
+
+    const sync = await memberClient.sync();
+    const seen = await sendMessage("seen");
+    seen.created_at += 100;
+    openSubscriptions()[0].observer.next!(seen);
+    await sync.idle();
+    sync.stop();
+
+    const request = vi.spyOn(network, "request");
+    const restarted = createClient(member, memberBackends);
+    await (await restarted.sync()).idle();
+    expect(request).toHaveBeenCalledWith(
+      ["wss://mock-relay.test"],
+      [
+        expect.objectContaining({
+          since: seen.created_at - DEFAULT_SYNC_BACKFILL_MARGIN,
+        }),
+      ],
+    );
+
+    // The restarted client got a new instance of the group
+    const reloaded = await restarted.getGroup(memberGroup.id);
+    expect(reloaded).not.toBe(memberGroup);
+  });
+
+  it("reconciles subscriptions as groups are created and destroyed", async () => {
+    const account = PrivateKeyAccount.generateNew();
+    const client = createClient(account, createBackends());
+    const sync = await client.sync();
+    expect(openSubscriptions()).toHaveLength(0);
+
+    const a = await client.createGroup("A", { relays: ["wss://a.test"] });
+    await sync.idle();
+    const request = vi.spyOn(network, "request");
+    const b = await client.createGroup("B", { relays: ["wss://a.test"] });
+    const c = await client.createGroup("C", { relays: ["wss://c.test"] });
+    await sync.idle();
+
+    // Only the groups that were added are backfilled
+    expect(request.mock.calls.map(([, filters]) => filters)).toEqual([
+      [expect.objectContaining({ "#h": [nostrId(b)] })],
+      [expect.objectContaining({ "#h": [nostrId(c)] })],
+    ]);
+
+    // Groups on the same relays share a subscription
+    expect(sync.relaySets).toEqual([["wss://a.test"], ["wss://c.test"]]);
+    expect(openSubscriptions().map((sub) => sub.filters["#h"])).toEqual([
+      [nostrId(a), nostrId(b)].sort(),
+      [nostrId(c)],
+    ]);
+
+    await client.destroyGroup(a.id);
+    await sync.idle();
+    expect(openSubscriptions().map((sub) => sub.filters["#h"])).toEqual([
+      [nostrId(c)],
+      [nostrId(b)],
+    ]);
+
+    await client.destroyGroup(c.id);
+    await sync.idle();
+    expect(sync.relaySets).toEqual([["wss://a.test"]]);
+  });
+});
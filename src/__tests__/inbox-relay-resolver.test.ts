@@ -0,0 +1,147 @@
+import { PrivateKeyAccount } from "applesauce-accounts/accounts";
+import type { NostrEvent } from "applesauce-core/helpers/event";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { InboxRelayResolver } from "../client/inbox-relay-resolver";
+import { MarmotClient } from "../client/marmot-client";
+import { createKeyPackageRelayListEvent } from "../core/key-package-relay-list";
+import { KEY_PACKAGE_RELAY_LIST_KIND } from "../core/protocol";
+import { KeyValueGroupStateBackend } from "../store/adapters/key-value-group-state-backend";
+import { KeyPackageStore } from "../store/key-package-store";
+import { MockNetwork } from "./helpers/mock-network";
+import { MemoryBackend } from "./ingest-commit-race.test";
+
+describe("InboxRelayResolver", () => {
+  let network: MockNetwork;
+  let account: PrivateKeyAccount<any>;
+  let pubkey: string;
+  let resolver: InboxRelayResolver;
+
+  beforeEach(async () => {
+    network = new MockNetwork();
+    account = PrivateKeyAccount.generateNew();
+    pubkey = await account.signer.getPublicKey();
+    resolver = new InboxRelayResolver(network, {
+      lookupRelays: ["wss://lookup.test"],
+    });
+  });
+
+  async function keyPackageRelayList(
+    relays: string[],
+    created_at: number,
+  ): Promise<NostrEvent> {
+    return await account.signer.signEvent({
+      ...createKeyPackageRelayListEvent({ pubkey, relays }),
+      created_at,
+    });
+  }
+
+  async function mailboxes(
+    tags: string[][],
+    created_at: number,
+  ): Promise<NostrEvent> {
+    return await account.signer.signEvent({
+      kind: 10002,
+      pubkey,
+      created_at,
+      tags,
+      content: "",
+    });
+  }
+
+  it("resolves the relays of the newest kind 10051 list", async () => {
+    network.events.push(
+      await keyPackageRelayList(["wss://old.test"], 100),
+      await keyPackageRelayList(["wss://inbox.test"], 200),
+      await mailboxes([["r", "wss://read.test"]], 300),
+    );
+
+    expect(await resolver.getUserInboxRelays(pubkey)).toEqual([
+      "wss://inbox.test/",
+    ]);
+  });
+
+  it("falls back to the NIP-65 read relays without a kind 10051 list", async () => {
+    network.events.push(
+      await mailboxes(
+        [
+          ["r", "wss://both.test"],
+          ["r", "wss://read.test", "read"],
+          ["r", "wss://write.test", "write"],
+        ],
+        100,
+      ),
+    );
+
+    expect(await resolver.getUserInboxRelays(pubkey)).toEqual([
+      "wss://both.test/",
+      "wss://read.test/",
+    ]);
+  });
+
+  it("caches resolved relays until they are older than maxAge", async () => {
+    network.events.push(await keyPackageRelayList(["wss://inbox.test"], 100));
+    const request = vi.spyOn(network, "request");
+
+    await Promise.all([
+      resolver.getUserInboxRelays(pubkey),
+      resolver.getUserInboxRelays(pubkey),
+    ]);
+    await resolver.getUserInboxRelays(pubkey);
+    expect(request).toHaveBeenCalledTimes(1);
+
+    const expired = new InboxRelayResolver(network, {
+      lookupRelays: ["wss://lookup.test"],
+      maxAge: 0,
+    });
+    await expired.getUserInboxRelays(pubkey);
+    await expired.getUserInboxRelays(pubkey);
+    expect(request).toHaveBeenCalledTimes(3);
+  });
+
+  it("only replaces cached lists with newer events", async () => {
+    network.events.push(await keyPackageRelayList(["wss://inbox.test"], 200));
+    await resolver.getUserInboxRelays(pubkey);
+
+    const changes: string[][] = [];
+    resolver.on("relaysChanged", (_pubkey, relays) => changes.push(relays));
+
+    expect(
+      resolver.add(await keyPackageRelayList(["wss://older.test"], 100)),
+    ).toBe(false);
+    expect(
+      resolver.add(await keyPackageRelayList(["wss://new.test"], 300)),
+    ).toBe(true);
+
+    expect(changes).toEqual([["wss://new.test/"]]);
+    expect(await resolver.getUserInboxRelays(pubkey)).toEqual([
+      "wss://new.test/",
+    ]);
+  });
+
+  it("publishes the client's relay list to the new, previous and lookup relays", async () => {
+    network.getUserInboxRelays = (pubkey) =>
+      resolver.getUserInboxRelays(pubkey);
+    network.events.push(await keyPackageRelayList(["wss://old.test"], 100));
+    const client = new MarmotClient({
+      groupStateBackend: new KeyValueGroupStateBackend(new MemoryBackend()),
+      keyPackageStore: new KeyPackageStore(new MemoryBackend()),
+      signer: account.signer,
+      network,
+      inboxRelayResolver: resolver,
+    });
+    const publish = vi.spyOn(network, "publish");
+
+    const event = await client.publishKeyPackageRelayList(["wss://new.test"]);
+
+    expect(event.kind).toBe(KEY_PACKAGE_RELAY_LIST_KIND);
+    expect(publish).toHaveBeenCalledWith(
+      ["wss://new.test/", "wss://old.test/", "wss://lookup.test"],
+      event,
+    );
+    expect(resolver.getCachedRelays(pubkey)).toEqual(["wss://new.test/"]);
+    expect(await network.getUserInboxRelays(pubkey)).toEqual([
+      "wss://new.test/",
+    ]);
+  });
+});
@@ -0,0 +1,136 @@
+import { PrivateKeyAccount } from "applesauce-accounts/accounts";
+import type { NostrEvent } from "nostr-tools";
+import { defaultCryptoProvider, getCiphersuiteImpl } from "ts-mls";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { GIFT_WRAP_LOOKBACK } from "../client/invite-inbox";
+import { MarmotClient } from "../client/marmot-client";
+import { createCredential } from "../core/credential";
+import { generateKeyPackage } from "../core/key-package";
+import { createKeyPackageEvent } from "../core/key-package-event";
+import { KeyValueGroupStateBackend } from "../store/adapters/key-value-group-state-backend";
+import {
+  InviteStore,
+  ReceivedGiftWrap,
+  UnreadInvite,
+} from "../store/invite-store";
+import { KeyPackageStore } from "../store/key-package-store";
+import { MockNetwork } from "./helpers/mock-network";
+import { MemoryBackend } from "./ingest-commit-race.test";
+
+describe("MarmotClient.invites", () => {
+  let network: MockNetwork;
+
+  beforeEach(() => {
+    network = new MockNetwork();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  function createInviteStore(): Required<InviteStore> {
+    return {
+      received: new MemoryBackend<ReceivedGiftWrap>(),
+      unread: new MemoryBackend<UnreadInvite>(),
+      seen: new MemoryBackend<boolean>(),
+      cursor: new MemoryBackend<number>(),
+    };
+  }
+
+  function createClient(
+    account: PrivateKeyAccount<any>,
+    inviteStore?: InviteStore,
+    keyPackageStore = new KeyPackageStore(new MemoryBackend()),
+  ) {
+    return new MarmotClient({
+      groupStateBackend: new KeyValueGroupStateBackend(new MemoryBackend()),
+      keyPackageStore,
+      signer: account.signer,
+      network,
+      inviteStore,
+    });
+  }
+
+  /** Invites the member to a new group and returns the group */
+  async function invite(client: MarmotClient, member: PrivateKeyAccount<any>) {
+    const memberPubkey = await member.signer.getPublicKey();
+    const group = await createClient(
+      PrivateKeyAccount.generateNew(),
+    ).createGroup("Invite Test", { relays: ["wss://mock-relay.test"] });
+
+    const keyPackage = await generateKeyPackage({
+      credential: createCredential(memberPubkey),
+      ciphersuiteImpl: await getCiphersuiteImpl(
+        "MLS_128_DHKEMX25519_AES128GCM_SHA256_Ed25519",
+        defaultCryptoProvider,
+      ),
+    });
+    await client.keyPackageStore.add(keyPackage);
+    const keyPackageEvent: NostrEvent = await member.signer.signEvent(
+      createKeyPackageEvent({ keyPackage: keyPackage.publicPackage }),
+    );
+    await group.inviteByKeyPackageEvent(keyPackageEvent);
+    return group;
+  }
+
+  it("receives invites from the inbox relays and accepts them", async () => {
+    const member = PrivateKeyAccount.generateNew();
+    const client = createClient(member, createInviteStore());
+    const group = await invite(client, member);
+
+    await client.invites.start();
+    expect(client.invites.relays).toEqual(["wss://mock-inbox.test"]);
+    expect(await client.invites.reader.getReceived()).toHaveLength(1);
+
+    const [unread] = await client.invites.decrypt();
+    const accepted = vi.fn();
+    client.invites.on("inviteAccepted", accepted);
+
+    const joined = await client.invites.accept(unread.id);
+    expect(joined.id).toEqual(group.id);
+    expect(client.groups).toContain(joined);
+    expect(accepted).toHaveBeenCalledWith(unread, joined);
+    expect(await client.invites.getUnread()).toEqual([]);
+
+    client.invites.stop();
+    expect(client.invites.running).toBe(false);
+  });
+
+  it("declines invites without joining the group", async () => {
+    const member = PrivateKeyAccount.generateNew();
+    const client = createClient(member);
+    await invite(client, member);
+
+    await client.invites.start();
+    const [unread] = await client.invites.decrypt();
+    await client.invites.decline(unread.id);
+
+    expect(client.groups).toEqual([]);
+    expect(await client.invites.getUnread()).toEqual([]);
+    await expect(client.invites.accept(unread.id)).rejects.toThrow("not found");
+  });
+
+  it("backfills from the persisted cursor and skips invites it has seen", async () => {
+    const member = PrivateKeyAccount.generateNew();
+    const inviteStore = createInviteStore();
+    const client = createClient(member, inviteStore);
+    await invite(client, member);
+
+    await client.invites.start();
+    client.invites.stop();
+    const pubkey = await member.signer.getPublicKey();
+    const cursor = (await inviteStore.cursor.getItem(pubkey))!;
+    expect(cursor).toBeGreaterThan(0);
+
+    const request = vi.spyOn(network, "request");
+    const restarted = createClient(member, inviteStore, client.keyPackageStore);
+    await restarted.invites.start();
+    expect(request).toHaveBeenCalledWith(["wss://mock-inbox.test"], {
+      kinds: [1059],
+      "#p": [pubkey],
+      since: cursor - GIFT_WRAP_LOOKBACK,
+    });
+    expect(await restarted.invites.reader.getReceived()).toHaveLength(1);
+  });
+});
@@ -0,0 +1,175 @@
+import { PrivateKeyAccount } from "applesauce-accounts/accounts";
+import { unlockGiftWrap } from "applesauce-common/helpers/gift-wrap";
+import type { NostrEvent } from "applesauce-core/helpers/event";
+import { defaultCryptoProvider, getCiphersuiteImpl } from "ts-mls";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { MarmotClient } from "../client/marmot-client";
+import { createCredential } from "../core/credential";
+import { getGroupMembers } from "../core/group-members";
+import { generateKeyPackage } from "../core/key-package";
+import { createKeyPackageEvent } from "../core/key-package-event";
+import { GROUP_EVENT_KIND } from "../core/protocol";
+import { KeyValueGroupStateBackend } from "../store/adapters/key-value-group-state-backend";
+import { KeyPackageStore } from "../store/key-package-store";
+import { MockNetwork } from "./helpers/mock-network";
+import { MemoryBackend } from "./ingest-commit-race.test";
+
+describe("MarmotGroup.inviteUsers", () => {
+  let network: MockNetwork;
+
+  beforeEach(() => {
+    network = new MockNetwork();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  function createClient(account: PrivateKeyAccount<any>) {
+    return new MarmotClient({
+      groupStateBackend: new KeyValueGroupStateBackend(new MemoryBackend()),
+      keyPackageStore: new KeyPackageStore(new MemoryBackend()),
+      signer: account.signer,
+      network,
+    });
+  }
+
+  /** Creates a user with a key package published on the network */
+  async function createUser() {
+    const account = PrivateKeyAccount.generateNew();
+    const pubkey = await account.signer.getPublicKey();
+    const client = createClient(account);
+    const keyPackage = await generateKeyPackage({
+      credential: createCredential(pubkey),
+      ciphersuiteImpl: await getCiphersuiteImpl(
+        "MLS_128_DHKEMX25519_AES128GCM_SHA256_Ed25519",
+        defaultCryptoProvider,
+      ),
+    });
+    await client.keyPackageStore.add(keyPackage);
+    network.events.push(
+      await account.signer.signEvent(
+        createKeyPackageEvent({ keyPackage: keyPackage.publicPackage }),
+      ),
+    );
+    return { account, pubkey, client };
+  }
+
+  /** Makes the relays reject the gift wraps sent to a user */
+  function rejectGiftWrapsTo(pubkey: string) {
+    const publish = network.publish.bind(network);
+    vi.spyOn(network, "publish").mockImplementation(
+      async (relays, event: NostrEvent) => {
+        if (event.kind === 1059 && event.tags.some((t) => t[1] === pubkey))
+          return Object.fromEntries(
+            relays.map((relay) => [
+              relay,
+              { from: relay, ok: false, message: "blocked" },
+            ]),
+          );
+        return await publish(relays, event);
+      },
+    );
+  }
+
+  it("adds every user with a valid key package in one commit and reports the rest", async () => {
+    const admin = PrivateKeyAccount.generateNew();
+    const adminPubkey = await admin.signer.getPublicKey();
+    const group = await createClient(admin).createGroup("Batch", {
+      relays: ["wss://mock-relay.test"],
+    });
+
+    const alice = await createUser();
+    const bob = await createUser();
+    const carol = await createUser();
+    const stranger =
+      await PrivateKeyAccount.generateNew().signer.getPublicKey();
+    rejectGiftWrapsTo(carol.pubkey);
+
+    const commitsBefore = network.events.filter(
+      (e) => e.kind === GROUP_EVENT_KIND,
+    ).length;
+    const results = await group.inviteUsers([
+      alice.pubkey,
+      stranger,
+      adminPubkey,
+      bob.pubkey,
+      carol.pubkey,
+      alice.pubkey,
+    ]);
+
+    expect(results.map((r) => [r.pubkey, r.status])).toEqual([
+      [alice.pubkey, "invited"],
+      [stranger, "noKeyPackage"],
+      [adminPubkey, "alreadyMember"],
+      [bob.pubkey, "invited"],
+      [carol.pubkey, "welcomeFailed"],
+    ]);
+    expect(results[4]).toMatchObject({
+      delivery: {
+        delivered: false,
+        error: "No relay acknowledged the Welcome",
+      },
+    });
+    expect(
+      network.events.filter((e) => e.kind === GROUP_EVENT_KIND).length,
+    ).toBe(commitsBefore + 1);
+    expect(getGroupMembers(group.state).sort()).toEqual(
+      [adminPubkey, alice.pubkey, bob.pubkey, carol.pubkey].sort(),
+    );
+
+    // The invited users can join with their Welcome
+    for (const user of [alice, bob]) {
+      const giftWrap = network.events.find(
+        (e) => e.kind === 1059 && e.tags.some((t) => t[1] === user.pubkey),
+      )!;
+      const joined = await user.client.joinGroupFromWelcome({
+        welcomeRumor: await unlockGiftWrap(giftWrap, user.account.signer),
+      });
+      expect(joined.state.groupContext.epoch).toBe(
+        group.state.groupContext.epoch,
+      );
+    }
+  });
+
+  it("reports users without a Welcome as welcomeFailed", async () => {
+    const admin = PrivateKeyAccount.generateNew();
+    const group = await createClient(admin).createGroup("No welcome", {
+      relays: ["wss://mock-relay.test"],
+    });
+    const alice = await createUser();
+
+    // Simulate a commit that produced no Welcome
+    const commitWithWelcomes = (group as any).commitWithWelcomes.bind(group);
+    vi.spyOn(group as any, "commitWithWelcomes").mockImplementation(
+      async (options: any) => ({
+        ...(await commitWithWelcomes(options)),
+        welcomes: [],
+      }),
+    );
+
+    expect(await group.inviteUsers([alice.pubkey])).toEqual([
+      expect.objectContaining({
+        pubkey: alice.pubkey,
+        status: "welcomeFailed",
+        delivery: expect.objectContaining({ delivered: false }),
+      }),
+    ]);
+  });
+
+  it("does not commit when nobody can be added", async () => {
+    const admin = PrivateKeyAccount.generateNew();
+    const group = await createClient(admin).createGroup("Empty batch", {
+      relays: ["wss://mock-relay.test"],
+    });
+    const epoch = group.state.groupContext.epoch;
+
+    const stranger =
+      await PrivateKeyAccount.generateNew().signer.getPublicKey();
+    expect(await group.inviteUsers([stranger])).toEqual([
+      expect.objectContaining({ pubkey: stranger, status: "noKeyPackage" }),
+    ]);
+    expect(group.state.groupContext.epoch).toBe(epoch);
+  });
+});
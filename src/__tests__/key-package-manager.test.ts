@@ -0,0 +1,136 @@
+import { bytesToHex } from "@noble/hashes/utils.js";
+import { PrivateKeyAccount } from "applesauce-accounts/accounts";
+import type { NostrEvent } from "nostr-tools";
+import { defaultCryptoProvider, getCiphersuiteImpl } from "ts-mls";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { NoRelayReceivedEventError } from "../client/errors";
+import { MarmotClient } from "../client/marmot-client";
+import { createCredential } from "../core/credential";
+import { hasLastResortExtension } from "../core/extensions";
+import { generateKeyPackage } from "../core/key-package";
+import { createKeyPackageEvent } from "../core/key-package-event";
+import { KEY_PACKAGE_KIND } from "../core/protocol";
+import { KeyValueGroupStateBackend } from "../store/adapters/key-value-group-state-backend";
+import { KeyPackageStore } from "../store/key-package-store";
+import { unixNow } from "../utils/nostr";
+import { MockNetwork } from "./helpers/mock-network";
+import { MemoryBackend } from "./ingest-commit-race.test";
+
+describe("KeyPackageManager", () => {
+  let network: MockNetwork;
+  let account: PrivateKeyAccount<any>;
+  let client: MarmotClient;
+
+  beforeEach(() => {
+    network = new MockNetwork();
+    account = PrivateKeyAccount.generateNew();
+    client = new MarmotClient({
+      groupStateBackend: new KeyValueGroupStateBackend(new MemoryBackend()),
+      keyPackageStore: new KeyPackageStore(new MemoryBackend()),
+      signer: account.signer,
+      network,
+      keyPackagePool: { size: 3 },
+    });
+  });
+
+  afterEach(() => {
+    client.keyPackages.stop();
+  });
+
+  function keyPackageEvents() {
+    return network.events.filter((e) => e.kind === KEY_PACKAGE_KIND);
+  }
+
+  function deletedIds() {
+    return network.events
+      .filter((e) => e.kind === 5)
+      .flatMap((e) => e.tags.filter((t) => t[0] === "e").map((t) => t[1]));
+  }
+
+  /** Publishes a key package that expires at the given time */
+  async function publishKeyPackage(notAfter: number, store = true) {
+    const keyPackage = await generateKeyPackage({
+      credential: createCredential(await account.signer.getPublicKey()),
+      lifetime: { notBefore: 0n, notAfter: BigInt(notAfter) },
+      ciphersuiteImpl: await getCiphersuiteImpl(
+        "MLS_128_DHKEMX25519_AES128GCM_SHA256_Ed25519",
+        defaultCryptoProvider,
+      ),
+    });
+    if (store) await client.keyPackageStore.add(keyPackage);
+    const event: NostrEvent = await account.signer.signEvent(
+      createKeyPackageEvent({ keyPackage: keyPackage.publicPackage }),
+    );
+    await network.publish(["wss://mock-inbox.test"], event);
+    return { keyPackage, event };
+  }
+
+  it("publishes a pool of key packages with one last resort package", async () => {
+    const report = await client.keyPackages.start();
+    expect(report.published).toHaveLength(3);
+    expect(keyPackageEvents()).toHaveLength(3);
+
+    const stored = await client.keyPackageStore.list();
+    expect(stored).toHaveLength(3);
+    expect(
+      stored.filter((p) => hasLastResortExtension(p.publicPackage.extensions)),
+    ).toHaveLength(1);
+
+    // A healthy pool is left alone
+    expect(await client.keyPackages.replenish()).toEqual({
+      published: [],
+      deleted: [],
+      removed: [],
+    });
+  });
+
+  it("republishes key packages that disappeared from the relays", async () => {
+    await client.keyPackages.replenish();
+    network.clear();
+
+    const report = await client.keyPackages.replenish();
+    expect(report.published).toHaveLength(3);
+    expect(await client.keyPackageStore.count()).toBe(3);
+  });
+
+  it("replaces key packages close to the end of their lifetime", async () => {
+    const expiring = await publishKeyPackage(unixNow() + 60);
+    const expired = await publishKeyPackage(unixNow() - 60);
+
+    const report = await client.keyPackages.replenish();
+    expect(report.deleted.sort()).toEqual(
+      [expiring.event.id, expired.event.id].sort(),
+    );
+    expect(deletedIds().sort()).toEqual(report.deleted);
+    expect(report.removed).toHaveLength(1);
+    expect(report.published).toHaveLength(3);
+
+    // The expiring key package stays usable for Welcomes already on their way
+    const refs = (await client.keyPackageStore.list()).map((p) =>
+      bytesToHex(p.keyPackageRef),
+    );
+    expect(refs).toHaveLength(4);
+    expect(refs).not.toContain(bytesToHex(report.removed[0]));
+  });
+
+  it("deletes published key packages whose private key is gone", async () => {
+    const { event } = await publishKeyPackage(unixNow() + 90 * 86400, false);
+
+    const report = await client.keyPackages.replenish();
+    expect(report.deleted).toEqual([event.id]);
+  });
+
+  it("fails instead of reporting key packages no relay acknowledged", async () => {
+    vi.spyOn(network, "publish").mockResolvedValueOnce({});
+
+    await expect(client.keyPackages.replenish()).rejects.toThrow(
+      NoRelayReceivedEventError,
+    );
+    expect(keyPackageEvents()).toHaveLength(2);
+
+    const report = await client.keyPackages.replenish();
+    expect(report.published).toHaveLength(1);
+    expect(keyPackageEvents()).toHaveLength(3);
+  });
+});
@@ -0,0 +1,163 @@
+import { PrivateKeyAccount } from "applesauce-accounts/accounts";
+import type { NostrEvent } from "applesauce-core/helpers/event";
+import { defaultCryptoProvider, getCiphersuiteImpl } from "ts-mls";
+import { ciphersuites } from "ts-mls/crypto/ciphersuite.js";
+import { beforeEach, describe, expect, it } from "vitest";
+
+import { discoverKeyPackage } from "../client/key-package-discovery";
+import { MarmotClient } from "../client/marmot-client";
+import { createCredential } from "../core/credential";
+import { generateKeyPackage } from "../core/key-package";
+import { createKeyPackageEvent } from "../core/key-package-event";
+import { KeyPackageValidator } from "../core/key-package-validator";
+import { KeyValueGroupStateBackend } from "../store/adapters/key-value-group-state-backend";
+import { KeyPackageStore } from "../store/key-package-store";
+import { MockNetwork } from "./helpers/mock-network";
+import { MemoryBackend } from "./ingest-commit-race.test";
+
+describe("KeyPackageValidator", () => {
+  const validator = new KeyPackageValidator();
+  let account: PrivateKeyAccount<any>;
+  let pubkey: string;
+
+  beforeEach(async () => {
+    account = PrivateKeyAccount.generateNew();
+    pubkey = await account.signer.getPublicKey();
+  });
+
+  async function createEvent(
+    options: {
+      owner?: string;
+      lastResort?: boolean;
+      lifetime?: { notBefore: bigint; notAfter: bigint };
+      created_at?: number;
+    } = {},
+  ): Promise<NostrEvent> {
+    const ciphersuiteImpl = await getCiphersuiteImpl(
+      "MLS_128_DHKEMX25519_AES128GCM_SHA256_Ed25519",
+      defaultCryptoProvider,
+    );
+    const keyPackage = await generateKeyPackage({
+      credential: createCredential(options.owner ?? pubkey),
+      lastResort: options.lastResort,
+      lifetime: options.lifetime,
+      ciphersuiteImpl,
+    });
+    const template = createKeyPackageEvent({
+      keyPackage: keyPackage.publicPackage,
+    });
+    return await account.signer.signEvent({
+      ...template,
+      created_at: options.created_at ?? template.created_at,
+    });
+  }
+
+  const group = {
+    cipherSuite: ciphersuites.MLS_128_DHKEMX25519_AES128GCM_SHA256_Ed25519,
+    extensions: [{ extensionType: 0xf2ee }],
+  };
+
+  it("accepts a key package that matches the group", async () => {
+    const report = await validator.validate(await createEvent(), group);
+    expect(report).toMatchObject({ valid: true, failures: [] });
+    expect(report.keyPackage).toBeDefined();
+  });
+
+  it("reports every check that failed", async () => {
+    const event = await createEvent({
+      owner: PrivateKeyAccount.generateNew().pubkey,
+      lifetime: { notBefore: 0n, notAfter: 1n },
+    });
+    const report = await validator.validate(event, {
+      cipherSuite: ciphersuites.MLS_256_DHKEMP521_AES256GCM_SHA512_P521,
+      extensions: [{ extensionType: 0xf2f0 }],
+    });
+
+    expect(report.valid).toBe(false);
+    expect(report.failures.map((f) => f.check).sort()).toEqual([
+      "ciphersuite",
+      "credential",
+      "extensions",
+      "lifetime",
+    ]);
+    expect(report.failures).toContainEqual({
+      check: "extensions",
+      reason: "Key package does not support extensions 0xf2f0",
+    });
+  });
+
+  it("rejects events with a broken signature or the wrong kind", async () => {
+    const event = await createEvent();
+
+    // Copy through JSON so the cached verification result is dropped, like an event from a relay
+    const tampered = JSON.parse(
+      JSON.stringify({ ...event, tags: [...event.tags, ["t", "x"]] }),
+    );
+    expect((await validator.validate(tampered)).failures).toEqual([
+      { check: "signature", reason: "Invalid event signature" },
+    ]);
+
+    expect(await validator.validate({ ...event, kind: 1 })).toEqual({
+      valid: false,
+      failures: [{ check: "kind", reason: "Expected kind 443, got 1" }],
+    });
+  });
+
+  it("discovers the newest valid single-use key package", async () => {
+    const network = new MockNetwork();
+    const now = Math.floor(Date.now() / 1000);
+    const lastResort = await createEvent({ created_at: now });
+    const older = await createEvent({
+      lastResort: false,
+      created_at: now - 20,
+    });
+    const newer = await createEvent({
+      lastResort: false,
+      created_at: now - 10,
+    });
+    const expired = await createEvent({
+      lastResort: false,
+      created_at: now,
+      lifetime: { notBefore: 0n, notAfter: 1n },
+    });
+    network.events.push(lastResort, older, newer, expired);
+
+    const discovery = await discoverKeyPackage(network, pubkey, { group });
+    expect(discovery.relays).toEqual(["wss://mock-inbox.test"]);
+    expect(discovery.candidates).toHaveLength(4);
+    expect(discovery.selected?.event).toBe(newer);
+
+    // The last resort key package is used when nothing else is left
+    network.events = [lastResort, expired];
+    expect(
+      (await discoverKeyPackage(network, pubkey, { group })).selected?.event,
+    ).toBe(lastResort);
+  });
+
+  it("refuses to invite with an invalid key package", async () => {
+    const network = new MockNetwork();
+    const admin = PrivateKeyAccount.generateNew();
+    const client = new MarmotClient({
+      groupStateBackend: new KeyValueGroupStateBackend(new MemoryBackend()),
+      keyPackageStore: new KeyPackageStore(new MemoryBackend()),
+      signer: admin.signer,
+      network,
+    });
+    const group = await client.createGroup("Validation", {
+      relays: ["wss://mock-relay.test"],
+    });
+
+    const expired = await createEvent({
+      lifetime: { notBefore: 0n, notAfter: 1n },
+    });
+    await expect(group.inviteByKeyPackageEvent(expired)).rejects.toThrow(
+      "Key package expired at 1",
+    );
+
+    network.events.push(await createEvent());
+    const { selected } = await group.findKeyPackage(pubkey);
+    expect(selected).toBeDefined();
+    await group.inviteByKeyPackageEvent(selected!.event);
+    expect(network.events.some((e) => e.kind === 1059)).toBe(true);
+  });
+});
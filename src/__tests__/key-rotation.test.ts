@@ -0,0 +1,288 @@
+import { bytesToHex } from "@noble/hashes/utils.js";
+import { PrivateKeyAccount } from "applesauce-accounts/accounts";
+import { Rumor, unlockGiftWrap } from "applesauce-common/helpers/gift-wrap";
+import { getEventHash, type NostrEvent } from "nostr-tools";
+import {
+  defaultCryptoProvider,
+  getCiphersuiteImpl,
+  getOwnLeafNode,
+} from "ts-mls";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { MarmotGroup } from "../client/group/marmot-group";
+import { proposeUpdateMetadata } from "../client/group/proposals/update-metadata";
+import { isKeyRotationDue, KeyRotationRecord } from "../client/key-rotation";
+import { MarmotClient } from "../client/marmot-client";
+import { SerializedClientState } from "../core/client-state";
+import { createCredential } from "../core/credential";
+import { generateKeyPackage } from "../core/key-package";
+import { createKeyPackageEvent } from "../core/key-package-event";
+import { GROUP_EVENT_KIND } from "../core/protocol";
+import { KeyValueGroupStateBackend } from "../store/adapters/key-value-group-state-backend";
+import { KeyPackageStore } from "../store/key-package-store";
+import { unixNow } from "../utils/nostr";
+import { MockNetwork } from "./helpers/mock-network";
+import { MemoryBackend } from "./ingest-commit-race.test";
+
+describe("isKeyRotationDue", () => {
+  const record: KeyRotationRecord = { epoch: 2, updatedAt: 1000 };
+
+  it("is due once enough epochs have passed", () => {
+    expect(isKeyRotationDue({ maxEpochs: 3 }, record, 4n, 1000)).toBe(false);
+    expect(isKeyRotationDue({ maxEpochs: 3 }, record, 5n, 1000)).toBe(true);
+  });
+
+  it("is due once enough time has passed", () => {
+    expect(isKeyRotationDue({ maxAge: 60 }, record, 2n, 1059)).toBe(false);
+    expect(isKeyRotationDue({ maxAge: 60 }, record, 2n, 1060)).toBe(true);
+  });
+
+  it("ignores non-positive limits", () => {
+    expect(
+      isKeyRotationDue({ maxEpochs: 0, maxAge: 0 }, record, 10n, 5000),
+    ).toBe(false);
+  });
+
+  it("does not count the epochs of other members' self-updates", () => {
+    const skipped = { ...record, skippedEpochs: 1 };
+    expect(isKeyRotationDue({ maxEpochs: 3 }, skipped, 5n, 1000)).toBe(false);
+    expect(isKeyRotationDue({ maxEpochs: 3 }, skipped, 6n, 1000)).toBe(true);
+  });
+});
+
+/** Creates a key package event for an account and stores its private part in the client */
+async function createKeyPackage(
+  account: PrivateKeyAccount<any>,
+  client: MarmotClient,
+): Promise<NostrEvent> {
+  const keyPackage = await generateKeyPackage({
+    credential: createCredential(await account.signer.getPublicKey()),
+    ciphersuiteImpl: await getCiphersuiteImpl(
+      "MLS_128_DHKEMX25519_AES128GCM_SHA256_Ed25519",
+      defaultCryptoProvider,
+    ),
+  });
+  await client.keyPackageStore.add(keyPackage);
+  return await account.signer.signEvent(
+    createKeyPackageEvent({ keyPackage: keyPackage.publicPackage }),
+  );
+}
+
+describe("MarmotGroup.selfUpdate", () => {
+  let network: MockNetwork;
+
+  beforeEach(() => {
+    network = new MockNetwork();
+  });
+
+  function createClient(account: PrivateKeyAccount<any>) {
+    return new MarmotClient({
+      groupStateBackend: new KeyValueGroupStateBackend(new MemoryBackend()),
+      keyPackageStore: new KeyPackageStore(new MemoryBackend()),
+      signer: account.signer,
+      network,
+    });
+  }
+
+  async function ingestAll(group: MarmotGroup<any>) {
+    const events = await network.request(group.relays!, {
+      kinds: [GROUP_EVENT_KIND],
+    });
+    for await (const _ of group.ingest(events)) {
+      // drain
+    }
+  }
+
+  it("lets a non-admin member rotate its leaf keys", async () => {
+    const admin = PrivateKeyAccount.generateNew();
+    const member = PrivateKeyAccount.generateNew();
+    const adminClient = createClient(admin);
+    const memberClient = createClient(member);
+
+    const group = await adminClient.createGroup("Rotation Test", {
+      relays: ["wss://mock-relay.test"],
+    });
+
+    await group.inviteByKeyPackageEvent(
+      await createKeyPackage(member, memberClient),
+    );
+
+    const giftWrap = network.events.find((e) => e.kind === 1059)!;
+    const welcomeRumor = await unlockGiftWrap(giftWrap, member.signer);
+    const memberGroup = await memberClient.joinGroupFromWelcome({
+      welcomeRumor,
+    });
+
+    const epoch = memberGroup.state.groupContext.epoch;
+    const oldLeaf = getOwnLeafNode(memberGroup.state);
+
+    await memberGroup.selfUpdate();
+
+    const newLeaf = getOwnLeafNode(memberGroup.state);
+    expect(memberGroup.state.groupContext.epoch).toBe(epoch + 1n);
+    expect(bytesToHex(newLeaf.hpkePublicKey)).not.toBe(
+      bytesToHex(oldLeaf.hpkePublicKey),
+    );
+    expect(bytesToHex(newLeaf.signaturePublicKey)).not.toBe(
+      bytesToHex(oldLeaf.signaturePublicKey),
+    );
+
+    // The admin accepts the self-update commit from a non-admin member
+    await ingestAll(group);
+    expect(group.state.groupContext.epoch).toBe(epoch + 1n);
+
+    // Messages signed with the new signature key are accepted
+    const received: Rumor[] = [];
+    group.on("applicationRumor", ({ rumor }) => received.push(rumor));
+    const rumor: Rumor = {
+      id: "",
+      kind: 9,
+      pubkey: await member.signer.getPublicKey(),
+      created_at: unixNow(),
+      content: "signed with the new key",
+      tags: [],
+    };
+    rumor.id = getEventHash(rumor);
+    await memberGroup.sendApplicationRumor(rumor);
+    await ingestAll(group);
+    expect(received.map((r) => r.content)).toEqual([rumor.content]);
+  });
+});
+
+describe("MarmotClient key rotation policy", () => {
+  let network: MockNetwork;
+  let stateBackend: MemoryBackend<SerializedClientState>;
+
+  beforeEach(() => {
+    network = new MockNetwork();
+    stateBackend = new MemoryBackend();
+  });
+
+  it("sends a self-update once the epoch limit is reached", async () => {
+    const admin = PrivateKeyAccount.generateNew();
+    const client = new MarmotClient({
+      groupStateBackend: new KeyValueGroupStateBackend(stateBackend),
+      keyPackageStore: new KeyPackageStore(new MemoryBackend()),
+      signer: admin.signer,
+      network,
+      keyRotationPolicy: { maxEpochs: 2 },
+    });
+
+    const group = await client.createGroup("Rotation Test", {
+      relays: ["wss://mock-relay.test"],
+    });
+    const epoch = group.state.groupContext.epoch;
+
+    await group.commit({
+      extraProposals: [proposeUpdateMetadata({ name: "One" })],
+    });
+    expect(await client.rotateKeysIfDue(group)).toBe(false);
+
+    await group.commit({
+      extraProposals: [proposeUpdateMetadata({ name: "Two" })],
+    });
+    await client.rotateKeysIfDue(group);
+
+    // Two commits plus the policy driven self-update
+    expect(group.state.groupContext.epoch).toBe(epoch + 3n);
+    expect(await client.rotateKeysIfDue(group)).toBe(false);
+  });
+
+  it("rotates stale groups when they are loaded", async () => {
+    const admin = PrivateKeyAccount.generateNew();
+    const creator = new MarmotClient({
+      groupStateBackend: new KeyValueGroupStateBackend(stateBackend),
+      keyPackageStore: new KeyPackageStore(new MemoryBackend()),
+      signer: admin.signer,
+      network,
+    });
+    const created = await creator.createGroup("Rotation Test", {
+      relays: ["wss://mock-relay.test"],
+    });
+    const epoch = created.state.groupContext.epoch;
+
+    // Pretend the keys were last rotated a day ago
+    const keyRotationBackend = new MemoryBackend<KeyRotationRecord>();
+    await keyRotationBackend.setItem(created.idStr, {
+      epoch: Number(epoch),
+      updatedAt: unixNow() - 24 * 60 * 60,
+    });
+
+    const client = new MarmotClient({
+      groupStateBackend: new KeyValueGroupStateBackend(stateBackend),
+      keyPackageStore: new KeyPackageStore(new MemoryBackend()),
+      signer: admin.signer,
+      network,
+      keyRotationPolicy: () => ({ maxAge: 60 * 60 }),
+      keyRotationBackend,
+      autoCommitPolicy: { rules: [], debounce: 0, jitter: 0 },
+    });
+
+    const group = await client.getGroup(created.id);
+    await vi.waitFor(() =>
+      expect(group.state.groupContext.epoch).toBe(epoch + 1n),
+    );
+    expect(await client.rotateKeysIfDue(group)).toBe(false);
+
+    expect((await keyRotationBackend.getItem(group.idStr))?.epoch).toBe(
+      Number(epoch + 1n),
+    );
+  });
+
+  it("does not rotate in response to other members' self-updates", async () => {
+    const admin = PrivateKeyAccount.generateNew();
+    const member = PrivateKeyAccount.generateNew();
+    const adminClient = new MarmotClient({
+      groupStateBackend: new KeyValueGroupStateBackend(stateBackend),
+      keyPackageStore: new KeyPackageStore(new MemoryBackend()),
+      signer: admin.signer,
+      network,
+    });
+    const memberClient = new MarmotClient({
+      groupStateBackend: new KeyValueGroupStateBackend(new MemoryBackend()),
+      keyPackageStore: new KeyPackageStore(new MemoryBackend()),
+      signer: member.signer,
+      network,
+      keyRotationPolicy: { maxEpochs: 1 },
+      autoCommitPolicy: { rules: [], debounce: 0, jitter: 0 },
+    });
+
+    const group = await adminClient.createGroup("Rotation Test", {
+      relays: ["wss://mock-relay.test"],
+    });
+    await group.inviteByKeyPackageEvent(
+      await createKeyPackage(member, memberClient),
+    );
+    const giftWrap = network.events.find((e) => e.kind === 1059)!;
+    const memberGroup = await memberClient.joinGroupFromWelcome({
+      welcomeRumor: await unlockGiftWrap(giftWrap, member.signer),
+    });
+    expect(await memberClient.rotateKeysIfDue(memberGroup)).toBe(false);
+    const epoch = memberGroup.state.groupContext.epoch;
+
+    const ingest = async (target: MarmotGroup<any>) => {
+      const events = await network.request(target.relays!, {
+        kinds: [GROUP_EVENT_KIND],
+      });
+      for await (const _ of target.ingest(events)) {
+        // drain
+      }
+    };
+
+    // The admin's self-update is not counted
+    await group.selfUpdate();
+    await ingest(memberGroup);
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(memberGroup.state.groupContext.epoch).toBe(epoch + 1n);
+
+    // Other commits are, and the rotation is sent by the scheduled check
+    await ingest(group);
+    await group.commit({
+      extraProposals: [proposeUpdateMetadata({ name: "Renamed" })],
+    });
+    await ingest(memberGroup);
+    await vi.waitFor(() =>
+      expect(memberGroup.state.groupContext.epoch).toBe(epoch + 3n),
+    );
+  });
+});
@@ -0,0 +1,123 @@
+import { PrivateKeyAccount } from "applesauce-accounts/accounts";
+import { unlockGiftWrap } from "applesauce-common/helpers/gift-wrap";
+import type { NostrEvent } from "nostr-tools";
+import { defaultCryptoProvider, getCiphersuiteImpl } from "ts-mls";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { MarmotGroup } from "../client/group/marmot-group";
+import { MarmotClient } from "../client/marmot-client";
+import { createCredential } from "../core/credential";
+import { getGroupMembers } from "../core/group-members";
+import { deserializeApplicationData } from "../core/group-message";
+import { generateKeyPackage } from "../core/key-package";
+import { createKeyPackageEvent } from "../core/key-package-event";
+import { GROUP_EVENT_KIND } from "../core/protocol";
+import { KeyValueGroupStateBackend } from "../store/adapters/key-value-group-state-backend";
+import { KeyPackageStore } from "../store/key-package-store";
+import { MockNetwork } from "./helpers/mock-network";
+import { MemoryBackend } from "./ingest-commit-race.test";
+
+describe("MarmotGroup.leave", () => {
+  let network: MockNetwork;
+
+  beforeEach(() => {
+    network = new MockNetwork();
+  });
+
+  function createClient(account: PrivateKeyAccount<any>) {
+    return new MarmotClient({
+      groupStateBackend: new KeyValueGroupStateBackend(new MemoryBackend()),
+      keyPackageStore: new KeyPackageStore(new MemoryBackend()),
+      signer: account.signer,
+      network,
+      // Commit leaves right away instead of after a random delay
+      autoCommitPolicy: { rules: [], debounce: 0, jitter: 0 },
+    });
+  }
+
+  async function ingestAll(group: MarmotGroup<any>) {
+    const events = await network.request(group.relays!, {
+      kinds: [GROUP_EVENT_KIND],
+    });
+    const messages: string[] = [];
+    for await (const result of group.ingest(events)) {
+      if (result.kind === "applicationMessage")
+        messages.push(deserializeApplicationData(result.message).content);
+    }
+    return messages;
+  }
+
+  async function setup() {
+    const admin = PrivateKeyAccount.generateNew();
+    const member = PrivateKeyAccount.generateNew();
+    const adminClient = createClient(admin);
+    const memberClient = createClient(member);
+    const memberPubkey = await member.signer.getPublicKey();
+
+    const group = await adminClient.createGroup("Leave Test", {
+      relays: ["wss://mock-relay.test"],
+    });
+
+    const ciphersuiteImpl = await getCiphersuiteImpl(
+      "MLS_128_DHKEMX25519_AES128GCM_SHA256_Ed25519",
+      defaultCryptoProvider,
+    );
+    const keyPackage = await generateKeyPackage({
+      credential: createCredential(memberPubkey),
+      ciphersuiteImpl,
+    });
+    await memberClient.keyPackageStore.add(keyPackage);
+    const keyPackageEvent: NostrEvent = await member.signer.signEvent(
+      createKeyPackageEvent({ keyPackage: keyPackage.publicPackage }),
+    );
+    await group.inviteByKeyPackageEvent(keyPackageEvent);
+
+    const giftWrap = network.events.find((e) => e.kind === 1059)!;
+    const welcomeRumor = await unlockGiftWrap(giftWrap, member.signer);
+    const memberGroup = await memberClient.joinGroupFromWelcome({
+      welcomeRumor,
+    });
+
+    return { group, memberGroup, memberClient, memberPubkey };
+  }
+
+  it("removes the member once an admin commits the leave", async () => {
+    const { group, memberGroup, memberClient, memberPubkey } = await setup();
+
+    await memberGroup.leave({ message: "goodbye!" });
+
+    // The admin receives the goodbye and auto-commits the removal after the delay
+    const epoch = group.state.groupContext.epoch;
+    expect(await ingestAll(group)).toEqual(["goodbye!"]);
+    expect(group.state.groupContext.epoch).toBe(epoch);
+    await vi.waitFor(() =>
+      expect(group.state.groupContext.epoch).toBe(epoch + 1n),
+    );
+    expect(getGroupMembers(group.state)).not.toContain(memberPubkey);
+
+    // The leaving member sees the commit and tidies up locally
+    let left = false;
+    memberGroup.on("left", () => (left = true));
+    await ingestAll(memberGroup);
+
+    expect(left).toBe(true);
+    expect(await memberClient.groupStateStore.has(memberGroup.id)).toBe(false);
+    expect(memberClient.groups).not.toContain(memberGroup);
+  });
+
+  it("leaves the proposal pending when auto commit is disabled", async () => {
+    const { group, memberGroup, memberPubkey } = await setup();
+    group.autoCommitLeaves = false;
+
+    await memberGroup.leave();
+
+    const epoch = group.state.groupContext.epoch;
+    await ingestAll(group);
+    expect(group.state.groupContext.epoch).toBe(epoch);
+    expect(Object.keys(group.unappliedProposals)).toHaveLength(1);
+
+    // Committing the pending proposal by reference removes the member
+    await group.commit({ proposalRefs: Object.keys(group.unappliedProposals) });
+    expect(getGroupMembers(group.state)).not.toContain(memberPubkey);
+  });
+});
@@ -0,0 +1,309 @@
+import { sha256 } from "@noble/hashes/sha2.js";
+import { bytesToHex } from "@noble/hashes/utils.js";
+import { PrivateKeyAccount } from "applesauce-accounts/accounts";
+import { Rumor, unlockGiftWrap } from "applesauce-common/helpers/gift-wrap";
+import type { Filter } from "applesauce-core/helpers/filter";
+import { getEventHash, type NostrEvent } from "nostr-tools";
+import { defaultCryptoProvider, getCiphersuiteImpl } from "ts-mls";
+import { beforeEach, describe, expect, it } from "vitest";
+
+import { MediaKeyUnavailableError } from "../client/errors";
+import { MarmotGroup } from "../client/group/marmot-group";
+import {
+  GroupRumorHistory,
+  GroupRumorHistoryBackend,
+} from "../client/group/group-rumor-history";
+import { proposeUpdateMetadata } from "../client/group/proposals/update-metadata";
+import { MarmotClient } from "../client/marmot-client";
+import { createCredential } from "../core/credential";
+import { generateKeyPackage } from "../core/key-package";
+import { createKeyPackageEvent } from "../core/key-package-event";
+import {
+  createMediaImetaTag,
+  decryptMedia,
+  encryptMedia,
+  getMediaAttachments,
+  MediaAttachment,
+  parseMediaImetaTag,
+} from "../core/media";
+import { GROUP_EVENT_KIND } from "../core/protocol";
+import { KeyValueGroupStateBackend } from "../store/adapters/key-value-group-state-backend";
+import { MemoryBlobStore } from "../store/blob-store";
+import { KeyPackageStore } from "../store/key-package-store";
+import { SerializedClientState } from "../core/client-state";
+import { MockNetwork } from "./helpers/mock-network";
+import { MemoryBackend } from "./ingest-commit-race.test";
+
+const file = new TextEncoder().encode("a very small picture of a cat");
+const metadata = { mimeType: "image/png", filename: "cat.png" };
+
+class MemoryRumorBackend implements GroupRumorHistoryBackend {
+  rumors: Rumor[] = [];
+
+  async queryRumors(_filter: Filter): Promise<Rumor[]> {
+    return [...this.rumors].reverse();
+  }
+  async addRumor(rumor: Rumor): Promise<void> {
+    this.rumors.push(rumor);
+  }
+  async clear(): Promise<void> {
+    this.rumors = [];
+  }
+}
+
+describe("media encryption", () => {
+  const secret = new Uint8Array(32).fill(7);
+
+  it("round-trips a file through encrypt and decrypt", () => {
+    const encrypted = encryptMedia(file, secret, metadata);
+    const attachment: MediaAttachment = {
+      url: "memory:test",
+      sha256: bytesToHex(sha256(encrypted.data)),
+      ...encrypted,
+      ...metadata,
+      epoch: 1n,
+    };
+
+    expect(decryptMedia(encrypted.data, secret, attachment)).toEqual(file);
+  });
+
+  it("rejects data that does not match the attachment hash", () => {
+    const encrypted = encryptMedia(file, secret, metadata);
+    const attachment: MediaAttachment = {
+      url: "memory:test",
+      sha256: "00".repeat(32),
+      ...encrypted,
+      ...metadata,
+      epoch: 1n,
+    };
+
+    expect(() => decryptMedia(encrypted.data, secret, attachment)).toThrow(
+      "does not match attachment hash",
+    );
+  });
+
+  it("round-trips attachments through imeta tags", () => {
+    const attachment: MediaAttachment = {
+      url: "https://blossom.example/abc",
+      sha256: "ab".repeat(32),
+      originalSha256: "cd".repeat(32),
+      nonce: "ef".repeat(12),
+      mimeType: "image/png",
+      filename: "cat.png",
+      epoch: 3n,
+      size: 42,
+    };
+
+    expect(parseMediaImetaTag(createMediaImetaTag(attachment))).toEqual(
+      attachment,
+    );
+    expect(parseMediaImetaTag(["imeta", "url https://example.com"])).toBe(
+      undefined,
+    );
+  });
+});
+
+describe("MarmotGroup media attachments", () => {
+  let network: MockNetwork;
+  let blobStore: MemoryBlobStore;
+
+  beforeEach(() => {
+    network = new MockNetwork();
+    blobStore = new MemoryBlobStore();
+  });
+
+  async function joinMember(
+    group: MarmotGroup<any>,
+    member: PrivateKeyAccount<any>,
+    client: MarmotClient<any>,
+  ) {
+    const ciphersuiteImpl = await getCiphersuiteImpl(
+      "MLS_128_DHKEMX25519_AES128GCM_SHA256_Ed25519",
+      defaultCryptoProvider,
+    );
+    const keyPackage = await generateKeyPackage({
+      credential: createCredential(await member.signer.getPublicKey()),
+      ciphersuiteImpl,
+    });
+    await client.keyPackageStore.add(keyPackage);
+    const keyPackageEvent: NostrEvent = await member.signer.signEvent(
+      createKeyPackageEvent({ keyPackage: keyPackage.publicPackage }),
+    );
+    await group.inviteByKeyPackageEvent(keyPackageEvent);
+
+    const giftWrap = network.events.find((e) => e.kind === 1059)!;
+    const welcomeRumor = await unlockGiftWrap(giftWrap, member.signer);
+    return await client.joinGroupFromWelcome({ welcomeRumor });
+  }
+
+  async function ingestAll(group: MarmotGroup<any>) {
+    const events = await network.request(group.relays!, {
+      kinds: [GROUP_EVENT_KIND],
+    });
+    for await (const _ of group.ingest(events)) {
+      // drain
+    }
+  }
+
+  async function sendAttachment(group: MarmotGroup<any>, pubkey: string) {
+    const attachment = await group.uploadAttachment(file, metadata);
+    const rumor: Rumor = {
+      id: "",
+      kind: 9,
+      pubkey,
+      created_at: Math.floor(Date.now() / 1000),
+      content: "look at this cat",
+      tags: [],
+    };
+    rumor.id = getEventHash(rumor);
+    await group.sendApplicationRumor(rumor, { attachments: [attachment] });
+    return attachment;
+  }
+
+  it("decrypts attachments from history after the epoch advances", async () => {
+    const admin = PrivateKeyAccount.generateNew();
+    const member = PrivateKeyAccount.generateNew();
+    const adminPubkey = await admin.signer.getPublicKey();
+
+    const rumorBackend = new MemoryRumorBackend();
+    const memberStateBackend = new MemoryBackend<SerializedClientState>();
+    const mediaKeyBackend = new MemoryBackend<Uint8Array>();
+    const createMemberClient = () =>
+      new MarmotClient({
+        groupStateBackend: new KeyValueGroupStateBackend(memberStateBackend),
+        keyPackageStore: new KeyPackageStore(new MemoryBackend()),
+        signer: member.signer,
+        network,
+        blobStore,
+        mediaKeyBackend,
+        historyFactory: GroupRumorHistory.makeFactory(() => rumorBackend),
+      });
+
+    const adminClient = new MarmotClient({
+      groupStateBackend: new KeyValueGroupStateBackend(new MemoryBackend()),
+      keyPackageStore: new KeyPackageStore(new MemoryBackend()),
+      signer: admin.signer,
+      network,
+      blobStore,
+    });
+    const group = await adminClient.createGroup("Media Test", {
+      relays: ["wss://mock-relay.test"],
+    });
+    const memberGroup = await joinMember(group, member, createMemberClient());
+
+    const attachment = await sendAttachment(group, adminPubkey);
+    expect(blobStore.size).toBe(1);
+
+    // Member receives the rumor into its history
+    await ingestAll(memberGroup);
+    expect(rumorBackend.rumors).toHaveLength(1);
+    const [received] = rumorBackend.rumors;
+    expect(getMediaAttachments(received)).toEqual([attachment]);
+    expect(received.id).toBe(getEventHash(received));
+
+    // Admin moves the group to the next epoch
+    await group.commit({
+      extraProposals: [proposeUpdateMetadata({ name: "Renamed" })],
+    });
+    await ingestAll(memberGroup);
+    expect(memberGroup.state.groupContext.epoch).toBe(attachment.epoch + 1n);
+
+    // A freshly loaded group can still decrypt the attachment from history
+    const reloaded = await createMemberClient().getGroup(memberGroup.id);
+    const [rumor] = await reloaded.history.queryRumors({});
+    const [download] = await reloaded.downloadAttachments(rumor);
+    expect(download.data).toEqual(file);
+  });
+
+  it("throws when the secret for a past epoch was not retained", async () => {
+    const admin = PrivateKeyAccount.generateNew();
+    const stateBackend = new MemoryBackend<SerializedClientState>();
+    const createClient = () =>
+      new MarmotClient({
+        groupStateBackend: new KeyValueGroupStateBackend(stateBackend),
+        keyPackageStore: new KeyPackageStore(new MemoryBackend()),
+        signer: admin.signer,
+        network,
+        blobStore,
+      });
+
+    const group = await createClient().createGroup("Media Test", {
+      relays: ["wss://mock-relay.test"],
+    });
+    const attachment = await sendAttachment(
+      group,
+      await admin.signer.getPublicKey(),
+    );
+    await group.commit({
+      extraProposals: [proposeUpdateMetadata({ name: "Renamed" })],
+    });
+
+    const reloaded = await createClient().getGroup(group.id);
+    await expect(reloaded.downloadAttachment(attachment)).rejects.toThrow(
+      MediaKeyUnavailableError,
+    );
+  });
+
+  it("removes stored media secrets once they leave the retention window", async () => {
+    const admin = PrivateKeyAccount.generateNew();
+    const mediaKeyBackend = new MemoryBackend<Uint8Array>();
+    const group = await new MarmotClient({
+      groupStateBackend: new KeyValueGroupStateBackend(new MemoryBackend()),
+      keyPackageStore: new KeyPackageStore(new MemoryBackend()),
+      signer: admin.signer,
+      network,
+      blobStore,
+      mediaKeyBackend,
+      mediaKeyRetention: 1,
+    }).createGroup("Media Test", { relays: ["wss://mock-relay.test"] });
+    const attachment = await sendAttachment(
+      group,
+      await admin.signer.getPublicKey(),
+    );
+
+    await group.commit({
+      extraProposals: [proposeUpdateMetadata({ name: "Renamed" })],
+    });
+    const [key] = await mediaKeyBackend.keys();
+    const secret = (await mediaKeyBackend.getItem(key))!;
+    expect(await group.downloadAttachment(attachment)).toEqual(file);
+
+    await group.commit({
+      extraProposals: [proposeUpdateMetadata({ name: "Renamed again" })],
+    });
+    expect(await mediaKeyBackend.keys()).not.toContain(key);
+    expect(secret.every((byte) => byte === 0)).toBe(true);
+    await expect(group.downloadAttachment(attachment)).rejects.toThrow(
+      MediaKeyUnavailableError,
+    );
+  });
+
+  it("keeps the media secrets of past epochs only inside the retention window", async () => {
+    const admin = PrivateKeyAccount.generateNew();
+    const group = await new MarmotClient({
+      groupStateBackend: new KeyValueGroupStateBackend(new MemoryBackend()),
+      keyPackageStore: new KeyPackageStore(new MemoryBackend()),
+      signer: admin.signer,
+      network,
+      blobStore,
+      epochRetention: 1,
+    }).createGroup("Media Test", { relays: ["wss://mock-relay.test"] });
+    const attachment = await sendAttachment(
+      group,
+      await admin.signer.getPublicKey(),
+    );
+
+    // The previous epoch is still inside the retention window
+    await group.commit({
+      extraProposals: [proposeUpdateMetadata({ name: "Renamed" })],
+    });
+    expect(await group.downloadAttachment(attachment)).toEqual(file);
+
+    await group.commit({
+      extraProposals: [proposeUpdateMetadata({ name: "Renamed again" })],
+    });
+    await expect(group.downloadAttachment(attachment)).rejects.toThrow(
+      MediaKeyUnavailableError,
+    );
+  });
+});
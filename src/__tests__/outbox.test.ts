@@ -0,0 +1,193 @@
+import { PrivateKeyAccount } from "applesauce-accounts/accounts";
+import { Rumor, unlockGiftWrap } from "applesauce-common/helpers/gift-wrap";
+import { getEventHash, type NostrEvent } from "nostr-tools";
+import { defaultCryptoProvider, getCiphersuiteImpl } from "ts-mls";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { MarmotGroup } from "../client/group/marmot-group";
+import { MarmotClient } from "../client/marmot-client";
+import { createCredential } from "../core/credential";
+import { generateKeyPackage } from "../core/key-package";
+import { createKeyPackageEvent } from "../core/key-package-event";
+import { GROUP_EVENT_KIND } from "../core/protocol";
+import { KeyValueGroupStateBackend } from "../store/adapters/key-value-group-state-backend";
+import { KeyPackageStore } from "../store/key-package-store";
+import { OutboxMessage } from "../store/outbox-store";
+import { MockNetwork } from "./helpers/mock-network";
+import { MemoryBackend } from "./ingest-commit-race.test";
+
+describe("MarmotGroup outbox", () => {
+  let network: MockNetwork;
+
+  beforeEach(() => {
+    network = new MockNetwork();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  function createClient(
+    account: PrivateKeyAccount<any>,
+    backends?: { state: MemoryBackend; outbox: MemoryBackend<OutboxMessage> },
+  ) {
+    return new MarmotClient({
+      groupStateBackend: new KeyValueGroupStateBackend(
+        backends?.state ?? new MemoryBackend(),
+      ),
+      keyPackageStore: new KeyPackageStore(new MemoryBackend()),
+      signer: account.signer,
+      network,
+      outboxBackend: backends?.outbox,
+    });
+  }
+
+  /** Makes the relays reject the next publish */
+  function failNextPublish() {
+    vi.spyOn(network, "publish").mockImplementationOnce(async (relays) =>
+      Object.fromEntries(
+        relays.map((relay) => [
+          relay,
+          { from: relay, ok: false, message: "offline" },
+        ]),
+      ),
+    );
+  }
+
+  async function readMessages(group: MarmotGroup<any>) {
+    const events = await network.request(group.relays!, {
+      kinds: [GROUP_EVENT_KIND],
+    });
+    const contents: string[] = [];
+    for await (const change of group.ingestChanges(events)) {
+      if (change.type === "applicationRumor")
+        contents.push(change.rumor.content);
+    }
+    return contents;
+  }
+
+  async function setup() {
+    const admin = PrivateKeyAccount.generateNew();
+    const member = PrivateKeyAccount.generateNew();
+    const adminPubkey = await admin.signer.getPublicKey();
+    const memberPubkey = await member.signer.getPublicKey();
+    const adminBackends = {
+      state: new MemoryBackend(),
+      outbox: new MemoryBackend<OutboxMessage>(),
+    };
+    const memberClient = createClient(member);
+
+    const group = await createClient(admin, adminBackends).createGroup(
+      "Outbox Test",
+      { relays: ["wss://mock-relay.test"] },
+    );
+
+    const ciphersuiteImpl = await getCiphersuiteImpl(
+      "MLS_128_DHKEMX25519_AES128GCM_SHA256_Ed25519",
+      defaultCryptoProvider,
+    );
+    const keyPackage = await generateKeyPackage({
+      credential: createCredential(memberPubkey),
+      ciphersuiteImpl,
+    });
+    await memberClient.keyPackageStore.add(keyPackage);
+    const keyPackageEvent: NostrEvent = await member.signer.signEvent(
+      createKeyPackageEvent({ keyPackage: keyPackage.publicPackage }),
+    );
+    await group.inviteByKeyPackageEvent(keyPackageEvent);
+
+    const giftWrap = network.events.find((e) => e.kind === 1059)!;
+    const welcomeRumor = await unlockGiftWrap(giftWrap, member.signer);
+    const memberGroup = await memberClient.joinGroupFromWelcome({
+      welcomeRumor,
+    });
+
+    /** Sends a chat message from the admin */
+    async function sendMessage(from: MarmotGroup<any>, content: string) {
+      const rumor: Rumor = {
+        id: "",
+        kind: 9,
+        pubkey: adminPubkey,
+        created_at: Math.floor(Date.now() / 1000),
+        content,
+        tags: [],
+      };
+      rumor.id = getEventHash(rumor);
+      return await from.sendApplicationRumor(rumor);
+    }
+
+    return { admin, adminBackends, group, memberGroup, sendMessage };
+  }
+
+  it("queues messages no relay acknowledged and publishes the same event later", async () => {
+    const { group, memberGroup, sendMessage } = await setup();
+
+    failNextPublish();
+    await sendMessage(group, "first");
+    expect(group.outbox).toEqual([
+      expect.objectContaining({
+        status: "queued",
+        attempts: 1,
+        error: expect.stringContaining("No relay received"),
+      }),
+    ]);
+    const queued = group.outbox[0].event;
+
+    // A new message uses the next ratchet generation
+    await sendMessage(group, "second");
+
+    const statuses: string[] = [];
+    group.on("outboxMessage", (m) => statuses.push(m.status));
+    await group.flushOutbox();
+    expect(statuses).toEqual(["sent"]);
+    expect(group.outbox).toEqual([]);
+    expect(network.events.filter((e) => e.id === queued.id)).toHaveLength(1);
+
+    expect((await readMessages(memberGroup)).sort()).toEqual([
+      "first",
+      "second",
+    ]);
+  });
+
+  it("marks messages as failed after the last attempt and retries them on request", async () => {
+    const { group, memberGroup, sendMessage } = await setup();
+
+    for (let i = 0; i < group.maxOutboxAttempts; i++) failNextPublish();
+    await sendMessage(group, "stubborn");
+    for (let i = 1; i < group.maxOutboxAttempts; i++) await group.flushOutbox();
+
+    const [failed] = group.outbox;
+    expect(failed).toMatchObject({
+      status: "failed",
+      attempts: group.maxOutboxAttempts,
+    });
+
+    await group.retryOutboxMessage(failed.event.id);
+    expect(group.outbox).toEqual([]);
+    expect(await readMessages(memberGroup)).toEqual(["stubborn"]);
+  });
+
+  it("keeps queued messages and the ratchet state across restarts", async () => {
+    const { admin, adminBackends, group, memberGroup, sendMessage } =
+      await setup();
+
+    failNextPublish();
+    await sendMessage(group, "before restart");
+    expect(await adminBackends.outbox.keys()).toHaveLength(1);
+
+    // Loading the group publishes the queued message again
+    const reloaded = await createClient(admin, adminBackends).getGroup(
+      group.id,
+    );
+    await new Promise<void>((resolve) =>
+      reloaded.once("outboxMessage", () => resolve()),
+    );
+    expect(await adminBackends.outbox.keys()).toHaveLength(0);
+
+    await sendMessage(reloaded, "after restart");
+    expect((await readMessages(memberGroup)).sort()).toEqual([
+      "after restart",
+      "before restart",
+    ]);
+  });
+});
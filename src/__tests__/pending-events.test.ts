@@ -0,0 +1,182 @@
+import { PrivateKeyAccount } from "applesauce-accounts/accounts";
+import { Rumor, unlockGiftWrap } from "applesauce-common/helpers/gift-wrap";
+import { getEventHash, type NostrEvent } from "nostr-tools";
+import { defaultCryptoProvider, getCiphersuiteImpl } from "ts-mls";
+import { beforeEach, describe, expect, it } from "vitest";
+
+import { MarmotGroupChange } from "../client/group/group-changes";
+import { MarmotGroup } from "../client/group/marmot-group";
+import { proposeUpdateMetadata } from "../client/group/proposals/update-metadata";
+import { MarmotClient } from "../client/marmot-client";
+import { createCredential } from "../core/credential";
+import { generateKeyPackage } from "../core/key-package";
+import { createKeyPackageEvent } from "../core/key-package-event";
+import { GROUP_EVENT_KIND } from "../core/protocol";
+import { KeyValueGroupStateBackend } from "../store/adapters/key-value-group-state-backend";
+import { KeyPackageStore } from "../store/key-package-store";
+import { PendingGroupEvent } from "../store/pending-event-store";
+import { MockNetwork } from "./helpers/mock-network";
+import { MemoryBackend } from "./ingest-commit-race.test";
+
+describe("MarmotGroup pending events", () => {
+  let network: MockNetwork;
+
+  beforeEach(() => {
+    network = new MockNetwork();
+  });
+
+  function createClient(
+    account: PrivateKeyAccount<any>,
+    backends?: {
+      state: MemoryBackend;
+      pending: MemoryBackend<PendingGroupEvent>;
+    },
+  ) {
+    return new MarmotClient({
+      groupStateBackend: new KeyValueGroupStateBackend(
+        backends?.state ?? new MemoryBackend(),
+      ),
+      keyPackageStore: new KeyPackageStore(new MemoryBackend()),
+      signer: account.signer,
+      network,
+      pendingEventBackend: backends?.pending,
+    });
+  }
+
+  /** Returns the group events published since the given count */
+  function groupEventsSince(count: number) {
+    return network.events
+      .filter((e) => e.kind === GROUP_EVENT_KIND)
+      .slice(count);
+  }
+
+  function countGroupEvents() {
+    return network.events.filter((e) => e.kind === GROUP_EVENT_KIND).length;
+  }
+
+  async function ingestChanges(group: MarmotGroup<any>, events: NostrEvent[]) {
+    const changes: MarmotGroupChange[] = [];
+    for await (const change of group.ingestChanges(events)) {
+      changes.push(change);
+    }
+    return changes;
+  }
+
+  async function setup() {
+    const admin = PrivateKeyAccount.generateNew();
+    const member = PrivateKeyAccount.generateNew();
+    const adminPubkey = await admin.signer.getPublicKey();
+    const memberPubkey = await member.signer.getPublicKey();
+    const memberBackends = {
+      state: new MemoryBackend(),
+      pending: new MemoryBackend<PendingGroupEvent>(),
+    };
+    const memberClient = createClient(member, memberBackends);
+
+    const group = await createClient(admin).createGroup("Pending Test", {
+      relays: ["wss://mock-relay.test"],
+    });
+
+    const ciphersuiteImpl = await getCiphersuiteImpl(
+      "MLS_128_DHKEMX25519_AES128GCM_SHA256_Ed25519",
+      defaultCryptoProvider,
+    );
+    const keyPackage = await generateKeyPackage({
+      credential: createCredential(memberPubkey),
+      ciphersuiteImpl,
+    });
+    await memberClient.keyPackageStore.add(keyPackage);
+    const keyPackageEvent: NostrEvent = await member.signer.signEvent(
+      createKeyPackageEvent({ keyPackage: keyPackage.publicPackage }),
+    );
+    await group.inviteByKeyPackageEvent(keyPackageEvent);
+
+    const giftWrap = network.events.find((e) => e.kind === 1059)!;
+    const welcomeRumor = await unlockGiftWrap(giftWrap, member.signer);
+    const memberGroup = await memberClient.joinGroupFromWelcome({
+      welcomeRumor,
+    });
+
+    /** Sends a chat message from the admin in its current epoch */
+    async function sendMessage(content: string) {
+      const rumor: Rumor = {
+        id: "",
+        kind: 9,
+        pubkey: adminPubkey,
+        created_at: Math.floor(Date.now() / 1000),
+        content,
+        tags: [],
+      };
+      rumor.id = getEventHash(rumor);
+      await group.sendApplicationRumor(rumor);
+    }
+
+    return { member, group, memberGroup, memberBackends, sendMessage };
+  }
+
+  it("parks events from a future epoch and replays them when it arrives", async () => {
+    const { group, memberGroup, sendMessage } = await setup();
+    const start = countGroupEvents();
+
+    await group.selfUpdate();
+    await sendMessage("from the future");
+    const [commit, message] = groupEventsSince(start);
+
+    // The message arrives before the commit that moves to its epoch
+    expect(await ingestChanges(memberGroup, [message])).toEqual([]);
+    expect(memberGroup.pendingEvents.map((p) => p.event.id)).toEqual([
+      message.id,
+    ]);
+
+    const changes = await ingestChanges(memberGroup, [commit]);
+    expect(changes.map((c) => c.type)).toEqual([
+      "epochAdvanced",
+      "applicationRumor",
+    ]);
+    expect(memberGroup.pendingEvents).toEqual([]);
+  });
+
+  it("keeps pending events across restarts", async () => {
+    const { member, group, memberGroup, memberBackends, sendMessage } =
+      await setup();
+    const start = countGroupEvents();
+
+    await group.selfUpdate();
+    await sendMessage("after restart");
+    const [commit, message] = groupEventsSince(start);
+    await ingestChanges(memberGroup, [message]);
+    expect(await memberBackends.pending.keys()).toHaveLength(1);
+
+    const reloaded = await createClient(member, memberBackends).getGroup(
+      memberGroup.id,
+    );
+    const changes = await ingestChanges(reloaded, [commit]);
+    expect(changes).toContainEqual(
+      expect.objectContaining({
+        type: "applicationRumor",
+        rumor: expect.objectContaining({ content: "after restart" }),
+      }),
+    );
+    expect(await memberBackends.pending.keys()).toHaveLength(0);
+  });
+
+  it("drops events that can never be read with a reason", async () => {
+    const { group, memberGroup } = await setup();
+    const start = countGroupEvents();
+
+    // A proposal from the previous epoch can no longer be applied
+    await memberGroup.propose(proposeUpdateMetadata({ name: "Too late" }));
+    const [proposal] = groupEventsSince(start);
+    await group.selfUpdate();
+
+    const changes = await ingestChanges(group, [proposal]);
+    expect(changes).toEqual([
+      {
+        type: "eventDropped",
+        event: proposal,
+        reason: expect.stringContaining("former epoch"),
+      },
+    ]);
+    expect(group.pendingEvents).toEqual([]);
+  });
+});
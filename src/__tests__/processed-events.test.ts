@@ -0,0 +1,168 @@
+import { PrivateKeyAccount } from "applesauce-accounts/accounts";
+import { Rumor, unlockGiftWrap } from "applesauce-common/helpers/gift-wrap";
+import { getEventHash, type NostrEvent } from "nostr-tools";
+import { defaultCryptoProvider, getCiphersuiteImpl } from "ts-mls";
+import { beforeEach, describe, expect, it } from "vitest";
+
+import { IngestResult, MarmotGroup } from "../client/group/marmot-group";
+import { MarmotClient } from "../client/marmot-client";
+import { createCredential } from "../core/credential";
+import { generateKeyPackage } from "../core/key-package";
+import { createKeyPackageEvent } from "../core/key-package-event";
+import { GROUP_EVENT_KIND } from "../core/protocol";
+import { KeyValueGroupStateBackend } from "../store/adapters/key-value-group-state-backend";
+import { KeyPackageStore } from "../store/key-package-store";
+import { ProcessedEventRecord } from "../store/processed-event-store";
+import { MockNetwork } from "./helpers/mock-network";
+import { MemoryBackend } from "./ingest-commit-race.test";
+
+describe("MarmotGroup processed event log", () => {
+  let network: MockNetwork;
+
+  beforeEach(() => {
+    network = new MockNetwork();
+  });
+
+  function createClient(
+    account: PrivateKeyAccount<any>,
+    backends?: {
+      state: MemoryBackend;
+      processed: MemoryBackend<ProcessedEventRecord>;
+    },
+  ) {
+    return new MarmotClient({
+      groupStateBackend: new KeyValueGroupStateBackend(
+        backends?.state ?? new MemoryBackend(),
+      ),
+      keyPackageStore: new KeyPackageStore(new MemoryBackend()),
+      signer: account.signer,
+      network,
+      processedEventBackend: backends?.processed,
+    });
+  }
+
+  /** Ingests events and returns the counts from the ingest generator */
+  async function ingest(
+    group: MarmotGroup<any>,
+    events: NostrEvent[],
+  ): Promise<IngestResult> {
+    const iterator = group.ingest(events);
+    let next = await iterator.next();
+    while (!next.done) next = await iterator.next();
+    return next.value;
+  }
+
+  async function setup() {
+    const admin = PrivateKeyAccount.generateNew();
+    const member = PrivateKeyAccount.generateNew();
+    const adminPubkey = await admin.signer.getPublicKey();
+    const memberPubkey = await member.signer.getPublicKey();
+    const memberBackends = {
+      state: new MemoryBackend(),
+      processed: new MemoryBackend<ProcessedEventRecord>(),
+    };
+    const memberClient = createClient(member, memberBackends);
+
+    const group = await createClient(admin).createGroup("Processed Test", {
+      relays: ["wss://mock-relay.test"],
+    });
+
+    const ciphersuiteImpl = await getCiphersuiteImpl(
+      "MLS_128_DHKEMX25519_AES128GCM_SHA256_Ed25519",
+      defaultCryptoProvider,
+    );
+    const keyPackage = await generateKeyPackage({
+      credential: createCredential(memberPubkey),
+      ciphersuiteImpl,
+    });
+    await memberClient.keyPackageStore.add(keyPackage);
+    const keyPackageEvent: NostrEvent = await member.signer.signEvent(
+      createKeyPackageEvent({ keyPackage: keyPackage.publicPackage }),
+    );
+    await group.inviteByKeyPackageEvent(keyPackageEvent);
+
+    const giftWrap = network.events.find((e) => e.kind === 1059)!;
+    const welcomeRumor = await unlockGiftWrap(giftWrap, member.signer);
+    const memberGroup = await memberClient.joinGroupFromWelcome({
+      welcomeRumor,
+    });
+
+    /** Sends a chat message from the admin in its current epoch */
+    async function sendMessage(content: string) {
+      const rumor: Rumor = {
+        id: "",
+        kind: 9,
+        pubkey: adminPubkey,
+        created_at: Math.floor(Date.now() / 1000),
+        content,
+        tags: [],
+      };
+      rumor.id = getEventHash(rumor);
+      await group.sendApplicationRumor(rumor);
+    }
+
+    return { member, group, memberGroup, memberBackends, sendMessage };
+  }
+
+  it("classifies events and skips them when they are ingested again", async () => {
+    const { group, memberGroup, sendMessage } = await setup();
+    const start = network.events.filter(
+      (e) => e.kind === GROUP_EVENT_KIND,
+    ).length;
+
+    await group.selfUpdate();
+    await sendMessage("hello");
+    const [commit, message] = network.events
+      .filter((e) => e.kind === GROUP_EVENT_KIND)
+      .slice(start);
+
+    expect(await ingest(memberGroup, [message])).toEqual({
+      processed: 0,
+      skipped: 0,
+      failed: 0,
+      pending: 1,
+    });
+    expect(await ingest(memberGroup, [commit, message])).toEqual({
+      processed: 2,
+      skipped: 0,
+      failed: 0,
+      pending: 0,
+    });
+
+    // Feeding the same backlog again doesn't deliver the message twice
+    const messages: Uint8Array[] = [];
+    memberGroup.on("applicationMessage", (m) => messages.push(m));
+    expect(await ingest(memberGroup, [commit, message, message])).toEqual({
+      processed: 0,
+      skipped: 2,
+      failed: 0,
+      pending: 0,
+    });
+    expect(messages).toHaveLength(0);
+
+    // The admin already knows its own events
+    expect(await ingest(group, [commit, message])).toMatchObject({
+      processed: 0,
+      skipped: 2,
+    });
+  });
+
+  it("remembers handled events across restarts", async () => {
+    const { member, group, memberGroup, memberBackends, sendMessage } =
+      await setup();
+
+    await sendMessage("hello");
+    const events = await network.request(group.relays!, {
+      kinds: [GROUP_EVENT_KIND],
+    });
+    expect(await ingest(memberGroup, events)).toMatchObject({ processed: 1 });
+
+    const reloaded = await createClient(member, memberBackends).getGroup(
+      memberGroup.id,
+    );
+    expect(await ingest(reloaded, events)).toMatchObject({
+      processed: 0,
+      skipped: 1,
+    });
+  });
+});
@@ -0,0 +1,178 @@
+import { PrivateKeyAccount } from "applesauce-accounts/accounts";
+import { unlockGiftWrap } from "applesauce-common/helpers/gift-wrap";
+import type { NostrEvent } from "nostr-tools";
+import {
+  defaultCryptoProvider,
+  defaultProposalTypes,
+  getCiphersuiteImpl,
+  makeCustomExtension,
+} from "ts-mls";
+import { beforeEach, describe, expect, it } from "vitest";
+
+import { MarmotGroup } from "../client/group/marmot-group";
+import { PendingProposal } from "../client/group/proposal-inbox";
+import { proposePromoteAdmin } from "../client/group/proposals/admins";
+import { proposeUpdateMetadata } from "../client/group/proposals/update-metadata";
+import { MarmotClient } from "../client/marmot-client";
+import { createCredential } from "../core/credential";
+import { generateKeyPackage } from "../core/key-package";
+import { createKeyPackageEvent } from "../core/key-package-event";
+import {
+  GROUP_EVENT_KIND,
+  MARMOT_GROUP_DATA_EXTENSION_TYPE,
+} from "../core/protocol";
+import { KeyValueGroupStateBackend } from "../store/adapters/key-value-group-state-backend";
+import { KeyPackageStore } from "../store/key-package-store";
+import { MockNetwork } from "./helpers/mock-network";
+import { MemoryBackend } from "./ingest-commit-race.test";
+
+describe("ProposalInbox", () => {
+  let network: MockNetwork;
+
+  beforeEach(() => {
+    network = new MockNetwork();
+  });
+
+  function createClient(account: PrivateKeyAccount<any>) {
+    return new MarmotClient({
+      groupStateBackend: new KeyValueGroupStateBackend(new MemoryBackend()),
+      keyPackageStore: new KeyPackageStore(new MemoryBackend()),
+      signer: account.signer,
+      network,
+    });
+  }
+
+  async function ingestAll(group: MarmotGroup<any>) {
+    const events = await network.request(group.relays!, {
+      kinds: [GROUP_EVENT_KIND],
+    });
+    for await (const _ of group.ingest(events)) {
+      // drain
+    }
+  }
+
+  /** Sends a proposal and reads it back so the sender's ratchet moves on */
+  async function propose(
+    group: MarmotGroup<any>,
+    action: Parameters<MarmotGroup<any>["propose"]>[0],
+  ) {
+    await group.propose(action);
+    await ingestAll(group);
+  }
+
+  async function setup() {
+    const admin = PrivateKeyAccount.generateNew();
+    const member = PrivateKeyAccount.generateNew();
+    const adminPubkey = await admin.signer.getPublicKey();
+    const memberPubkey = await member.signer.getPublicKey();
+    const memberClient = createClient(member);
+
+    const group = await createClient(admin).createGroup("Inbox Test", {
+      relays: ["wss://mock-relay.test"],
+    });
+    group.autoCommitLeaves = false;
+
+    const ciphersuiteImpl = await getCiphersuiteImpl(
+      "MLS_128_DHKEMX25519_AES128GCM_SHA256_Ed25519",
+      defaultCryptoProvider,
+    );
+    const keyPackage = await generateKeyPackage({
+      credential: createCredential(memberPubkey),
+      ciphersuiteImpl,
+    });
+    await memberClient.keyPackageStore.add(keyPackage);
+    const keyPackageEvent: NostrEvent = await member.signer.signEvent(
+      createKeyPackageEvent({ keyPackage: keyPackage.publicPackage }),
+    );
+    await group.inviteByKeyPackageEvent(keyPackageEvent);
+
+    const giftWrap = network.events.find((e) => e.kind === 1059)!;
+    const welcomeRumor = await unlockGiftWrap(giftWrap, member.signer);
+    const memberGroup = await memberClient.joinGroupFromWelcome({
+      welcomeRumor,
+    });
+
+    return { group, memberGroup, adminPubkey, memberPubkey };
+  }
+
+  it("lists pending proposals with their sender and type", async () => {
+    const { group, memberGroup, adminPubkey, memberPubkey } = await setup();
+
+    await propose(memberGroup, proposeUpdateMetadata({ name: "Renamed" }));
+    await propose(memberGroup, proposePromoteAdmin(memberPubkey));
+    await memberGroup.leave();
+
+    const changes: PendingProposal[][] = [];
+    group.inbox.on("changed", (proposals) => changes.push(proposals));
+    await ingestAll(group);
+
+    expect(changes.length).toBeGreaterThan(0);
+    const proposals = group.inbox.proposals;
+    expect(proposals).toHaveLength(3);
+    for (const proposal of proposals) {
+      expect(proposal.sender).toBe(memberPubkey);
+      expect(proposal.epoch).toBe(group.state.groupContext.epoch);
+    }
+
+    const metadata = proposals.find((p) => p.type === "metadata")!;
+    expect(metadata.changes).toEqual({ name: "Renamed" });
+    expect(metadata.summary).toBe("Update name");
+
+    const leave = proposals.find((p) => p.type === "leave")!;
+    expect(leave.member).toBe(memberPubkey);
+    expect(group.inbox.get(leave.ref)).toEqual(leave);
+
+    // Admin changes are reported as their own type
+    const admin = proposals.find((p) => p.type === "admin")!;
+    expect(admin.changes?.adminPubkeys).toEqual([adminPubkey, memberPubkey]);
+  });
+
+  it("describes proposals with unreadable group data as other", async () => {
+    const { group, memberGroup } = await setup();
+
+    await propose(memberGroup, async () => ({
+      proposalType: defaultProposalTypes.group_context_extensions,
+      groupContextExtensions: {
+        extensions: [
+          makeCustomExtension({
+            extensionType: MARMOT_GROUP_DATA_EXTENSION_TYPE,
+            extensionData: new Uint8Array([1, 2, 3]),
+          }),
+        ],
+      },
+    }));
+    await ingestAll(group);
+
+    expect(group.inbox.proposals).toEqual([
+      expect.objectContaining({
+        type: "other",
+        summary: "Update group extensions",
+      }),
+    ]);
+  });
+
+  it("approves and discards selected proposals", async () => {
+    const { group, memberGroup } = await setup();
+
+    await propose(memberGroup, proposeUpdateMetadata({ name: "Renamed" }));
+    await propose(
+      memberGroup,
+      proposeUpdateMetadata({ description: "Discard me" }),
+    );
+    await ingestAll(group);
+
+    const [rename, discard] = ["name", "description"].map((field) =>
+      group.inbox.proposals.find((p) => field in p.changes!)!,
+    );
+
+    await group.inbox.discard([discard.ref]);
+    expect(group.inbox.proposals.map((p) => p.ref)).toEqual([rename.ref]);
+
+    const epoch = group.state.groupContext.epoch;
+    await group.inbox.approve([rename.ref]);
+    expect(group.state.groupContext.epoch).toBe(epoch + 1n);
+    expect(group.groupData!.name).toBe("Renamed");
+    expect(group.groupData!.description).not.toBe("Discard me");
+    expect(group.inbox.proposals).toHaveLength(0);
+  });
+});
@@ -0,0 +1,270 @@
+import { bytesToHex, hexToBytes } from "@noble/hashes/utils.js";
+import { PrivateKeyAccount } from "applesauce-accounts/accounts";
+import { unlockGiftWrap } from "applesauce-common/helpers/gift-wrap";
+import type { NostrEvent } from "nostr-tools";
+import { defaultCryptoProvider, getCiphersuiteImpl } from "ts-mls";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { proposeUpdateMetadata } from "../client/group/proposals/update-metadata";
+import { UnresolvedTransitionError } from "../client/errors";
+import { MarmotClient } from "../client/marmot-client";
+import { createCredential } from "../core/credential";
+import { generateKeyPackage } from "../core/key-package";
+import { createKeyPackageEvent } from "../core/key-package-event";
+import { GROUP_EVENT_KIND } from "../core/protocol";
+import { KeyValueGroupStateBackend } from "../store/adapters/key-value-group-state-backend";
+import { KeyPackageStore } from "../store/key-package-store";
+import { MockNetwork } from "./helpers/mock-network";
+import { MemoryBackend } from "./ingest-commit-race.test";
+
+type Backends = {
+  state: MemoryBackend<any>;
+};
+
+describe("Group state journal", () => {
+  let network: MockNetwork;
+
+  beforeEach(() => {
+    network = new MockNetwork();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  function createBackends(): Backends {
+    return { state: new MemoryBackend() };
+  }
+
+  /** Lists the journal keys, which are kept beside the group states */
+  async function journalKeys(backends: Backends) {
+    return (await backends.state.keys()).filter((key) =>
+      key.startsWith("journal:"),
+    );
+  }
+
+  function createClient(account: PrivateKeyAccount<any>, backends: Backends) {
+    return new MarmotClient({
+      groupStateBackend: new KeyValueGroupStateBackend(backends.state),
+      keyPackageStore: new KeyPackageStore(new MemoryBackend()),
+      signer: account.signer,
+      network,
+    });
+  }
+
+  /** Makes the next publish hang like a process that stopped, optionally after a relay stored the event */
+  function crashOnNextPublish(reachRelay: boolean) {
+    const publish = network.publish.bind(network);
+    vi.spyOn(network, "publish").mockImplementationOnce(
+      async (relays, event) => {
+        if (reachRelay) await publish(relays, event);
+        return new Promise(() => {});
+      },
+    );
+  }
+
+  async function setup() {
+    const admin = PrivateKeyAccount.generateNew();
+    const member = PrivateKeyAccount.generateNew();
+    const memberPubkey = await member.signer.getPublicKey();
+    const adminBackends = createBackends();
+    const memberBackends = createBackends();
+    const memberClient = createClient(member, memberBackends);
+
+    const group = await createClient(admin, adminBackends).createGroup(
+      "Journal Test",
+      { relays: ["wss://mock-relay.test"] },
+    );
+
+    const ciphersuiteImpl = await getCiphersuiteImpl(
+      "MLS_128_DHKEMX25519_AES128GCM_SHA256_Ed25519",
+      defaultCryptoProvider,
+    );
+    const keyPackage = await generateKeyPackage({
+      credential: createCredential(memberPubkey),
+      ciphersuiteImpl,
+    });
+    await memberClient.keyPackageStore.add(keyPackage);
+    const keyPackageEvent: NostrEvent = await member.signer.signEvent(
+      createKeyPackageEvent({ keyPackage: keyPackage.publicPackage }),
+    );
+    await group.inviteByKeyPackageEvent(keyPackageEvent);
+
+    const giftWrap = network.events.find((e) => e.kind === 1059)!;
+    const welcomeRumor = await unlockGiftWrap(giftWrap, member.signer);
+    const memberGroup = await memberClient.joinGroupFromWelcome({
+      welcomeRumor,
+    });
+
+    return {
+      admin,
+      adminBackends,
+      group,
+      member,
+      memberBackends,
+      memberGroup,
+    };
+  }
+
+  it("replays a commit the relays received before the process stopped", async () => {
+    const { admin, adminBackends, group } = await setup();
+    const epoch = group.state.groupContext.epoch;
+
+    crashOnNextPublish(true);
+    void group.commit({
+      extraProposals: [proposeUpdateMetadata({ name: "Renamed" })],
+    });
+    await vi.waitFor(async () =>
+      expect(await journalKeys(adminBackends)).toHaveLength(1),
+    );
+    await vi.waitFor(() => expect(network.publish).toHaveBeenCalledTimes(1));
+
+    const reloaded = await createClient(admin, adminBackends).getGroup(
+      group.id,
+    );
+    expect(reloaded.state.groupContext.epoch).toBe(epoch + 1n);
+    expect(reloaded.groupData!.name).toBe("Renamed");
+    expect(await journalKeys(adminBackends)).toEqual([]);
+  });
+
+  it("rolls back a commit that never reached a relay", async () => {
+    const { admin, adminBackends, group } = await setup();
+    const epoch = group.state.groupContext.epoch;
+    const published = network.events.length;
+
+    crashOnNextPublish(false);
+    void group.commit({
+      extraProposals: [proposeUpdateMetadata({ name: "Renamed" })],
+    });
+    await vi.waitFor(() => expect(network.publish).toHaveBeenCalledTimes(1));
+    expect(network.events).toHaveLength(published);
+
+    const reloaded = await createClient(admin, adminBackends).getGroup(
+      group.id,
+    );
+    expect(reloaded.state.groupContext.epoch).toBe(epoch);
+    expect(reloaded.groupData!.name).toBe("Journal Test");
+    expect(await journalKeys(adminBackends)).toEqual([]);
+  });
+
+  it("sends the Welcomes of a commit again after the process stopped", async () => {
+    const { admin, adminBackends, group } = await setup();
+    const invitee = PrivateKeyAccount.generateNew();
+    const inviteePubkey = await invitee.signer.getPublicKey();
+    const keyPackage = await generateKeyPackage({
+      credential: createCredential(inviteePubkey),
+      ciphersuiteImpl: await getCiphersuiteImpl(
+        "MLS_128_DHKEMX25519_AES128GCM_SHA256_Ed25519",
+        defaultCryptoProvider,
+      ),
+    });
+    const keyPackageEvent = await invitee.signer.signEvent(
+      createKeyPackageEvent({ keyPackage: keyPackage.publicPackage }),
+    );
+
+    // The process stops while the Welcome is being sent
+    const publish = network.publish.bind(network);
+    vi.spyOn(network, "publish").mockImplementation(async (relays, event) => {
+      if (event.kind === 1059) return new Promise(() => {});
+      return await publish(relays, event);
+    });
+    const isWelcomeTo = (e: NostrEvent) =>
+      e.kind === 1059 && e.tags.some((t) => t[1] === inviteePubkey);
+    void group.inviteByKeyPackageEvent(keyPackageEvent);
+    await vi.waitFor(() =>
+      expect(network.publish).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ kind: 1059 }),
+      ),
+    );
+    expect(network.events.some(isWelcomeTo)).toBe(false);
+    expect(await journalKeys(adminBackends)).toHaveLength(1);
+
+    vi.restoreAllMocks();
+    await createClient(admin, adminBackends).getGroup(group.id);
+    await vi.waitFor(async () =>
+      expect(await journalKeys(adminBackends)).toEqual([]),
+    );
+    expect(network.events.some(isWelcomeTo)).toBe(true);
+  });
+
+  it("refuses to load a group whose journal entry cannot be checked", async () => {
+    const { admin, adminBackends, group } = await setup();
+
+    crashOnNextPublish(false);
+    void group.commit({
+      extraProposals: [proposeUpdateMetadata({ name: "Renamed" })],
+    });
+    await vi.waitFor(() => expect(network.publish).toHaveBeenCalledTimes(1));
+
+    vi.spyOn(network, "request").mockRejectedValueOnce(new Error("offline"));
+    await expect(
+      createClient(admin, adminBackends).getGroup(group.id),
+    ).rejects.toThrow(UnresolvedTransitionError);
+    expect(await journalKeys(adminBackends)).toHaveLength(1);
+
+    // The entry is resolved once the relays can be reached
+    const reloaded = await createClient(admin, adminBackends).getGroup(
+      group.id,
+    );
+    expect(reloaded.groupData!.name).toBe("Journal Test");
+    expect(await journalKeys(adminBackends)).toEqual([]);
+  });
+
+  it("saves groups with a backend that keeps no journal", async () => {
+    const admin = PrivateKeyAccount.generateNew();
+    const states = new Map<string, Uint8Array>();
+    const client = new MarmotClient({
+      groupStateBackend: {
+        get: async (id) => states.get(bytesToHex(id)) ?? null,
+        set: async (id, state) => void states.set(bytesToHex(id), state),
+        remove: async (id) => void states.delete(bytesToHex(id)),
+        list: async () => [...states.keys()].map(hexToBytes),
+      },
+      keyPackageStore: new KeyPackageStore(new MemoryBackend()),
+      signer: admin.signer,
+      network,
+    });
+
+    const group = await client.createGroup("No journal", {
+      relays: ["wss://mock-relay.test"],
+    });
+    await group.commit({
+      extraProposals: [proposeUpdateMetadata({ name: "Renamed" })],
+    });
+
+    await client.unloadGroup(group.id);
+    expect((await client.getGroup(group.id)).groupData!.name).toBe("Renamed");
+  });
+
+  it("discards the journal entry when no relay acknowledges the commit", async () => {
+    const { adminBackends, group } = await setup();
+
+    vi.spyOn(network, "publish").mockResolvedValueOnce({});
+    await expect(group.selfUpdate()).rejects.toThrow();
+    expect(await journalKeys(adminBackends)).toEqual([]);
+  });
+
+  it("keeps commits applied by ingest when the batch was not saved", async () => {
+    const { group, member, memberBackends, memberGroup } = await setup();
+    const epoch = group.state.groupContext.epoch;
+
+    await group.commit({
+      extraProposals: [proposeUpdateMetadata({ name: "Renamed" })],
+    });
+
+    // The process stops before the end of the batch
+    vi.spyOn(memberGroup, "save").mockResolvedValue();
+    const events = await network.request(group.relays!, {
+      kinds: [GROUP_EVENT_KIND],
+    });
+    for await (const _ of memberGroup.ingest(events));
+    expect(await journalKeys(memberBackends)).toHaveLength(1);
+
+    const reloaded = await createClient(member, memberBackends).getGroup(
+      memberGroup.id,
+    );
+    expect(reloaded.state.groupContext.epoch).toBe(epoch + 1n);
+    expect(reloaded.groupData!.name).toBe("Renamed");
+  });
+});
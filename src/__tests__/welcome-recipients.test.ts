@@ -0,0 +1,123 @@
+import { PrivateKeyAccount } from "applesauce-accounts/accounts";
+import { unlockGiftWrap } from "applesauce-common/helpers/gift-wrap";
+import type { NostrEvent } from "nostr-tools";
+import { defaultCryptoProvider, getCiphersuiteImpl } from "ts-mls";
+import { beforeEach, describe, expect, it } from "vitest";
+
+import { MarmotGroup } from "../client/group/marmot-group";
+import { proposeInviteUser } from "../client/group/proposals/invite-user";
+import { MarmotClient } from "../client/marmot-client";
+import { createCredential } from "../core/credential";
+import { getGroupMembers } from "../core/group-members";
+import { generateKeyPackage } from "../core/key-package";
+import { createKeyPackageEvent } from "../core/key-package-event";
+import { GROUP_EVENT_KIND } from "../core/protocol";
+import { getWelcomeKeyPackageEventId } from "../core/welcome";
+import { KeyValueGroupStateBackend } from "../store/adapters/key-value-group-state-backend";
+import { KeyPackageStore } from "../store/key-package-store";
+import { MockNetwork } from "./helpers/mock-network";
+import { MemoryBackend } from "./ingest-commit-race.test";
+
+describe("MarmotGroup.commit welcome recipients", () => {
+  let network: MockNetwork;
+
+  beforeEach(() => {
+    network = new MockNetwork();
+  });
+
+  function createClient(account: PrivateKeyAccount<any>) {
+    return new MarmotClient({
+      groupStateBackend: new KeyValueGroupStateBackend(new MemoryBackend()),
+      keyPackageStore: new KeyPackageStore(new MemoryBackend()),
+      signer: account.signer,
+      network,
+    });
+  }
+
+  async function ingestAll(group: MarmotGroup<any>) {
+    const events = await network.request(group.relays!, {
+      kinds: [GROUP_EVENT_KIND],
+    });
+    for await (const _ of group.ingest(events)) {
+      // drain
+    }
+  }
+
+  /** Creates a client for an account and publishes a key package event for it */
+  async function publishKeyPackage(account: PrivateKeyAccount<any>) {
+    const client = createClient(account);
+    const ciphersuiteImpl = await getCiphersuiteImpl(
+      "MLS_128_DHKEMX25519_AES128GCM_SHA256_Ed25519",
+      defaultCryptoProvider,
+    );
+    const keyPackage = await generateKeyPackage({
+      credential: createCredential(await account.signer.getPublicKey()),
+      ciphersuiteImpl,
+    });
+    await client.keyPackageStore.add(keyPackage);
+    const keyPackageEvent: NostrEvent = await account.signer.signEvent(
+      createKeyPackageEvent({ keyPackage: keyPackage.publicPackage }),
+    );
+    await network.publish(["wss://mock-inbox.test"], keyPackageEvent);
+
+    return { client, keyPackageEvent };
+  }
+
+  async function findWelcome(account: PrivateKeyAccount<any>) {
+    const pubkey = await account.signer.getPublicKey();
+    const giftWrap = network.events.find(
+      (e) => e.kind === 1059 && e.tags.some((t) => t[1] === pubkey),
+    );
+    return giftWrap && (await unlockGiftWrap(giftWrap, account.signer));
+  }
+
+  it("welcomes members added by a proposal committed by reference", async () => {
+    const admin = PrivateKeyAccount.generateNew();
+    const member = PrivateKeyAccount.generateNew();
+    const invitee = PrivateKeyAccount.generateNew();
+
+    const group = await createClient(admin).createGroup("Welcome Test", {
+      relays: ["wss://mock-relay.test"],
+    });
+    const { client: memberClient, keyPackageEvent: memberKeyPackage } =
+      await publishKeyPackage(member);
+    await group.inviteByKeyPackageEvent(memberKeyPackage);
+    const memberGroup = await memberClient.joinGroupFromWelcome({
+      welcomeRumor: (await findWelcome(member))!,
+    });
+
+    // A non-admin member proposes the invite and the admin commits it by reference
+    const { client: inviteeClient, keyPackageEvent } =
+      await publishKeyPackage(invitee);
+    await memberGroup.propose(proposeInviteUser(keyPackageEvent));
+    await ingestAll(group);
+    await group.commit({ proposalRefs: Object.keys(group.unappliedProposals) });
+
+    const welcomeRumor = await findWelcome(invitee);
+    expect(welcomeRumor).toBeDefined();
+    expect(getWelcomeKeyPackageEventId(welcomeRumor!)).toBe(keyPackageEvent.id);
+
+    const inviteeGroup = await inviteeClient.joinGroupFromWelcome({
+      welcomeRumor: welcomeRumor!,
+    });
+    expect(getGroupMembers(inviteeGroup.state)).toContain(
+      await invitee.signer.getPublicKey(),
+    );
+  });
+
+  it("welcomes members added by inline proposals", async () => {
+    const admin = PrivateKeyAccount.generateNew();
+    const invitee = PrivateKeyAccount.generateNew();
+
+    const group = await createClient(admin).createGroup("Welcome Test", {
+      relays: ["wss://mock-relay.test"],
+    });
+    const { keyPackageEvent } = await publishKeyPackage(invitee);
+    await group.commit({
+      extraProposals: [proposeInviteUser(keyPackageEvent)],
+    });
+
+    const welcomeRumor = await findWelcome(invitee);
+    expect(getWelcomeKeyPackageEventId(welcomeRumor!)).toBe(keyPackageEvent.id);
+  });
+});
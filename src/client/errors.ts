@@ -1,3 +1,5 @@
+import type { KeyPackageValidationReport } from "../core/key-package-validator.js";
+
 /** An error that is thrown when a group has no relays available to send messages. */
 export class NoGroupRelaysError extends Error {
   constructor() {
@@ -18,3 +20,53 @@ export class NoRelayReceivedEventError extends Error {
     super(`No relay received event ${eventId}`);
   }
 }
+
+/** An error that is thrown when a group operation requires a blob store but none was configured. */
+export class NoBlobStoreError extends Error {
+  constructor() {
+    super("No blob store configured for group media.");
+  }
+}
+
+/** An error that is thrown when the media secret for an attachment's epoch is no longer available. */
+export class MediaKeyUnavailableError extends Error {
+  constructor(epoch: bigint) {
+    super(`Media secret for epoch ${epoch} is not available.`);
+  }
+}
+
+/** An error that is thrown when a group cannot be loaded because its journaled transition could not be checked against the relays. */
+export class UnresolvedTransitionError extends Error {
+  constructor(groupId: string, cause: unknown) {
+    super(
+      `Could not check the journaled transition of group ${groupId}, load it again once its relays are reachable`,
+      { cause },
+    );
+  }
+}
+
+/** An error that is thrown when a key package event fails validation. */
+export class InvalidKeyPackageError extends Error {
+  /** The checks the key package failed */
+  readonly report: KeyPackageValidationReport;
+
+  constructor(eventId: string, report: KeyPackageValidationReport) {
+    super(
+      `Invalid key package ${eventId}: ${report.failures
+        .map((failure) => failure.reason)
+        .join("; ")}`,
+    );
+    this.report = report;
+  }
+}
+
+/** An error that is thrown when users have no valid key package to be added to a group. */
+export class MissingKeyPackagesError extends Error {
+  /** The pubkeys of the users without a valid key package */
+  readonly pubkeys: string[];
+
+  constructor(pubkeys: string[]) {
+    super(`No valid key package found for ${pubkeys.join(", ")}`);
+    this.pubkeys = pubkeys;
+  }
+}
@@ -0,0 +1,301 @@
+import { bytesToHex } from "@noble/hashes/utils.js";
+import type { NostrEvent } from "applesauce-core/helpers/event";
+import type { Filter } from "applesauce-core/helpers/filter";
+import { EventEmitter } from "eventemitter3";
+import { getNostrGroupIdHex } from "../core/client-state.js";
+import { GROUP_EVENT_KIND } from "../core/protocol.js";
+import type {
+  SyncCursor,
+  SyncCursorStore,
+} from "../store/sync-cursor-store.js";
+import { unixNow } from "../utils/nostr.js";
+import type { MarmotGroup } from "./group/marmot-group.js";
+import type { GroupIngestReport, MarmotClient } from "./marmot-client.js";
+import type { Unsubscribable } from "./nostr-interface.js";
+
+/**
+ * How many seconds before its cursor a group is backfilled from by default, so events
+ * that reached the relays late or with an older `created_at` are not skipped
+ */
+export const DEFAULT_SYNC_BACKFILL_MARGIN = 10 * 60;
+
+/** A map of events that can be emitted by a {@link GroupSync} */
+type GroupSyncEvents = {
+  /** Emitted after a batch of group events was ingested by a group */
+  synced: (group: MarmotGroup<any>, events: NostrEvent[]) => void;
+  /** Emitted when backfilling or ingesting events fails */
+  syncFailed: (error: Error, group?: MarmotGroup<any>) => void;
+};
+
+/** An open kind 445 subscription shared by the groups on the same relays */
+type RelaySubscription = {
+  relays: string[];
+  /** The nostr group ids (`h` tags) the subscription covers */
+  nostrGroupIds: string[];
+  subscription: Unsubscribable;
+};
+
+/** Gets a stable key for a set of relays */
+function getRelaySetKey(relays: string[]): string {
+  return Array.from(new Set(relays)).sort().join(",");
+}
+
+/** Gets the nostr group id of a group, or undefined if it has no marmot group data */
+function getNostrGroupId(group: MarmotGroup<any>): string | undefined {
+  try {
+    return getNostrGroupIdHex(group.state);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Keeps the loaded groups of a {@link MarmotClient} in sync with their relays.
+ *
+ * Groups on the same relays share one kind 445 subscription that covers all of
+ * their `h` tags. When a group is first covered its events are backfilled from
+ * its persisted since-cursor minus {@link backfillMargin}, and every event is
+ * routed to the group that owns it through {@link MarmotClient.ingest}. Events
+ * that were already handled are skipped by the groups' processed event log, which
+ * needs a persistent `processedEventBackend` to cover the margin after a restart.
+ *
+ * Subscriptions are reconciled whenever groups are loaded, created, joined or
+ * destroyed, and after a group changed its relays or nostr group id.
+ */
+export class GroupSync extends EventEmitter<GroupSyncEvents> {
+  readonly client: MarmotClient<any>;
+  readonly cursorStore?: SyncCursorStore;
+  /** How many seconds before its cursor a group is backfilled from */
+  readonly backfillMargin: number;
+
+  /** Open subscriptions by relay set */
+  #subscriptions = new Map<string, RelaySubscription>();
+  /** Batches that are being ingested */
+  #pending = new Set<Promise<void>>();
+  /** Serializes reconciles */
+  #reconciling: Promise<void> = Promise.resolve();
+  /** In-memory cursors, used when no store is configured */
+  #cursors = new Map<string, SyncCursor>();
+  #running = false;
+
+  constructor(
+    client: MarmotClient<any>,
+    cursorStore?: SyncCursorStore,
+    backfillMargin = DEFAULT_SYNC_BACKFILL_MARGIN,
+  ) {
+    super();
+    this.client = client;
+    this.cursorStore = cursorStore;
+    this.backfillMargin = backfillMargin;
+  }
+
+  /** Whether the sync engine is running */
+  get running() {
+    return this.#running;
+  }
+
+  /** The relay sets that currently have a subscription */
+  get relaySets(): string[][] {
+    return Array.from(this.#subscriptions.values(), (sub) => sub.relays);
+  }
+
+  private handleGroupsUpdated = () => {
+    this.reconcile().catch((error) => this.emit("syncFailed", error as Error));
+  };
+
+  private handleGroupDestroyed = (groupId: Uint8Array) => {
+    this.removeCursor(groupId).catch((error) =>
+      this.emit("syncFailed", error as Error),
+    );
+  };
+
+  /** Loads all stored groups, subscribes to their relays and backfills missed events */
+  async start(): Promise<void> {
+    if (this.#running) return;
+    this.#running = true;
+
+    await this.client.loadAllGroups();
+    this.client.on("groupsUpdated", this.handleGroupsUpdated);
+    this.client.on("groupDestroyed", this.handleGroupDestroyed);
+    await this.reconcile();
+  }
+
+  /** Closes all subscriptions. Cursors are kept so the next start only backfills what was missed */
+  stop(): void {
+    if (!this.#running) return;
+    this.#running = false;
+
+    this.client.off("groupsUpdated", this.handleGroupsUpdated);
+    this.client.off("groupDestroyed", this.handleGroupDestroyed);
+
+    for (const sub of this.#subscriptions.values())
+      sub.subscription.unsubscribe();
+    this.#subscriptions.clear();
+  }
+
+  /** Waits until all received batches are ingested */
+  async idle(): Promise<void> {
+    await this.#reconciling;
+    while (this.#pending.size > 0) {
+      await Promise.all(this.#pending);
+      await this.#reconciling;
+    }
+  }
+
+  /**
+   * Opens, replaces or closes subscriptions so they cover exactly the loaded groups,
+   * and backfills the groups that were not covered before
+   */
+  reconcile(): Promise<void> {
+    this.#reconciling = this.#reconciling
+      .catch(() => {})
+      .then(() => this.reconcileSubscriptions());
+    return this.#reconciling;
+  }
+
+  private async reconcileSubscriptions(): Promise<void> {
+    if (!this.#running) return;
+
+    // Group the loaded groups by relay set
+    const relaySets = new Map<
+      string,
+      { relays: string[]; groups: Map<string, MarmotGroup<any>> }
+    >();
+    for (const group of this.client.groups) {
+      const relays = group.relays;
+      if (!relays || relays.length === 0) continue;
+
+      const nostrGroupId = getNostrGroupId(group);
+      if (!nostrGroupId) continue;
+
+      const key = getRelaySetKey(relays);
+      let relaySet = relaySets.get(key);
+      if (!relaySet) {
+        relaySet = { relays: key.split(","), groups: new Map() };
+        relaySets.set(key, relaySet);
+      }
+      relaySet.groups.set(nostrGroupId, group);
+    }
+
+    // Close subscriptions of relay sets that no longer have groups
+    for (const [key, sub] of this.#subscriptions) {
+      if (relaySets.has(key)) continue;
+      sub.subscription.unsubscribe();
+      this.#subscriptions.delete(key);
+    }
+
+    for (const [key, { relays, groups }] of relaySets) {
+      const nostrGroupIds = Array.from(groups.keys()).sort();
+      const existing = this.#subscriptions.get(key);
+      if (existing && existing.nostrGroupIds.join() === nostrGroupIds.join())
+        continue;
+
+      // Open the new subscription before closing the old one so the covered groups miss nothing
+      const subscription = this.client.network
+        .subscription(relays, {
+          kinds: [GROUP_EVENT_KIND],
+          "#h": nostrGroupIds,
+          since: unixNow(),
+        })
+        .subscribe({
+          next: (value) => this.route(Array.isArray(value) ? value : [value]),
+          error: (error) => this.emit("syncFailed", error as Error),
+        });
+      existing?.subscription.unsubscribe();
+      this.#subscriptions.set(key, { relays, nostrGroupIds, subscription });
+
+      // Only the groups that were just added to the relay set need a backfill
+      const added = new Map(
+        Array.from(groups).filter(
+          ([nostrGroupId]) => !existing?.nostrGroupIds.includes(nostrGroupId),
+        ),
+      );
+      if (added.size > 0) await this.backfill(relays, added);
+    }
+  }
+
+  /** Requests the events of groups on a relay set that were published after their cursors */
+  private async backfill(
+    relays: string[],
+    groups: Map<string, MarmotGroup<any>>,
+  ): Promise<void> {
+    const filters: Filter[] = [];
+    for (const [nostrGroupId, group] of groups) {
+      const cursor = await this.getCursor(group.id);
+      filters.push({
+        kinds: [GROUP_EVENT_KIND],
+        "#h": [nostrGroupId],
+        ...(cursor
+          ? { since: Math.max(0, cursor.since - this.backfillMargin) }
+          : {}),
+      });
+    }
+
+    try {
+      this.route(await this.client.network.request(relays, filters));
+    } catch (error) {
+      this.emit("syncFailed", error as Error);
+    }
+  }
+
+  /** Ingests events through {@link MarmotClient.ingest} and moves the cursors of the groups that received them */
+  private route(events: NostrEvent[]) {
+    const pending = this.client
+      .ingest(events)
+      .then(({ groups }) => this.handleReports(groups))
+      .catch((error) => {
+        this.emit("syncFailed", error as Error);
+      })
+      .finally(() => this.#pending.delete(pending));
+    this.#pending.add(pending);
+  }
+
+  private async handleReports(reports: GroupIngestReport[]) {
+    let uncovered = false;
+    for (const { group, events, error } of reports) {
+      if (error) {
+        this.emit("syncFailed", error, group);
+        continue;
+      }
+
+      // Move the cursor to the newest event, events that could not be read yet are kept by the group
+      const since = Math.max(...events.map((event) => event.created_at));
+      const cursor = await this.getCursor(group.id);
+      if (!cursor || since > cursor.since)
+        await this.setCursor(group.id, { since, updatedAt: unixNow() });
+
+      this.emit("synced", group, events);
+
+      // A commit may have changed the relays or the nostr group id of the group
+      if (!this.isCovered(group)) uncovered = true;
+    }
+
+    if (uncovered) await this.reconcile();
+  }
+
+  /** Checks whether a group's current relays and nostr group id are covered by a subscription */
+  private isCovered(group: MarmotGroup<any>): boolean {
+    const relays = group.relays;
+    const nostrGroupId = getNostrGroupId(group);
+    if (!relays || relays.length === 0 || !nostrGroupId) return true;
+
+    const sub = this.#subscriptions.get(getRelaySetKey(relays));
+    return !!sub && sub.nostrGroupIds.includes(nostrGroupId);
+  }
+
+  /** Gets the sync cursor of a group */
+  async getCursor(groupId: Uint8Array): Promise<SyncCursor | null> {
+    if (this.cursorStore) return await this.cursorStore.get(groupId);
+    return this.#cursors.get(bytesToHex(groupId)) ?? null;
+  }
+
+  private async setCursor(groupId: Uint8Array, cursor: SyncCursor) {
+    if (this.cursorStore) await this.cursorStore.set(groupId, cursor);
+    else this.#cursors.set(bytesToHex(groupId), cursor);
+  }
+
+  private async removeCursor(groupId: Uint8Array) {
+    if (this.cursorStore) await this.cursorStore.remove(groupId);
+    else this.#cursors.delete(bytesToHex(groupId));
+  }
+}
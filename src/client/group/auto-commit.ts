@@ -0,0 +1,75 @@
+import type { MarmotGroup } from "./marmot-group.js";
+import type { PendingProposal } from "./proposal-inbox.js";
+
+/** Decides if a pending proposal may be committed automatically */
+export type AutoCommitRule = (
+  proposal: PendingProposal,
+  group: MarmotGroup<any>,
+) => boolean;
+
+/** A policy for committing pending proposals automatically on an admin's client */
+export type AutoCommitPolicy = {
+  /** A pending proposal is committed when any of the rules allows it */
+  rules: AutoCommitRule[];
+  /** Milliseconds to wait after the last inbox change before committing (default 1000) */
+  debounce?: number;
+  /** Maximum random milliseconds added to the delay so several admins don't commit at once (default 2000) */
+  jitter?: number;
+};
+
+/** Allows members' requests to leave the group */
+export function allowLeaves(): AutoCommitRule {
+  return (proposal) => proposal.type === "leave";
+}
+
+/** Allows metadata changes (name, description, relays, image) proposed by admins */
+export function allowAdminMetadata(): AutoCommitRule {
+  return (proposal, group) =>
+    proposal.type === "metadata" &&
+    proposal.sender !== undefined &&
+    (group.groupData?.adminPubkeys.includes(proposal.sender) ?? false);
+}
+
+/**
+ * Allows adds proposed by a set of members.
+ *
+ * @param pubkeys - The pubkeys of the members whose invites are committed
+ */
+export function allowAddsFrom(pubkeys: string[]): AutoCommitRule {
+  return (proposal) =>
+    proposal.type === "add" &&
+    proposal.sender !== undefined &&
+    pubkeys.includes(proposal.sender);
+}
+
+/**
+ * Gets the pending proposals of a group that a policy allows to commit.
+ *
+ * @param policy - The auto-commit policy
+ * @param group - The group to read the pending proposals from
+ * @returns The pending proposals allowed by at least one rule
+ */
+export function getAutoCommitProposals(
+  policy: AutoCommitPolicy,
+  group: MarmotGroup<any>,
+): PendingProposal[] {
+  return group.inbox.proposals.filter((proposal) =>
+    policy.rules.some((rule) => rule(proposal, group)),
+  );
+}
+
+/**
+ * Gets how long to wait before auto-committing, the debounce plus a random jitter.
+ *
+ * @param policy - The auto-commit policy
+ * @param random - Random number source in [0, 1) (defaults to Math.random)
+ * @returns The delay in milliseconds
+ */
+export function getAutoCommitDelay(
+  policy: AutoCommitPolicy,
+  random: () => number = Math.random,
+): number {
+  const debounce = Math.max(policy.debounce ?? 1000, 0);
+  const jitter = Math.max(policy.jitter ?? 2000, 0);
+  return debounce + Math.floor(random() * jitter);
+}
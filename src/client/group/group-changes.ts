@@ -0,0 +1,200 @@
+import type { Rumor } from "applesauce-common/helpers/gift-wrap";
+import type { NostrEvent } from "nostr-tools";
+import { ClientState } from "ts-mls";
+import { extractMarmotGroupData } from "../../core/client-state.js";
+import { getGroupMembers } from "../../core/group-members.js";
+import { getMarmotGroupDataChanges } from "../../core/marmot-group-data.js";
+import { MarmotGroupData } from "../../core/protocol.js";
+import { describePendingProposal, PendingProposal } from "./proposal-inbox.js";
+
+/** A member joined the group */
+export type MemberAddedChange = {
+  type: "memberAdded";
+  pubkey: string;
+  epoch: bigint;
+};
+
+/** A member was removed from (or left) the group */
+export type MemberRemovedChange = {
+  type: "memberRemoved";
+  pubkey: string;
+  epoch: bigint;
+};
+
+/** The local member was removed from the group */
+export type SelfRemovedChange = {
+  type: "selfRemoved";
+  epoch: bigint;
+};
+
+/** The group's metadata (name, description, relays, image) changed */
+export type MetadataChangedChange = {
+  type: "metadataChanged";
+  changes: Partial<Omit<MarmotGroupData, "adminPubkeys">>;
+  epoch: bigint;
+};
+
+/** The group's admins changed */
+export type AdminsChangedChange = {
+  type: "adminsChanged";
+  previous: string[];
+  admins: string[];
+  epoch: bigint;
+};
+
+/** The group moved to a new epoch */
+export type EpochAdvancedChange = {
+  type: "epochAdvanced";
+  previousEpoch: bigint;
+  epoch: bigint;
+};
+
+/** A proposal was added to the group's pending proposals */
+export type ProposalReceivedChange = {
+  type: "proposalReceived";
+  proposal: PendingProposal;
+};
+
+/** An incoming commit was rejected by the group's commit policy */
+export type CommitRejectedChange = {
+  type: "commitRejected";
+  /** The pubkey of the commit sender, if it could be resolved */
+  sender?: string;
+  reason: string;
+  epoch: bigint;
+};
+
+/** A commit lost to a competing commit for the same epoch and the group was rolled back to apply the winner */
+export type CommitRolledBackChange = {
+  type: "commitRolledBack";
+  /** The commit that was rolled back */
+  event: NostrEvent;
+  /** The competing commit that was applied instead */
+  winner: NostrEvent;
+  /** Whether the rolled back commit was sent by the local member */
+  own: boolean;
+  /**
+   * Own messages of the rolled back epochs that can't be sent again because their
+   * attachments were encrypted for one of those epochs. The other messages are sent again.
+   */
+  lostRumors: Rumor[];
+  epoch: bigint;
+};
+
+/** An ingested event was dropped because it can never be read */
+export type EventDroppedChange = {
+  type: "eventDropped";
+  event: NostrEvent;
+  reason: string;
+};
+
+/** An application rumor was received */
+export type ApplicationRumorChange = {
+  type: "applicationRumor";
+  rumor: Rumor;
+};
+
+/** A high level change to a group, emitted while ingesting events or committing */
+export type MarmotGroupChange =
+  | MemberAddedChange
+  | MemberRemovedChange
+  | SelfRemovedChange
+  | MetadataChangedChange
+  | AdminsChangedChange
+  | EpochAdvancedChange
+  | ProposalReceivedChange
+  | CommitRejectedChange
+  | CommitRolledBackChange
+  | EventDroppedChange
+  | ApplicationRumorChange;
+
+/** Map of group change types to the change they describe */
+export type MarmotGroupChangeMap = {
+  [K in MarmotGroupChange["type"]]: Extract<MarmotGroupChange, { type: K }>;
+};
+
+/** Map of group change events, one per change type */
+export type MarmotGroupChangeEvents = {
+  [K in keyof MarmotGroupChangeMap]: (change: MarmotGroupChangeMap[K]) => void;
+};
+
+/**
+ * Works out the high level changes between two states of a group.
+ * It never throws: it runs after the new state is applied, so changes that cannot be
+ * worked out (for example from a proposal with unreadable group data) are left out.
+ *
+ * @param previous - The group state before the change
+ * @param next - The group state after the change
+ * @returns The changes, in the order members, metadata, admins, epoch, proposals
+ */
+export function getGroupStateChanges(
+  previous: ClientState,
+  next: ClientState,
+): MarmotGroupChange[] {
+  const changes: MarmotGroupChange[] = [];
+  const epoch = next.groupContext.epoch;
+
+  if (epoch !== previous.groupContext.epoch) {
+    try {
+      const before = getGroupMembers(previous);
+      const after = getGroupMembers(next);
+      for (const pubkey of after) {
+        if (!before.includes(pubkey))
+          changes.push({ type: "memberAdded", pubkey, epoch });
+      }
+      for (const pubkey of before) {
+        if (!after.includes(pubkey))
+          changes.push({ type: "memberRemoved", pubkey, epoch });
+      }
+    } catch (error) {
+      console.warn("[MarmotGroup] Failed to work out member changes:", error);
+    }
+    if (
+      next.groupActiveState.kind === "removedFromGroup" &&
+      previous.groupActiveState.kind !== "removedFromGroup"
+    )
+      changes.push({ type: "selfRemoved", epoch });
+
+    const previousData = extractMarmotGroupData(previous);
+    const nextData = extractMarmotGroupData(next);
+    if (nextData) {
+      const { adminPubkeys, ...metadata } = getMarmotGroupDataChanges(
+        previousData,
+        nextData,
+      );
+      if (Object.keys(metadata).length > 0)
+        changes.push({ type: "metadataChanged", changes: metadata, epoch });
+      if (adminPubkeys)
+        changes.push({
+          type: "adminsChanged",
+          previous: previousData?.adminPubkeys ?? [],
+          admins: adminPubkeys,
+          epoch,
+        });
+    }
+
+    changes.push({
+      type: "epochAdvanced",
+      previousEpoch: previous.groupContext.epoch,
+      epoch,
+    });
+  } else {
+    const groupData = extractMarmotGroupData(next);
+    for (const [ref, proposal] of Object.entries(next.unappliedProposals)) {
+      if (ref in previous.unappliedProposals) continue;
+      try {
+        changes.push({
+          type: "proposalReceived",
+          proposal: describePendingProposal(ref, proposal, next, groupData),
+        });
+      } catch (error) {
+        console.warn(
+          `[MarmotGroup] Failed to describe proposal ${ref}:`,
+          error,
+        );
+      }
+    }
+  }
+
+  return changes;
+}
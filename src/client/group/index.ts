@@ -1,3 +1,6 @@
 export * as Proposals from "./proposals/index.js";
+export * from "./auto-commit.js";
 export * from "./marmot-group.js";
+export * from "./group-changes.js";
 export * from "./group-rumor-history.js";
+export * from "./proposal-inbox.js";
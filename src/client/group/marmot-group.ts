@@ -1,10 +1,16 @@
+import { sha256 } from "@noble/hashes/sha2.js";
 import type { Rumor } from "applesauce-common/helpers/gift-wrap";
 import type { EventSigner } from "applesauce-core/event-factory";
-import { bytesToHex, type NostrEvent } from "applesauce-core/helpers/event";
+import {
+  bytesToHex,
+  getEventHash,
+  type NostrEvent,
+} from "applesauce-core/helpers/event";
 import { EventEmitter } from "eventemitter3";
 import {
   CiphersuiteImpl,
   ClientState,
+  type GroupContextExtension,
   createApplicationMessage,
   createCommit,
   CreateCommitOptions,
@@ -16,40 +22,133 @@ import {
   Proposal,
   wireformats,
   defaultCryptoProvider,
+  defaultProposalTypes,
+  type KeyPackage,
+  makeKeyPackageRef,
+  type Welcome,
+  decode,
+  encode,
 } from "ts-mls";
+import { welcomeDecoder, welcomeEncoder } from "ts-mls/welcome.js";
 import {
   acceptAll,
   type IncomingMessageCallback,
 } from "ts-mls/incomingMessageAction.js";
+import { ClientConfig } from "ts-mls/clientConfig.js";
+import { ProposalRemove } from "ts-mls/proposal.js";
 import { getCredentialFromLeafIndex } from "ts-mls/ratchetTree.js";
 import { type LeafIndex, toLeafIndex } from "ts-mls/treemath.js";
+import { ProposalWithSender } from "ts-mls/unappliedProposals.js";
 import {
   extractMarmotGroupData,
   serializeClientState,
 } from "../../core/client-state.js";
 import { getCredentialPubkey } from "../../core/credential.js";
+import { getAdminSuccessionRule } from "../../core/admin-succession.js";
+import {
+  getAdminsAfterProposals,
+  getEffectiveAdmins,
+  getMembersAfterProposals,
+  isAdminSuccessionCommit,
+  validateAdminInvariants,
+} from "../../core/group-admins.js";
+import {
+  createEpochRetentionClientConfig,
+  DEFAULT_EPOCH_RETENTION,
+  PastEpochKeys,
+  pruneHistoricalReceiverData,
+  prunePastEpochKeys,
+} from "../../core/epoch-retention.js";
+import {
+  decryptGroupImage,
+  encryptGroupImage,
+  hasGroupImage,
+} from "../../core/group-image.js";
 import {
+  compareGroupCommits,
   createGroupEvent,
+  deserializeApplicationData,
+  getExporterSecretForNip44,
   GroupMessagePair,
   readGroupMessages,
   serializeApplicationRumor,
   sortGroupCommits,
 } from "../../core/group-message.js";
 import { getKeyPackage } from "../../core/key-package-event.js";
-import { isPrivateMessage } from "../../core/message.js";
-import { MarmotGroupData } from "../../core/protocol.js";
+import { KeyPackageValidator } from "../../core/key-package-validator.js";
+import {
+  createMediaImetaTag,
+  decryptMedia,
+  encryptMedia,
+  getMediaAttachments,
+  getMediaExporterSecret,
+  MediaAttachment,
+  MediaMetadata,
+} from "../../core/media.js";
+import {
+  getMessageEpoch,
+  isPrivateMessage,
+  PrivateMessage,
+} from "../../core/message.js";
+import {
+  AdminSuccessionRule,
+  KEY_PACKAGE_KIND,
+  MarmotGroupData,
+} from "../../core/protocol.js";
+import { createSelfUpdateCommit } from "../../core/self-update.js";
 import { createWelcomeRumor } from "../../core/welcome.js";
-import { GroupStateStore } from "../../store/group-state-store.js";
-import { createGiftWrap, hasAck } from "../../utils/index.js";
+import { BlobStore } from "../../store/blob-store.js";
+import {
+  GroupStateStore,
+  GroupStateTransition,
+  PendingWelcomes,
+} from "../../store/group-state-store.js";
+import { MediaKeyStore } from "../../store/media-key-store.js";
 import {
+  PendingEventStore,
+  PendingGroupEvent,
+} from "../../store/pending-event-store.js";
+import {
+  ProcessedEventRecord,
+  ProcessedEventStatus,
+  ProcessedEventStore,
+} from "../../store/processed-event-store.js";
+import { OutboxMessage, OutboxStore } from "../../store/outbox-store.js";
+import { createGiftWrap, hasAck, unixNow } from "../../utils/index.js";
+import {
+  InvalidKeyPackageError,
+  MediaKeyUnavailableError,
+  NoBlobStoreError,
   NoGroupRelaysError,
   NoMarmotGroupDataError,
   NoRelayReceivedEventError,
 } from "../errors.js";
+import {
+  discoverKeyPackage,
+  KeyPackageDiscovery,
+} from "../key-package-discovery.js";
 import { NostrNetworkInterface, PublishResponse } from "../nostr-interface.js";
 import { marmotAuthService } from "../../core/auth-service.js";
 import { getGroupMembers } from "../../core/group-members.js";
+import {
+  allowLeaves,
+  AutoCommitPolicy,
+  getAutoCommitDelay,
+  getAutoCommitProposals,
+} from "./auto-commit.js";
+import {
+  getGroupStateChanges,
+  MarmotGroupChange,
+  MarmotGroupChangeEvents,
+} from "./group-changes.js";
+import { PendingProposal, ProposalInbox } from "./proposal-inbox.js";
+import {
+  proposeAdminTakeover,
+  proposeAdminTakeoverVote,
+} from "./proposals/admins.js";
 import { proposeInviteUser } from "./proposals/invite-user.js";
+import { proposeLeaveGroup } from "./proposals/leave-group.js";
+import { proposeUpdateMetadata } from "./proposals/update-metadata.js";
 
 /**
  * The minimum interface for a group to store them MLS messages
@@ -97,73 +196,297 @@ export type MarmotGroupOptions<
   network: NostrNetworkInterface;
   /** The storage interface for the groups application message history (optional) */
   history?: THistory | GroupHistoryFactory<THistory>;
+  /** The blob store used to upload and download encrypted group media (optional) */
+  blobStore?: BlobStore;
+  /** The store used to keep media secrets of past epochs so older attachments stay readable (optional) */
+  mediaKeyStore?: MediaKeyStore;
+  /** Whether admins automatically commit members' leave proposals after the {@link autoCommitPolicy} delay (default true) */
+  autoCommitLeaves?: boolean;
+  /** A policy for committing other pending proposals automatically when the local member is an admin (optional) */
+  autoCommitPolicy?: AutoCommitPolicy;
+  /** How many past epochs to keep secrets for so late messages can still be decrypted (default 4) */
+  epochRetention?: number;
+  /** How many past epochs to keep media secrets for so older attachments stay readable (defaults to {@link epochRetention}) */
+  mediaKeyRetention?: number;
+  /** The NIP-44 keys of past epochs loaded along with the group state (optional) */
+  pastEpochKeys?: PastEpochKeys;
+  /** The store used to keep events that can't be processed yet across restarts (optional, defaults to in-memory) */
+  pendingEventStore?: PendingEventStore;
+  /** How many epochs an undecryptable event waits for before it is dropped (default 16) */
+  maxPendingEpochs?: number;
+  /** The store used to remember which group events were already handled (optional, defaults to in-memory) */
+  processedEventStore?: ProcessedEventStore;
+  /** How many handled event ids to remember per group (default 10000) */
+  maxProcessedEvents?: number;
+  /** The store used to keep encrypted messages until a relay acknowledges them (optional, defaults to in-memory) */
+  outboxStore?: OutboxStore;
+  /** How many times a queued message is published before it is marked as failed (default 8) */
+  maxOutboxAttempts?: number;
+  /** The delay in milliseconds before a queued message is published again, doubled after every attempt (default 1000) */
+  outboxRetryDelay?: number;
+  /** The validator used to check the key packages of invited users (optional) */
+  keyPackageValidator?: KeyPackageValidator;
+};
+
+/** The longest delay in milliseconds between two publish attempts of a queued message */
+const MAX_OUTBOX_RETRY_DELAY = 5 * 60 * 1000;
+
+/** Counts of what happened to the events handled by {@link MarmotGroup.ingest} */
+export type IngestResult = {
+  /** Events that were applied to the group */
+  processed: number;
+  /** Events that were ignored, like already handled events or commits from past epochs */
+  skipped: number;
+  /** Events that were rejected or can never be read */
+  failed: number;
+  /** Events parked until the group reaches their epoch */
+  pending: number;
+};
+
+/** A commit applied to the group that may still lose to a competing commit for the same epoch */
+type UnconfirmedCommit = {
+  /** The commit event */
+  event: NostrEvent;
+  /** The group state before the commit was applied */
+  previousState: ClientState;
+  /** The inline proposals of a commit sent by the local member, undefined for commits of other members */
+  proposals?: Proposal[];
+};
+
+/** The secrets of a past epoch, derived when the group moves past it so its state can be dropped */
+type PastEpochSecrets = {
+  /** The NIP-44 exporter key of the epoch */
+  nip44: Uint8Array;
+  /** The media exporter secret of the epoch */
+  media: Uint8Array;
+};
+
+/** An event that could not be processed during an ingest pass */
+type UnreadableGroupEvent = {
+  event: NostrEvent;
+  /** The private MLS message, if its NIP-44 layer could be decrypted */
+  message?: PrivateMessage;
+  /** The epoch of the MLS message, if its NIP-44 layer could be decrypted */
+  epoch?: bigint;
+  /** Why the event could not be processed */
+  reason: string;
 };
 
 /** Information about a welcome recipient */
 export type WelcomeRecipient = {
   /** The recipient's Nostr public key */
   pubkey: string;
-  /** The ID of KeyPackage event (kind 443) used for add operation */
-  keyPackageEventId: string;
+  /** The ID of KeyPackage event (kind 443) used for add operation, omitted when it could not be found */
+  keyPackageEventId?: string;
+};
+
+/** The outcome of sending a Welcome to a member added by a commit */
+export type WelcomeDelivery = {
+  /** The recipient's Nostr public key */
+  pubkey: string;
+  /** The inbox relays the Welcome was published to */
+  relays: string[];
+  /** Whether a relay acknowledged the Welcome */
+  delivered: boolean;
+  /** Why the Welcome was not delivered */
+  error?: string;
 };
 
+/** What happened to one user passed to {@link MarmotGroup.inviteUsers} */
+export type InviteUserResult =
+  | {
+      pubkey: string;
+      /** The user was added and their Welcome was delivered */
+      status: "invited";
+      keyPackageEvent: NostrEvent;
+    }
+  | {
+      pubkey: string;
+      /** No key package of the user passed validation for the group */
+      status: "noKeyPackage";
+      /** The key packages that were found, undefined if looking them up failed */
+      discovery?: KeyPackageDiscovery;
+      error?: string;
+    }
+  | {
+      pubkey: string;
+      /** The user is already a member of the group */
+      status: "alreadyMember";
+    }
+  | {
+      pubkey: string;
+      /** The user was added but no relay acknowledged their Welcome */
+      status: "welcomeFailed";
+      keyPackageEvent: NostrEvent;
+      delivery: WelcomeDelivery;
+    };
+
 /**
  * Build an incoming-message callback that enforces MIP-03 "admin-only commits".
+ * Groups that carry an admin succession rule also accept the commits that rule
+ * allows, see {@link isAdminSuccessionCommit}.
  *
  * Kept as a pure helper for test ergonomics and clearer policy control.
  */
 export function createAdminCommitPolicyCallback(args: {
   ratchetTree: ClientState["ratchetTree"];
   adminPubkeys: string[];
+  /** The group context extensions, which may carry an admin succession rule */
+  groupContextExtensions?: GroupContextExtension[];
   onUnverifiableCommit?: "reject" | "retry";
+  /** Called with the sender and reason whenever a commit is rejected */
+  onReject?: (rejection: { sender?: string; reason: string }) => void;
 }): IncomingMessageCallback {
-  const { ratchetTree, adminPubkeys, onUnverifiableCommit = "retry" } = args;
+  const {
+    ratchetTree,
+    adminPubkeys,
+    groupContextExtensions = [],
+    onUnverifiableCommit = "retry",
+    onReject,
+  } = args;
 
   return (incoming) => {
     if (incoming.kind === "proposal") return "accept";
 
+    // Any member may refresh its own keys with a commit that only carries an update path
+    if (incoming.proposals.length === 0) return "accept";
+
     // Commit must be attributable to an admin.
     const senderLeafIndexUnknown = incoming.senderLeafIndex;
-    if (senderLeafIndexUnknown === undefined) return "reject";
+    if (senderLeafIndexUnknown === undefined) {
+      onReject?.({ reason: "Commit sender is not a member" });
+      return "reject";
+    }
 
     const senderLeafIndex: LeafIndex =
       typeof senderLeafIndexUnknown === "number"
         ? toLeafIndex(senderLeafIndexUnknown)
         : senderLeafIndexUnknown;
 
+    let senderPubkey: string;
     try {
       const senderCredential = getCredentialFromLeafIndex(
         ratchetTree,
         senderLeafIndex,
       );
-      const senderPubkey = getCredentialPubkey(senderCredential);
-      return adminPubkeys.includes(senderPubkey) ? "accept" : "reject";
+      senderPubkey = getCredentialPubkey(senderCredential);
     } catch {
       // "retry" here means we don't want to permanently reject the commit;
       // MarmotGroup.ingest() will treat processing errors as unreadable/retryable.
       if (onUnverifiableCommit === "retry") {
         throw new Error("unverifiable commit sender");
       }
+      onReject?.({ reason: "Commit sender could not be verified" });
+      return "reject";
+    }
+
+    if (
+      !getEffectiveAdmins(
+        ratchetTree,
+        adminPubkeys,
+        getAdminSuccessionRule(groupContextExtensions),
+      ).includes(senderPubkey) &&
+      !isAdminSuccessionCommit(
+        ratchetTree,
+        groupContextExtensions,
+        adminPubkeys,
+        senderPubkey,
+        incoming.proposals,
+      )
+    ) {
+      onReject?.({
+        sender: senderPubkey,
+        reason: "Commit sender is not an admin",
+      });
+      return "reject";
+    }
+
+    // The commit must not leave the group without an admin
+    try {
+      assertCommitKeepsAdmins(
+        ratchetTree,
+        adminPubkeys,
+        incoming.proposals.map((p) => p.proposal),
+      );
+      return "accept";
+    } catch (error) {
+      onReject?.({
+        sender: senderPubkey,
+        reason: error instanceof Error ? error.message : String(error),
+      });
       return "reject";
     }
   };
 }
 
+/**
+ * Throws if committing the proposals would change the group's admins in a way that breaks the admin invariants.
+ * Commits that leave the admin list alone are fine, the succession rule covers admins who leave.
+ */
+function assertCommitKeepsAdmins(
+  ratchetTree: ClientState["ratchetTree"],
+  adminPubkeys: string[],
+  proposals: Proposal[],
+) {
+  const nextAdmins = getAdminsAfterProposals(adminPubkeys, proposals);
+  if (
+    nextAdmins.length === adminPubkeys.length &&
+    nextAdmins.every((admin, i) => admin === adminPubkeys[i])
+  )
+    return;
+
+  validateAdminInvariants(
+    adminPubkeys,
+    nextAdmins,
+    getMembersAfterProposals(ratchetTree, proposals),
+  );
+}
+
+/** Returns true if a proposal removes the leaf of the member that sent it */
+function isLeaveProposal(
+  p: ProposalWithSender,
+): p is ProposalWithSender & { proposal: ProposalRemove } {
+  return (
+    p.proposal.proposalType === defaultProposalTypes.remove &&
+    "remove" in p.proposal &&
+    p.senderLeafIndex !== undefined &&
+    p.proposal.remove.removed === p.senderLeafIndex
+  );
+}
+
 /** Map of events that can be emitted by a MarmotGroup */
-type MarmotGroupEvents<THistory extends BaseGroupHistory | undefined = any> = {
-  /** Emitted when the group state is updated */
-  stateChanged: (state: ClientState) => void;
-  /** Emitted when a new application message is received */
-  applicationMessage: (message: Uint8Array) => void;
-  /** Emitted when the group state is saved */
-  stateSaved: (group: MarmotGroup<THistory>) => void;
-  /** Emitted when the group is destroyed */
-  destroyed: (group: MarmotGroup<THistory>) => void;
-  /** Emitted when history persistence fails (best-effort, non-blocking) */
-  historyError: (error: Error) => void;
-  /** Emitted when a Welcome gift-wrap publish fails after retry */
-  welcomePublishFailed: (info: { recipientPubkey: string; relays: string[] }) => void;
-};
+type MarmotGroupEvents<THistory extends BaseGroupHistory | undefined = any> =
+  MarmotGroupChangeEvents & {
+    /** Emitted when the group state is updated */
+    stateChanged: (state: ClientState) => void;
+    /** Emitted when a new application message is received */
+    applicationMessage: (message: Uint8Array) => void;
+    /** Emitted when the group state is saved */
+    stateSaved: (group: MarmotGroup<THistory>) => void;
+    /** Emitted when the local member commits a self-update */
+    selfUpdated: (epoch: bigint) => void;
+    /** Emitted when the group is destroyed */
+    destroyed: (group: MarmotGroup<THistory>) => void;
+    /** Emitted when the local member's leave was committed, right before the group is destroyed */
+    left: (group: MarmotGroup<THistory>) => void;
+    /** Emitted when history persistence fails (best-effort, non-blocking) */
+    historyError: (error: Error) => void;
+    /** Emitted when a Welcome gift-wrap publish fails after retry */
+    welcomePublishFailed: (info: {
+      recipientPubkey: string;
+      relays: string[];
+    }) => void;
+    /** Emitted for every high level change, alongside the event named after the change type */
+    change: (change: MarmotGroupChange) => void;
+    /** Emitted when a competing commit won an epoch but could not be applied, leaving the group on a different branch than the other members */
+    forked: (info: {
+      epoch: bigint;
+      event: NostrEvent;
+      reason: string;
+    }) => void;
+    /** Emitted when an outgoing message is queued, sent or fails */
+    outboxMessage: (message: OutboxMessage) => void;
+  };
 
 /**
  * The main class for interacting with a MLS group
@@ -187,12 +510,102 @@ export class MarmotGroup<
   /** The storage interface for the groups application message history */
   readonly history: THistory;
 
+  /** The blob store used for encrypted group media */
+  readonly blobStore?: BlobStore;
+
+  /** The store used to keep media secrets of past epochs */
+  readonly mediaKeyStore?: MediaKeyStore;
+
+  /** Whether admins automatically commit members' leave proposals after the {@link autoCommitPolicy} delay */
+  autoCommitLeaves: boolean;
+
+  /** How many past epochs to keep secrets for so late messages can still be decrypted */
+  readonly epochRetention: number;
+
+  /** How many past epochs to keep media secrets for, in memory and in the {@link mediaKeyStore} */
+  readonly mediaKeyRetention: number;
+
+  /** The store used to keep events that can't be processed yet across restarts */
+  readonly pendingEventStore?: PendingEventStore;
+
+  /** How many epochs an undecryptable event waits for before it is dropped */
+  readonly maxPendingEpochs: number;
+
+  /** The store used to remember which group events were already handled */
+  readonly processedEventStore?: ProcessedEventStore;
+
+  /** How many handled event ids to remember */
+  readonly maxProcessedEvents: number;
+
+  /** The store used to keep encrypted messages until a relay acknowledges them */
+  readonly outboxStore?: OutboxStore;
+
+  /** How many times a queued message is published before it is marked as failed */
+  readonly maxOutboxAttempts: number;
+
+  /** The delay in milliseconds before a queued message is published again */
+  readonly outboxRetryDelay: number;
+
+  /** The proposals waiting to be committed */
+  readonly inbox: ProposalInbox;
+
+  /** The validator used to check the key packages of invited users */
+  readonly keyPackageValidator: KeyPackageValidator;
+
+  /** The policy used to commit pending proposals automatically */
+  get autoCommitPolicy(): AutoCommitPolicy | undefined {
+    return this.#autoCommitPolicy;
+  }
+  set autoCommitPolicy(policy: AutoCommitPolicy | undefined) {
+    this.#autoCommitPolicy = policy;
+    this.scheduleAutoCommit();
+  }
+
   /** Whether group state has been modified */
   dirty = false;
 
   /** Internal ClientState */
   #state: ClientState;
   #groupData: MarmotGroupData | null = null;
+  /** Secrets of past epochs that are still being derived from their states */
+  #derivingEpochSecrets = new Map<bigint, Promise<PastEpochSecrets>>();
+  /** NIP-44 keys of the past epochs inside the retention window */
+  #pastEpochKeys: PastEpochKeys;
+  /** Media secrets of the past epochs inside the retention window that are not in the media key store */
+  #pastMediaSecrets = new Map<bigint, Uint8Array>();
+  /** The ts-mls config used to process and create messages */
+  #clientConfig: ClientConfig;
+  /** Events waiting for their epoch, keyed by event id */
+  #pendingEvents = new Map<string, PendingGroupEvent>();
+  /** Whether the pending events have been loaded from the store */
+  #pendingEventsLoaded = false;
+  /** Ids of pending events that changed since they were last stored */
+  #pendingEventChanges = new Set<string>();
+  /** Handled events by id, oldest first */
+  #processedEvents = new Map<string, ProcessedEventRecord>();
+  /** Whether the handled events have been loaded from the store */
+  #processedEventsLoaded = false;
+  /** Applied commits that no message of a later epoch was built on yet, by the epoch they were made in */
+  #unconfirmedCommits = new Map<bigint, UnconfirmedCommit>();
+  /** The inline proposals of own commits that were rolled back, waiting to be proposed again */
+  #lostCommits: Proposal[][] = [];
+  /** Own messages sent in epochs that a rollback could still abandon, by epoch */
+  #unconfirmedRumors = new Map<bigint, { rumor: Rumor; eventId: string }[]>();
+  /** Own messages of rolled back epochs, waiting to be sent again */
+  #lostRumors: Rumor[] = [];
+  /** Outgoing messages that are queued or failed by event id, oldest first */
+  #outbox = new Map<string, OutboxMessage>();
+  /** Whether the outgoing messages have been loaded from the store */
+  #outboxLoaded = false;
+  /** Ids of outgoing messages that are being published */
+  #outboxPublishing = new Set<string>();
+  /** The timer for the next publish attempt of queued messages */
+  #outboxTimer?: ReturnType<typeof setTimeout>;
+  #autoCommitPolicy?: AutoCommitPolicy;
+  /** The pending auto-commit timer */
+  #autoCommitTimer?: ReturnType<typeof setTimeout>;
+  /** The number of ingest calls in progress */
+  #ingesting = 0;
 
   get id() {
     return this.state.groupContext.groupId;
@@ -213,6 +626,24 @@ export class MarmotGroup<
   get unappliedProposals() {
     return this.state.unappliedProposals;
   }
+  /** The commits sent by the local member that could still lose to a competing commit */
+  get pendingCommits(): NostrEvent[] {
+    return Array.from(this.#unconfirmedCommits.values())
+      .filter((commit) => commit.proposals)
+      .map((commit) => commit.event);
+  }
+  /** The outgoing messages that are queued or failed, oldest first */
+  get outbox(): OutboxMessage[] {
+    return Array.from(this.#outbox.values());
+  }
+  /** The events waiting for the group to reach their epoch */
+  get pendingEvents(): PendingGroupEvent[] {
+    return Array.from(this.#pendingEvents.values());
+  }
+  /** The rule used to pick a new admin once none of the listed admins is a member, undefined if the group has none */
+  get adminSuccessionRule(): AdminSuccessionRule | undefined {
+    return getAdminSuccessionRule(this.state.groupContext.extensions);
+  }
 
   /**
    * Overrides the current group state
@@ -222,10 +653,90 @@ export class MarmotGroup<
     // Read new group data from the state
     this.#groupData = extractMarmotGroupData(newState);
 
+    // Derive the secrets of the previous epoch so its state does not have to be kept,
+    // and forget the secrets of epochs outside the retention window
+    const epoch = this.#state.groupContext.epoch;
+    if (newState.groupContext.epoch !== epoch) {
+      const deriving = this.derivePastEpochSecrets(this.#state);
+      deriving.catch(() => {});
+      this.#derivingEpochSecrets.set(epoch, deriving);
+      newState = pruneHistoricalReceiverData(newState, this.epochRetention);
+
+      // Commits outside the retention window can no longer be rolled back
+      const oldest = newState.groupContext.epoch - BigInt(this.epochRetention);
+      for (const commitEpoch of this.#unconfirmedCommits.keys()) {
+        if (commitEpoch < oldest) this.#unconfirmedCommits.delete(commitEpoch);
+      }
+      this.pruneUnconfirmedRumors();
+      const oldestSecrets =
+        newState.groupContext.epoch -
+        BigInt(Math.max(this.epochRetention, this.mediaKeyRetention));
+      for (const pastEpoch of this.#derivingEpochSecrets.keys()) {
+        if (pastEpoch < oldestSecrets) this.discardPastEpochSecrets(pastEpoch);
+      }
+      prunePastEpochKeys(
+        this.#pastMediaSecrets,
+        newState.groupContext.epoch,
+        this.mediaKeyRetention,
+      );
+    }
+
     // Set new state and mark as dirty
+    const previous = this.#state;
     this.#state = newState;
     this.dirty = true;
-    this.emit("stateChanged", newState);
+
+    // The state is already applied, so a failing listener must not fail the ingest or commit that set it
+    try {
+      this.emit("stateChanged", newState);
+      for (const change of getGroupStateChanges(previous, newState))
+        this.emitChange(change);
+    } catch (error) {
+      console.warn("[MarmotGroup] State change listener failed:", error);
+    }
+  }
+
+  /** Emits a high level change under its own name and as a `change` event */
+  private emitChange(change: MarmotGroupChange) {
+    // Narrow the change so each event is emitted with its own change type
+    switch (change.type) {
+      case "memberAdded":
+        this.emit(change.type, change);
+        break;
+      case "memberRemoved":
+        this.emit(change.type, change);
+        break;
+      case "selfRemoved":
+        this.emit(change.type, change);
+        break;
+      case "metadataChanged":
+        this.emit(change.type, change);
+        break;
+      case "adminsChanged":
+        this.emit(change.type, change);
+        break;
+      case "epochAdvanced":
+        this.emit(change.type, change);
+        break;
+      case "proposalReceived":
+        this.emit(change.type, change);
+        break;
+      case "commitRejected":
+        this.emit(change.type, change);
+        break;
+      case "commitRolledBack":
+        this.emit(change.type, change);
+        break;
+      case "eventDropped":
+        this.emit(change.type, change);
+        break;
+      case "applicationRumor":
+        this.emit(change.type, change);
+        break;
+      default:
+        change satisfies never;
+    }
+    this.emit("change", change);
   }
 
   // Common accessors for marmot group data
@@ -240,6 +751,32 @@ export class MarmotGroup<
     this.signer = options.signer;
     this.ciphersuite = options.ciphersuite;
     this.network = options.network;
+    this.blobStore = options.blobStore;
+    this.mediaKeyStore = options.mediaKeyStore;
+    this.autoCommitLeaves = options.autoCommitLeaves ?? true;
+    this.epochRetention = options.epochRetention ?? DEFAULT_EPOCH_RETENTION;
+    this.mediaKeyRetention = options.mediaKeyRetention ?? this.epochRetention;
+    this.#clientConfig = createEpochRetentionClientConfig(this.epochRetention);
+    this.#pastEpochKeys = options.pastEpochKeys ?? new Map();
+    this.pendingEventStore = options.pendingEventStore;
+    this.maxPendingEpochs = options.maxPendingEpochs ?? 16;
+    this.processedEventStore = options.processedEventStore;
+    this.maxProcessedEvents = options.maxProcessedEvents ?? 10_000;
+    this.outboxStore = options.outboxStore;
+    this.maxOutboxAttempts = options.maxOutboxAttempts ?? 8;
+    this.outboxRetryDelay = options.outboxRetryDelay ?? 1000;
+    this.keyPackageValidator =
+      options.keyPackageValidator ?? new KeyPackageValidator();
+    prunePastEpochKeys(
+      this.#pastEpochKeys,
+      state.groupContext.epoch,
+      this.epochRetention,
+    );
+    this.inbox = new ProposalInbox(this);
+    this.#autoCommitPolicy = options.autoCommitPolicy;
+
+    // Restart the auto-commit delay whenever the pending proposals change
+    this.inbox.on("changed", () => this.scheduleAutoCommit());
 
     // Create the history store (optional)
     if (options.history) {
@@ -279,13 +816,127 @@ export class MarmotGroup<
   async save() {
     if (!this.dirty) return;
 
+    // Store the NIP-44 keys of recent epochs with the state so late messages stay readable
+    await this.retainPastEpochKeys();
+
     // Import serializeClientState dynamically to avoid circular dependencies
-    const stateBytes = serializeClientState(this.state);
+    const stateBytes = serializeClientState(this.state, this.#pastEpochKeys);
     await this.stateStore.set(this.id, stateBytes);
+    await this.stateStore.completeTransition(this.id);
     this.dirty = false;
+
+    // Hand the media secrets over to the store so attachments from past epochs can still be decrypted,
+    // and drop the stored ones that fell out of the retention window
+    if (this.mediaKeyStore) {
+      for (const [epoch, secret] of this.#pastMediaSecrets) {
+        await this.mediaKeyStore.set(this.id, epoch, secret);
+        this.#pastMediaSecrets.delete(epoch);
+      }
+      await this.mediaKeyStore.prune(
+        this.id,
+        this.state.groupContext.epoch,
+        this.mediaKeyRetention,
+      );
+    }
+
     this.emit("stateSaved", this);
   }
 
+  /** Derives the secrets of a past epoch that are needed after the group moved on */
+  private async derivePastEpochSecrets(
+    state: ClientState,
+  ): Promise<PastEpochSecrets> {
+    const [nip44, media] = await Promise.all([
+      getExporterSecretForNip44(state, this.ciphersuite),
+      getMediaExporterSecret(state, this.ciphersuite),
+    ]);
+    return { nip44, media };
+  }
+
+  /** Forgets a past epoch whose secrets are still being derived and zeroes them once they are */
+  private discardPastEpochSecrets(epoch: bigint) {
+    const deriving = this.#derivingEpochSecrets.get(epoch);
+    if (!deriving) return;
+    this.#derivingEpochSecrets.delete(epoch);
+    deriving.then(
+      ({ nip44, media }) => {
+        nip44.fill(0);
+        media.fill(0);
+      },
+      () => {},
+    );
+  }
+
+  /** Collects the derived secrets of epochs the group has moved past and drops the ones outside the retention window */
+  private async retainPastEpochKeys() {
+    for (const [pastEpoch, deriving] of this.#derivingEpochSecrets) {
+      const { nip44, media } = await deriving;
+      // Another caller collected the secrets or the epoch was discarded meanwhile
+      if (this.#derivingEpochSecrets.get(pastEpoch) !== deriving) continue;
+      this.#derivingEpochSecrets.delete(pastEpoch);
+
+      if (this.#pastEpochKeys.has(pastEpoch)) nip44.fill(0);
+      else this.#pastEpochKeys.set(pastEpoch, nip44);
+      this.#pastMediaSecrets.set(pastEpoch, media);
+    }
+
+    const epoch = this.state.groupContext.epoch;
+    prunePastEpochKeys(this.#pastEpochKeys, epoch, this.epochRetention);
+    prunePastEpochKeys(this.#pastMediaSecrets, epoch, this.mediaKeyRetention);
+  }
+
+  /**
+   * Records a state transition in the write-ahead journal before its side effects happen,
+   * so the client can replay or roll it back if the process stops before {@link save}
+   */
+  private async journalTransition(
+    reason: GroupStateTransition["reason"],
+    eventIds: string[],
+    state: ClientState,
+    confirmed: boolean,
+    welcomes?: PendingWelcomes,
+  ) {
+    await this.retainPastEpochKeys();
+
+    // The transition may move past the current epoch, keep its key as well
+    const keys: PastEpochKeys = new Map(this.#pastEpochKeys);
+    const epoch = this.state.groupContext.epoch;
+    if (state.groupContext.epoch !== epoch)
+      keys.set(
+        epoch,
+        await getExporterSecretForNip44(this.state, this.ciphersuite),
+      );
+    const oldest = state.groupContext.epoch - BigInt(this.epochRetention);
+    for (const pastEpoch of keys.keys()) {
+      if (pastEpoch < oldest) keys.delete(pastEpoch);
+    }
+
+    await this.stateStore.beginTransition(this.id, {
+      reason,
+      eventIds,
+      stateBytes: serializeClientState(state, keys),
+      confirmed,
+      createdAt: unixNow(),
+      welcomes,
+    });
+  }
+
+  /** Publishes a commit that was journaled, discarding the journal entry when no relay received it */
+  private async publishJournaledCommit(
+    commitEvent: NostrEvent,
+  ): Promise<Record<string, PublishResponse>> {
+    try {
+      const response = await this.publish(commitEvent);
+      if (!hasAck(response))
+        throw new NoRelayReceivedEventError(commitEvent.id);
+      await this.stateStore.confirmTransition(this.id);
+      return response;
+    } catch (error) {
+      await this.stateStore.rollbackTransition(this.id);
+      throw error;
+    }
+  }
+
   /** Publish an event to the group relays */
   async publish(event: NostrEvent): Promise<Record<string, PublishResponse>> {
     const relays = this.relays;
@@ -379,12 +1030,28 @@ export class MarmotGroup<
    * reactions, etc.). The inner Nostr event (rumor) must be unsigned and will be serialized
    * according to the Marmot spec.
    *
+   * The advanced ratchet and the encrypted event are saved to the {@link outbox} before
+   * publishing. If no relay acknowledges the event it stays queued and is published again
+   * with backoff, so a retry never reuses the same ratchet generation for other content.
+   *
    * @param rumor - The unsigned Nostr event (rumor) to send as an application message
-   * @returns Promise resolving to the publish response from the relays
+   * @param options.attachments - Media uploaded with {@link uploadAttachment} to attach to the rumor as `imeta` tags
+   * @returns Promise resolving to the publish response from the relays of the first attempt
    */
   async sendApplicationRumor(
     rumor: Rumor,
+    options?: { attachments?: MediaAttachment[] },
   ): Promise<Record<string, PublishResponse>> {
+    // Attach media and recalculate the rumor id
+    if (options?.attachments?.length) {
+      const tags = [
+        ...rumor.tags,
+        ...options.attachments.map(createMediaImetaTag),
+      ];
+      rumor = { ...rumor, tags, id: "" };
+      rumor.id = getEventHash(rumor);
+    }
+
     // Serialize the Nostr event (rumor) to application data according to the Marmot spec
     const applicationData = serializeApplicationRumor(rumor);
 
@@ -411,17 +1078,59 @@ export class MarmotGroup<
       ciphersuite: this.ciphersuite,
     });
 
-    // Publish to the group's relays
-    const response = await this.publish(applicationEvent);
-    if (!hasAck(response)) {
-      throw new NoRelayReceivedEventError(applicationEvent.id);
-    }
-
-    // Update the group state after successful publish
+    // Persist the ratchet advance and the encrypted event before publishing
     // Application messages update state for forward secrecy (key schedule rotation)
     this.state = newState;
+    await this.save();
+    await this.recordProcessedEvents(
+      new Map([[applicationEvent.id, "processed"]]),
+    );
+    const queued = await this.queueOutboxMessage(applicationEvent, rumor.id);
+
+    // Keep the rumor while a rollback could abandon the epoch it was sent in
+    if (this.#unconfirmedCommits.size > 0) {
+      const epoch = this.state.groupContext.epoch;
+      const sent = this.#unconfirmedRumors.get(epoch) ?? [];
+      sent.push({ rumor, eventId: applicationEvent.id });
+      this.#unconfirmedRumors.set(epoch, sent);
+    }
 
-    return response;
+    // Publish to the group's relays, failed attempts are retried from the outbox
+    return await this.publishOutboxMessage(queued);
+  }
+
+  /** Publishes all queued messages of the {@link outbox} right away, ignoring their backoff delay */
+  async flushOutbox(): Promise<void> {
+    await this.loadOutbox();
+    await this.publishQueuedMessages(true);
+  }
+
+  /**
+   * Queues a failed message of the {@link outbox} again and publishes it.
+   *
+   * @param eventId - The id of the encrypted group event
+   * @returns The publish response from the relays
+   */
+  async retryOutboxMessage(
+    eventId: string,
+  ): Promise<Record<string, PublishResponse>> {
+    await this.loadOutbox();
+    const message = this.#outbox.get(eventId);
+    if (!message) throw new Error(`Message ${eventId} is not in the outbox`);
+
+    return await this.publishOutboxMessage({
+      ...message,
+      status: "queued",
+      attempts: 0,
+    });
+  }
+
+  /** Removes a queued or failed message from the {@link outbox} without publishing it */
+  async discardOutboxMessage(eventId: string): Promise<void> {
+    await this.loadOutbox();
+    this.#outbox.delete(eventId);
+    if (this.outboxStore) await this.outboxStore.remove(this.id, eventId);
+    this.scheduleOutboxRetry();
   }
 
   /**
@@ -437,8 +1146,9 @@ export class MarmotGroup<
    *
    * @param options - Options for creating the commit
    * @param options.extraProposals - New proposals to include in the commit (inline)
-   * @param options.proposalRefs - Proposal references (hex strings) to select from unappliedProposals
-   * @param options.welcomeRecipients - Explicit list of users to send Welcome messages to (for Add operations)
+   * @param options.proposalRefs - Proposal references (keys of unappliedProposals) to commit, other unapplied proposals are left out
+   * @param options.welcomeRecipients - Explicit list of users to send Welcome messages to (for Add operations).
+   * Members added by the commit who are not listed here get a Welcome automatically, with their key package event looked up on the network
    */
   async commit(options?: {
     extraProposals?: (
@@ -449,14 +1159,20 @@ export class MarmotGroup<
     proposalRefs?: string[];
     welcomeRecipients?: WelcomeRecipient[];
   }): Promise<Record<string, PublishResponse>> {
+    const { response } = await this.commitWithWelcomes(options);
+    return response;
+  }
+
+  /** Creates and publishes a commit like {@link commit}, returning how the Welcomes were delivered */
+  private async commitWithWelcomes(
+    options?: Parameters<MarmotGroup<THistory>["commit"]>[0],
+  ): Promise<{
+    response: Record<string, PublishResponse>;
+    welcomes: WelcomeDelivery[];
+  }> {
     const groupData = this.groupData;
     if (!groupData) throw new NoMarmotGroupDataError();
 
-    const actorPubkey = await this.signer.getPublicKey();
-    if (!groupData.adminPubkeys.includes(actorPubkey)) {
-      throw new Error("Not a group admin. Cannot commit proposals.");
-    }
-
     const context: ProposalContext = {
       state: this.state,
       ciphersuite: this.ciphersuite,
@@ -480,9 +1196,11 @@ export class MarmotGroup<
       }
     }
 
-    // Extract proposals from unappliedProposals using the provided references
-    const selectedProposals: Proposal[] = [];
+    // createCommit includes every proposal in unappliedProposals by reference,
+    // so narrow them down to the selected references
+    let state = this.state;
     if (options?.proposalRefs) {
+      const unappliedProposals: ClientState["unappliedProposals"] = {};
       for (const ref of options.proposalRefs) {
         const proposalWithSender = this.state.unappliedProposals[ref];
         if (!proposalWithSender) {
@@ -490,12 +1208,30 @@ export class MarmotGroup<
             `Proposal reference not found in unappliedProposals: ${ref}`,
           );
         }
-        selectedProposals.push(proposalWithSender.proposal);
+        unappliedProposals[ref] = proposalWithSender;
       }
+      state = { ...this.state, unappliedProposals };
     }
 
-    // Combine new proposals with selected proposals from unappliedProposals
-    const allProposals = [...newProposals, ...selectedProposals];
+    // Inline proposals are sent by the committer
+    const proposals: ProposalWithSender[] = [
+      ...newProposals.map((proposal) => ({
+        proposal,
+        senderLeafIndex: this.state.privatePath.leafIndex,
+      })),
+      ...Object.values(state.unappliedProposals),
+    ];
+
+    // Refuse to publish a commit that receivers would reject
+    const actorPubkey = await this.signer.getPublicKey();
+    if (!this.canCommit(actorPubkey, proposals)) {
+      throw new Error("Not a group admin. Cannot commit proposals.");
+    }
+    assertCommitKeepsAdmins(
+      state.ratchetTree,
+      groupData.adminPubkeys,
+      proposals.map((p) => p.proposal),
+    );
 
     // Build options for createCommit
     const commitOptions: CreateCommitOptions = {
@@ -506,8 +1242,8 @@ export class MarmotGroup<
 
     // Only use extraProposals if we have proposals to include
     // Otherwise, createCommit will use ALL proposals from state.unappliedProposals
-    if (allProposals.length > 0) {
-      commitOptions.extraProposals = allProposals;
+    if (newProposals.length > 0) {
+      commitOptions.extraProposals = newProposals;
     }
 
     // Create the commit
@@ -516,8 +1252,9 @@ export class MarmotGroup<
       context: {
         cipherSuite: this.ciphersuite,
         authService: marmotAuthService,
+        clientConfig: this.#clientConfig,
       },
-      state: this.state,
+      state,
       ...commitOptions,
     });
 
@@ -530,154 +1267,317 @@ export class MarmotGroup<
       ciphersuite: this.ciphersuite,
     });
 
+    // Work out who needs a Welcome for the members added by the commit
+    // In v2, welcome is wrapped in MlsWelcomeMessage, need to access welcome.welcome
+    const innerWelcome = welcome?.welcome;
+    const welcomeRecipients = innerWelcome
+      ? await this.getWelcomeRecipients(
+          proposals.map((p) => p.proposal),
+          options?.welcomeRecipients,
+        )
+      : [];
+    const pendingWelcomes: PendingWelcomes | undefined =
+      innerWelcome && welcomeRecipients.length > 0
+        ? {
+            commitEventId: commitEvent.id,
+            welcome: encode(welcomeEncoder, innerWelcome),
+            groupRelays: groupData.relays,
+            recipients: welcomeRecipients,
+          }
+        : undefined;
+
     // Publish to the group's relays
     // MIP-02 REQUIRES: Commit MUST be published and acknowledged by relays BEFORE sending Welcome messages.
     // This ordering is critical for protocol correctness - new members must be able to fetch the commit
     // that added them before processing their Welcome.
-    const response = await this.publish(commitEvent);
-    if (!hasAck(response)) throw new NoRelayReceivedEventError(commitEvent.id);
-
-    // Update the group state after successful publish
+    // The new state and the Welcomes are journaled first so a crash after publishing loses neither.
+    await this.journalTransition(
+      "commit",
+      [commitEvent.id],
+      newState,
+      false,
+      pendingWelcomes,
+    );
+    const response = await this.publishJournaledCommit(commitEvent);
+
+    // Update the group state after successful publish, keeping the previous state
+    // until the commit is confirmed in case a competing commit wins the epoch
+    this.#unconfirmedCommits.set(this.state.groupContext.epoch, {
+      event: commitEvent,
+      previousState: this.state,
+      proposals: newProposals,
+    });
     this.state = newState;
 
     // Persist local-authoritative epoch transition immediately.
     await this.save();
+    await this.recordProcessedEvents(new Map([[commitEvent.id, "processed"]]));
 
     // If new users were added, send welcome events
     // The commit has been published and acked, so it's safe to send Welcomes now (MIP-02 compliance)
-    if (
-      welcome &&
-      options?.welcomeRecipients &&
-      options.welcomeRecipients.length > 0
-    ) {
+    if (!pendingWelcomes) return { response, welcomes: [] };
+    const welcomes = await this.sendWelcomes(innerWelcome!, pendingWelcomes);
+    return { response, welcomes };
+  }
+
+  /**
+   * Sends the Welcomes of commits that were published right before the process stopped.
+   * The client calls this when it loads a group.
+   *
+   * @returns The outcome of each Welcome that was sent
+   */
+  async sendPendingWelcomes(): Promise<WelcomeDelivery[]> {
+    const deliveries: WelcomeDelivery[] = [];
+    for (const pending of await this.stateStore.getPendingWelcomes(this.id)) {
+      const welcome = decode(welcomeDecoder, pending.welcome);
+      if (!welcome) {
+        await this.stateStore.completeWelcomes(this.id, pending.commitEventId);
+        continue;
+      }
+      deliveries.push(...(await this.sendWelcomes(welcome, pending)));
+    }
+    return deliveries;
+  }
+
+  /** Sends the Welcome of a commit to all its recipients in parallel and removes it from the journal */
+  private async sendWelcomes(
+    welcome: Welcome,
+    pending: PendingWelcomes,
+  ): Promise<WelcomeDelivery[]> {
+    console.log(
+      `[MarmotGroup.commit] Sending Welcome messages to ${pending.recipients.length} recipient(s)`,
+    );
+
+    const actorPubkey = await this.signer.getPublicKey();
+    const welcomes = await Promise.all(
+      pending.recipients.map(async (recipient): Promise<WelcomeDelivery> => {
+        try {
+          return await this.sendWelcome(
+            welcome,
+            recipient,
+            actorPubkey,
+            pending.groupRelays,
+          );
+        } catch (error) {
+          console.error(
+            `[MarmotGroup.commit] Failed to send Welcome to ${recipient.pubkey.slice(0, 16)}...:`,
+            error,
+          );
+          return {
+            pubkey: recipient.pubkey,
+            relays: [],
+            delivered: false,
+            error: (error as Error).message,
+          };
+        }
+      }),
+    );
+
+    await this.stateStore.completeWelcomes(this.id, pending.commitEventId);
+    return welcomes;
+  }
+
+  /** Gift wraps a Welcome to a recipient and publishes it to their inbox relays */
+  private async sendWelcome(
+    welcome: Welcome,
+    recipient: WelcomeRecipient,
+    actorPubkey: string,
+    groupRelays: string[],
+  ): Promise<WelcomeDelivery> {
+    const welcomeRumor = createWelcomeRumor({
+      welcome,
+      author: actorPubkey,
+      groupRelays,
+      keyPackageEventId: recipient.keyPackageEventId,
+    });
+
+    // Gift wrap the welcome event to the newly added user
+    const giftWrapEvent = await createGiftWrap({
+      rumor: welcomeRumor,
+      recipient: recipient.pubkey,
+      signer: this.signer,
+    });
+
+    // Get the newly added user's inbox relays using the GroupNostrInterface
+    // Fallback to group relays if inbox relays are not available
+    let inboxRelays: string[];
+    try {
+      inboxRelays = await this.network.getUserInboxRelays(recipient.pubkey);
       console.log(
-        `[MarmotGroup.commit] Sending Welcome messages to ${options.welcomeRecipients.length} recipient(s)`,
+        `[MarmotGroup.commit] Retrieved inbox relays for recipient:`,
+        inboxRelays,
+      );
+    } catch (error) {
+      console.warn(
+        `[MarmotGroup.commit] Failed to get inbox relays for recipient ${recipient.pubkey.slice(
+          0,
+          16,
+        )}...:`,
+        error,
+      );
+      // Fallback to group relays
+      inboxRelays = groupRelays || [];
+    }
+
+    if (inboxRelays.length === 0) {
+      console.warn(
+        `No relays available to send Welcome to recipient ${recipient.pubkey.slice(
+          0,
+          16,
+        )}...`,
       );
+      return {
+        pubkey: recipient.pubkey,
+        relays: inboxRelays,
+        delivered: false,
+        error: "No relays available to send the Welcome to",
+      };
+    }
 
-      // Send all welcome events in parallel
-      // In v2, welcome is wrapped in MlsWelcomeMessage, need to access welcome.welcome
-      const innerWelcome = welcome?.welcome;
-      if (!innerWelcome) return response;
+    let publishResult = await this.network.publish(inboxRelays, giftWrapEvent);
 
-      await Promise.allSettled(
-        options.welcomeRecipients.map(async (recipient) => {
-          const welcomeRumor = createWelcomeRumor({
-            welcome: innerWelcome,
-            author: actorPubkey,
-            groupRelays: groupData.relays,
-            keyPackageEventId: recipient.keyPackageEventId,
-          });
+    if (!hasAck(publishResult)) {
+      // Single retry — relay may have been transiently unavailable
+      console.warn(
+        `[MarmotGroup.commit] Welcome publish to ${recipient.pubkey.slice(0, 16)}... got no relay ack, retrying...`,
+      );
+      publishResult = await this.network.publish(inboxRelays, giftWrapEvent);
+    }
 
-          // Gift wrap the welcome event to the newly added user
-          const giftWrapEvent = await createGiftWrap({
-            rumor: welcomeRumor,
-            recipient: recipient.pubkey,
-            signer: this.signer,
-          });
+    if (!hasAck(publishResult)) {
+      console.error(
+        `[MarmotGroup.commit] Welcome publish to ${recipient.pubkey.slice(0, 16)}... failed after retry — recipient may not receive invitation`,
+      );
+      this.emit("welcomePublishFailed", {
+        recipientPubkey: recipient.pubkey,
+        relays: inboxRelays,
+      });
+      return {
+        pubkey: recipient.pubkey,
+        relays: inboxRelays,
+        delivered: false,
+        error: "No relay acknowledged the Welcome",
+      };
+    }
 
-          // Get the newly added user's inbox relays using the GroupNostrInterface
-          // Fallback to group relays if inbox relays are not available
-          let inboxRelays: string[];
-          try {
-            inboxRelays = await this.network.getUserInboxRelays(
-              recipient.pubkey,
-            );
-            console.log(
-              `[MarmotGroup.commit] Retrieved inbox relays for recipient:`,
-              inboxRelays,
-            );
-          } catch (error) {
-            console.warn(
-              `[MarmotGroup.commit] Failed to get inbox relays for recipient ${recipient.pubkey.slice(
-                0,
-                16,
-              )}...:`,
-              error,
-            );
-            // Fallback to group relays
-            inboxRelays = groupData.relays || [];
-          }
+    console.log(
+      `[MarmotGroup.commit] Welcome published for ${recipient.pubkey.slice(0, 16)}...`,
+    );
+    return { pubkey: recipient.pubkey, relays: inboxRelays, delivered: true };
+  }
 
-          if (inboxRelays.length === 0) {
-            console.warn(
-              `No relays available to send Welcome to recipient ${recipient.pubkey.slice(
-                0,
-                16,
-              )}...`,
-            );
-            return;
-          }
+  /**
+   * Works out who needs a Welcome for the members added by a commit.
+   * Explicit recipients are kept as is, every other added key package gets a recipient
+   * with its key package event id looked up on the network.
+   */
+  private async getWelcomeRecipients(
+    proposals: Proposal[],
+    explicit: WelcomeRecipient[] = [],
+  ): Promise<WelcomeRecipient[]> {
+    const recipients = [...explicit];
 
-          let publishResult = await this.network.publish(
-            inboxRelays,
-            giftWrapEvent,
-          );
+    for (const proposal of proposals) {
+      if (
+        proposal.proposalType !== defaultProposalTypes.add ||
+        !("add" in proposal)
+      )
+        continue;
 
-          if (!hasAck(publishResult)) {
-            // Single retry — relay may have been transiently unavailable
-            console.warn(
-              `[MarmotGroup.commit] Welcome publish to ${recipient.pubkey.slice(0, 16)}... got no relay ack, retrying...`,
-            );
-            publishResult = await this.network.publish(
-              inboxRelays,
-              giftWrapEvent,
-            );
-          }
+      const { keyPackage } = proposal.add;
+      const pubkey = getCredentialPubkey(keyPackage.leafNode.credential);
+      if (explicit.some((r) => r.pubkey === pubkey)) continue;
 
-          if (!hasAck(publishResult)) {
-            console.error(
-              `[MarmotGroup.commit] Welcome publish to ${recipient.pubkey.slice(0, 16)}... failed after retry — recipient may not receive invitation`,
-            );
-            this.emit('welcomePublishFailed', {
-              recipientPubkey: recipient.pubkey,
-              relays: inboxRelays,
-            });
-          } else {
-            console.log(
-              `[MarmotGroup.commit] Welcome published for ${recipient.pubkey.slice(0, 16)}...`,
-            );
-          }
-        }),
+      recipients.push({
+        pubkey,
+        keyPackageEventId: await this.findKeyPackageEventId(pubkey, keyPackage),
+      });
+    }
+
+    return recipients;
+  }
+
+  /** Looks up the id of the kind 443 event a key package was published in */
+  private async findKeyPackageEventId(
+    pubkey: string,
+    keyPackage: KeyPackage,
+  ): Promise<string | undefined> {
+    let relays = this.relays ?? [];
+    try {
+      const inboxRelays = await this.network.getUserInboxRelays(pubkey);
+      relays = Array.from(new Set([...inboxRelays, ...relays]));
+    } catch {
+      // Fallback to group relays
+    }
+    if (relays.length === 0) return undefined;
+
+    try {
+      const ref = bytesToHex(
+        await makeKeyPackageRef(keyPackage, this.ciphersuite.hash),
+      );
+      const events = await this.network.request(relays, {
+        kinds: [KEY_PACKAGE_KIND],
+        authors: [pubkey],
+      });
+
+      for (const event of events) {
+        try {
+          const candidate = getKeyPackage(event);
+          if (
+            bytesToHex(
+              await makeKeyPackageRef(candidate, this.ciphersuite.hash),
+            ) === ref
+          )
+            return event.id;
+        } catch {
+          // Skip malformed key package events
+        }
+      }
+    } catch (error) {
+      console.warn(
+        `[MarmotGroup.commit] Failed to look up key package event for ${pubkey.slice(0, 16)}...:`,
+        error,
       );
     }
 
-    return response;
+    return undefined;
+  }
+
+  /**
+   * Finds the best key package of a user that can be used to add them to this group
+   *
+   * @param pubkey - The public key (hex string) of the user
+   * @returns The selected key package and the validation report of every key package found
+   */
+  async findKeyPackage(pubkey: string): Promise<KeyPackageDiscovery> {
+    return await discoverKeyPackage(this.network, pubkey, {
+      group: this.state.groupContext,
+      validator: this.keyPackageValidator,
+    });
   }
 
   /**
    * Invites a user to the group using their KeyPackage event (kind 443).
    *
    * This method:
-   * 1. Validates the KeyPackage event (kind 443)
-   * 2. Validates that the credential identity matches the event pubkey
-   * 3. Builds an Add proposal using the KeyPackage
-   * 4. Commits the proposal
-   * 5. After commit ack, sends a Welcome message to the invitee via NIP-59 gift wrap
+   * 1. Validates the KeyPackage event with the {@link keyPackageValidator}
+   * 2. Builds an Add proposal using the KeyPackage
+   * 3. Commits the proposal
+   * 4. After commit ack, sends a Welcome message to the invitee via NIP-59 gift wrap
    *
    * @param keyPackageEvent - The KeyPackage event (kind 443) for the user to invite
    * @returns Promise resolving to the publish response from the relays
-   * @throws Error if the event is not kind 443 or if the credential identity doesn't match
+   * @throws {InvalidKeyPackageError} If the key package fails validation for this group
    */
   async inviteByKeyPackageEvent(
     keyPackageEvent: NostrEvent,
   ): Promise<Record<string, PublishResponse>> {
-    // Validate the event is a KeyPackage event (kind 443)
-    if (keyPackageEvent.kind !== 443) {
-      throw new Error(
-        `inviteByKeyPackageEvent: Expected KeyPackage event kind 443, got ${keyPackageEvent.kind}`,
-      );
-    }
-
-    // Validate that the credential identity matches the event pubkey
-    const keyPackage = getKeyPackage(keyPackageEvent);
-    const credentialIdentity = getCredentialPubkey(
-      keyPackage.leafNode.credential,
+    const report = await this.keyPackageValidator.validate(
+      keyPackageEvent,
+      this.state.groupContext,
     );
-    if (credentialIdentity !== keyPackageEvent.pubkey) {
-      throw new Error(
-        `inviteByKeyPackageEvent: Credential identity ${credentialIdentity} does not match event pubkey ${keyPackageEvent.pubkey}`,
-      );
-    }
+    if (!report.valid)
+      throw new InvalidKeyPackageError(keyPackageEvent.id, report);
 
     // Build the Add proposal using the existing proposeInviteUser function
     const proposalAction = proposeInviteUser(keyPackageEvent);
@@ -695,84 +1595,637 @@ export class MarmotGroup<
   }
 
   /**
-   * Creates an incoming message callback that enforces admin-only commits.
+   * Invites users to the group by their pubkeys.
    *
-   * Per MIP-03, only admins can send commits. This callback:
-   * - Accepts all proposals (they don't require admin privileges)
-   * - For commits, verifies that the sender is in the group's admin list
-   * - Rejects commits from non-admin senders
+   * A validated key package is discovered for each user with {@link findKeyPackage},
+   * everyone who has one is added in a single commit and each of them is sent a Welcome.
+   * Users without a valid key package or who are already members are left out, so one
+   * bad invitee doesn't fail the whole batch.
    *
-   * @returns An IncomingMessageCallback that enforces admin verification
+   * @param pubkeys - The public keys (hex strings) of the users to invite
+   * @returns A result for every distinct pubkey, in the order they were passed
+   * @throws If the commit adding the users could not be published, in which case nobody was added
    */
-  private createAdminVerificationCallback(): IncomingMessageCallback {
-    const groupData = this.groupData;
-    if (!groupData) {
-      // If no group data, we can't verify - accept all (shouldn't happen in normal flow)
-      return acceptAll;
-    }
+  async inviteUsers(pubkeys: string[]): Promise<InviteUserResult[]> {
+    const unique = Array.from(new Set(pubkeys));
+    const members = getGroupMembers(this.state);
+    const results = new Map<string, InviteUserResult>();
+    const invitees: { pubkey: string; keyPackageEvent: NostrEvent }[] = [];
+
+    await Promise.all(
+      unique.map(async (pubkey) => {
+        if (members.includes(pubkey)) {
+          results.set(pubkey, { pubkey, status: "alreadyMember" });
+          return;
+        }
+
+        try {
+          const discovery = await this.findKeyPackage(pubkey);
+          if (discovery.selected)
+            invitees.push({
+              pubkey,
+              keyPackageEvent: discovery.selected.event,
+            });
+          else
+            results.set(pubkey, { pubkey, status: "noKeyPackage", discovery });
+        } catch (error) {
+          results.set(pubkey, {
+            pubkey,
+            status: "noKeyPackage",
+            error: (error as Error).message,
+          });
+        }
+      }),
+    );
+
+    if (invitees.length > 0) {
+      const invited = await this.addKeyPackageEvents(
+        invitees.map(({ keyPackageEvent }) => keyPackageEvent),
+      );
+      for (const result of invited) results.set(result.pubkey, result);
+    }
+
+    return unique.map((pubkey) => results.get(pubkey)!);
+  }
+
+  /**
+   * Adds the users of validated key package events in a single commit and sends each of them a Welcome.
+   *
+   * @param keyPackageEvents - The key package events (kind 443), at most one per user
+   * @returns One `invited` or `welcomeFailed` result per key package event, in the same order
+   * @throws Error if the commit can't be published, in which case nobody was added
+   */
+  async addKeyPackageEvents(
+    keyPackageEvents: NostrEvent[],
+  ): Promise<InviteUserResult[]> {
+    const { welcomes } = await this.commitWithWelcomes({
+      extraProposals: keyPackageEvents.map((event) => proposeInviteUser(event)),
+      welcomeRecipients: keyPackageEvents.map((event) => ({
+        pubkey: event.pubkey,
+        keyPackageEventId: event.id,
+      })),
+    });
+
+    return keyPackageEvents.map((keyPackageEvent): InviteUserResult => {
+      const { pubkey } = keyPackageEvent;
+      // No delivery means the commit produced no Welcome for the user
+      const delivery = welcomes.find((w) => w.pubkey === pubkey) ?? {
+        pubkey,
+        relays: [],
+        delivered: false,
+        error: "No Welcome was produced for the user",
+      };
+      return delivery.delivered
+        ? { pubkey, status: "invited", keyPackageEvent }
+        : { pubkey, status: "welcomeFailed", keyPackageEvent, delivery };
+    });
+  }
+
+  /**
+   * Commits a fresh update path for the local leaf (a "self-update").
+   *
+   * This replaces the leaf's HPKE encryption key and every path secret up to the
+   * root, so a leaked device key can no longer decrypt future epochs
+   * (post-compromise security). Pending proposals are left out of the commit, so
+   * any member may send it (MIP-03 only restricts commits carrying proposals).
+   * The leaf also gets a fresh signature key, so a leaked signing key can no
+   * longer be used to impersonate the member in later epochs.
+   *
+   * @returns Promise resolving to the publish response from the relays
+   */
+  async selfUpdate(): Promise<Record<string, PublishResponse>> {
+    // Create a commit without proposals, which forces an update path
+    const { commit, newState } = await createSelfUpdateCommit({
+      context: {
+        cipherSuite: this.ciphersuite,
+        authService: marmotAuthService,
+        clientConfig: this.#clientConfig,
+      },
+      state: this.state,
+    });
+
+    // Use this.state (not newState) so members at the current epoch can decrypt the commit
+    const commitEvent = await createGroupEvent({
+      message: commit,
+      state: this.state,
+      ciphersuite: this.ciphersuite,
+    });
+
+    await this.journalTransition("commit", [commitEvent.id], newState, false);
+    const response = await this.publishJournaledCommit(commitEvent);
+
+    this.#unconfirmedCommits.set(this.state.groupContext.epoch, {
+      event: commitEvent,
+      previousState: this.state,
+      proposals: [],
+    });
+    this.state = newState;
+    this.emit("selfUpdated", newState.groupContext.epoch);
+    await this.save();
+    await this.recordProcessedEvents(new Map([[commitEvent.id, "processed"]]));
+
+    return response;
+  }
+
+  /**
+   * Leaves the group by proposing the removal of the local leaf.
+   *
+   * A member cannot commit its own removal, so the proposal is committed by an
+   * admin (admins do this automatically after the jittered auto-commit delay unless
+   * {@link autoCommitLeaves} is disabled). When the last admin leaves a group that
+   * carries an {@link adminSuccessionRule}, the member picked by the rule commits
+   * the removal and becomes admin. Once the removal commit is ingested the group emits `left`
+   * and is destroyed locally.
+   *
+   * @param options.message - An optional goodbye message sent as a chat rumor before the proposal
+   * @returns Promise resolving to the publish response of the proposal
+   */
+  async leave(options?: {
+    message?: string;
+  }): Promise<Record<string, PublishResponse>> {
+    if (options?.message) {
+      const rumor: Rumor = {
+        id: "",
+        kind: 9,
+        pubkey: await this.signer.getPublicKey(),
+        created_at: unixNow(),
+        content: options.message,
+        tags: [],
+      };
+      rumor.id = getEventHash(rumor);
+      await this.sendApplicationRumor(rumor);
+    }
+
+    const response = await this.propose(proposeLeaveGroup());
+    if (!hasAck(response)) throw new Error("No relay received leave proposal");
+
+    return response;
+  }
+
+  /**
+   * Votes to let the successor picked by the group's {@link adminSuccessionRule} become admin
+   * while the listed admins are still members, for example when the last admin lost their device
+   * and their leaf stays in the tree. Once more than half of the members who are not admins
+   * voted, the successor can call {@link takeOverAdmin}.
+   *
+   * @returns Promise resolving to the publish response of the vote commit
+   * @throws Error if the group has no succession rule, or the member is an admin or already voted
+   */
+  async voteAdminTakeover(): Promise<Record<string, PublishResponse>> {
+    const pubkey = await this.signer.getPublicKey();
+
+    // Other pending proposals would make the commit more than a vote
+    return await this.commit({
+      proposalRefs: [],
+      extraProposals: [proposeAdminTakeoverVote(pubkey)],
+    });
+  }
+
+  /**
+   * Adds the local member to the admins once enough members voted with {@link voteAdminTakeover}.
+   * The listed admins stay admins; the takeover votes are cleared.
+   *
+   * @returns Promise resolving to the publish response of the takeover commit
+   * @throws Error if the group has no succession rule or the takeover was not approved for this member
+   */
+  async takeOverAdmin(): Promise<Record<string, PublishResponse>> {
+    const pubkey = await this.signer.getPublicKey();
+    return await this.commit({
+      proposalRefs: [],
+      extraProposals: [proposeAdminTakeover(pubkey)],
+    });
+  }
+
+  /**
+   * Encrypts an image, uploads it to the blob store and commits it as the new group image.
+   *
+   * The image is encrypted with a fresh ChaCha20-Poly1305 key and nonce, and the
+   * hash, key and nonce are committed to the MarmotGroupData extension so every
+   * member can download and decrypt it. Pass `null` to remove the group image.
+   *
+   * @param image - The raw image bytes, or null to remove the current image
+   * @returns Promise resolving to the publish response from the relays
+   * @throws NoBlobStoreError if the group was created without a blob store
+   */
+  async setGroupImage(
+    image: Uint8Array | null,
+  ): Promise<Record<string, PublishResponse>> {
+    if (image === null) {
+      return await this.commit({
+        extraProposals: [
+          proposeUpdateMetadata({
+            imageHash: null,
+            imageKey: null,
+            imageNonce: null,
+          }),
+        ],
+      });
+    }
+
+    if (!this.blobStore) throw new NoBlobStoreError();
+
+    const { data, imageHash, imageKey, imageNonce } = encryptGroupImage(image);
+
+    // Upload the encrypted image before committing so members can always fetch it
+    const blob = await this.blobStore.upload(data);
+    if (blob.sha256 !== bytesToHex(imageHash))
+      throw new Error("Blob store returned a different hash for group image");
+
+    return await this.commit({
+      extraProposals: [
+        proposeUpdateMetadata({ imageHash, imageKey, imageNonce }),
+      ],
+    });
+  }
+
+  /**
+   * Downloads and decrypts the current group image.
+   *
+   * @returns The decrypted image bytes, or null if the group has no image or it could not be found
+   * @throws NoBlobStoreError if the group was created without a blob store
+   */
+  async getGroupImage(): Promise<Uint8Array | null> {
+    const groupData = this.groupData;
+    if (!groupData) throw new NoMarmotGroupDataError();
+    if (!hasGroupImage(groupData)) return null;
+    if (!this.blobStore) throw new NoBlobStoreError();
+
+    const data = await this.blobStore.download(
+      bytesToHex(groupData.imageHash!),
+    );
+    if (!data) return null;
+
+    return decryptGroupImage(data, groupData);
+  }
+
+  /**
+   * Encrypts a file for the current epoch and uploads it to the blob store.
+   *
+   * The file key is derived from the group's MLS exporter secret, so only members
+   * of the current epoch (and members who retained its secret) can decrypt it.
+   * Pass the returned attachment to {@link sendApplicationRumor} to share it.
+   *
+   * @param data - The raw file bytes
+   * @param metadata - The MIME type and file name of the file
+   * @returns The attachment describing the uploaded blob
+   * @throws NoBlobStoreError if the group was created without a blob store
+   */
+  async uploadAttachment(
+    data: Uint8Array,
+    metadata: MediaMetadata,
+  ): Promise<MediaAttachment> {
+    if (!this.blobStore) throw new NoBlobStoreError();
+
+    const epoch = this.state.groupContext.epoch;
+    const secret = await getMediaExporterSecret(this.state, this.ciphersuite);
+    const encrypted = encryptMedia(data, secret, metadata);
+
+    const blob = await this.blobStore.upload(encrypted.data);
+    const hash = bytesToHex(sha256(encrypted.data));
+    if (blob.sha256 !== hash)
+      throw new Error("Blob store returned a different hash for attachment");
+
+    return {
+      url: blob.url ?? hash,
+      sha256: hash,
+      originalSha256: encrypted.originalSha256,
+      nonce: encrypted.nonce,
+      mimeType: metadata.mimeType,
+      filename: metadata.filename,
+      size: data.length,
+      epoch,
+    };
+  }
+
+  /**
+   * Downloads and decrypts a media attachment.
+   *
+   * @param attachment - The attachment parsed from a rumor's `imeta` tag
+   * @returns The decrypted file bytes, or null if the blob could not be found
+   * @throws NoBlobStoreError if the group was created without a blob store
+   * @throws MediaKeyUnavailableError if the secret for the attachment's epoch is not available
+   */
+  async downloadAttachment(
+    attachment: MediaAttachment,
+  ): Promise<Uint8Array | null> {
+    if (!this.blobStore) throw new NoBlobStoreError();
+
+    const secret = await this.getMediaSecret(attachment.epoch);
+    const data = await this.blobStore.download(attachment.sha256);
+    if (!data) return null;
+
+    return decryptMedia(data, secret, attachment);
+  }
+
+  /**
+   * Downloads and decrypts all media attachments on a rumor.
+   *
+   * @param rumor - An application rumor (e.g. loaded from {@link GroupRumorHistory})
+   * @returns The attachments and their decrypted data (null if the blob could not be found)
+   */
+  async downloadAttachments(
+    rumor: Rumor,
+  ): Promise<{ attachment: MediaAttachment; data: Uint8Array | null }[]> {
+    const attachments = getMediaAttachments(rumor);
+    return Promise.all(
+      attachments.map(async (attachment) => ({
+        attachment,
+        data: await this.downloadAttachment(attachment),
+      })),
+    );
+  }
+
+  /** Gets the media exporter secret for an epoch from the current state or the media key store */
+  private async getMediaSecret(epoch: bigint): Promise<Uint8Array> {
+    if (epoch === this.state.groupContext.epoch)
+      return getMediaExporterSecret(this.state, this.ciphersuite);
+
+    await this.retainPastEpochKeys();
+    const pastSecret = this.#pastMediaSecrets.get(epoch);
+    if (pastSecret) return pastSecret.slice();
+
+    const stored = await this.mediaKeyStore?.get(this.id, epoch);
+    if (stored) return stored;
+
+    throw new MediaKeyUnavailableError(epoch);
+  }
+
+  /**
+   * Creates an incoming message callback that enforces admin-only commits.
+   *
+   * Per MIP-03, only admins can send commits. This callback:
+   * - Accepts all proposals (they don't require admin privileges)
+   * - For commits, verifies that the sender is in the group's admin list
+   *   (or is the admin successor when no listed admin remains a member)
+   * - Rejects commits from non-admin senders
+   *
+   * @param onReject - Called with the sender and reason whenever a commit is rejected
+   * @param state - The group state the commits apply to (defaults to the current state)
+   * @returns An IncomingMessageCallback that enforces admin verification
+   */
+  private createAdminVerificationCallback(
+    onReject?: (rejection: { sender?: string; reason: string }) => void,
+    state: ClientState = this.state,
+  ): IncomingMessageCallback {
+    const groupData =
+      state === this.state ? this.groupData : extractMarmotGroupData(state);
+    if (!groupData) {
+      // If no group data, we can't verify - accept all (shouldn't happen in normal flow)
+      return acceptAll;
+    }
 
     return createAdminCommitPolicyCallback({
-      ratchetTree: this.state.ratchetTree,
+      ratchetTree: state.ratchetTree,
       adminPubkeys: groupData.adminPubkeys,
+      groupContextExtensions: state.groupContext.extensions,
       onUnverifiableCommit: "retry",
+      onReject,
     });
   }
 
+  /** Checks if a member may commit a set of proposals, either as an admin or as the successor of the last admins */
+  private canCommit(pubkey: string, proposals: ProposalWithSender[]): boolean {
+    const groupData = this.groupData;
+    if (!groupData) return false;
+
+    const { ratchetTree, groupContext } = this.state;
+    return (
+      getEffectiveAdmins(
+        ratchetTree,
+        groupData.adminPubkeys,
+        this.adminSuccessionRule,
+      ).includes(pubkey) ||
+      isAdminSuccessionCommit(
+        ratchetTree,
+        groupContext.extensions,
+        groupData.adminPubkeys,
+        pubkey,
+        proposals,
+      )
+    );
+  }
+
   /**
    * ingests an array of group messages and applies commits to the group state.
    *
    * Processing happens in two stages:
    * 1. Process all non-commit messages (proposals, application messages)
-   *    - If a message fails to process, it's added to unreadable for retry
+   *    - If a message fails to process, it's added to unreadable
    * 2. Process commits according to MIP-03 (sorted by epoch, timestamp, event id)
    *    - Commits advance the epoch and update the group state
    *
-   * After both stages, recursively retry unreadable messages until no more can be read.
+   * Unreadable events are parked in the group's pending queue and replayed when the
+   * group reaches a new epoch. Events that can never be read are dropped with an
+   * `eventDropped` change. Events that were already handled are skipped.
    *
    * @param events - Array of Nostr events containing encrypted MLS messages
-   * @param options - Options for controlling retry behavior
-   * @param options.retryCount - Current retry attempt count (internal use)
-   * @param options.maxRetries - Maximum number of retry attempts (default: 5)
    * @yields ProcessMessageResult - Either a new state (from commits/proposals) or an application message
+   * @returns The number of events that were processed, skipped, failed or parked
    */
   async *ingest(
     events: NostrEvent[],
-    options?: {
-      retryCount?: number;
-      maxRetries?: number;
-    },
-  ): AsyncGenerator<ProcessMessageResult> {
-    // Set default retry options
-    const retryCount = options?.retryCount ?? 0;
-    const maxRetries = options?.maxRetries ?? 5;
+  ): AsyncGenerator<ProcessMessageResult, IngestResult> {
+    this.#ingesting++;
+    try {
+      return yield* this.ingestEvents(events);
+    } finally {
+      this.#ingesting--;
+    }
+  }
 
-    // Check if we've exceeded the maximum retry attempts.
-    //
-    // IMPORTANT: ingest() processes untrusted network input. If we throw here,
-    // a single permanently-unreadable message (e.g. encrypted under an epoch we
-    // can never decrypt, malformed ciphertext, spam) can DoS consumers.
-    // Instead, stop retrying and drop the remaining unreadable events.
-    if (retryCount > maxRetries) {
-      return;
+  /**
+   * Ingests group events like {@link ingest}, but yields the high level changes they cause
+   * (members added or removed, metadata and admin changes, new epochs, proposals, rejected commits and rumors).
+   *
+   * @param events - The group events to ingest
+   * @returns The same counts as {@link ingest}
+   */
+  async *ingestChanges(
+    events: NostrEvent[],
+  ): AsyncGenerator<MarmotGroupChange, IngestResult> {
+    const queue: MarmotGroupChange[] = [];
+    const listener = (change: MarmotGroupChange) => queue.push(change);
+    this.on("change", listener);
+
+    try {
+      const iterator = this.ingest(events);
+      let next = await iterator.next();
+      while (!next.done) {
+        while (queue.length > 0) yield queue.shift()!;
+        next = await iterator.next();
+      }
+      while (queue.length > 0) yield queue.shift()!;
+      return next.value;
+    } finally {
+      this.off("change", listener);
+    }
+  }
+
+  /** Processes group events, see {@link ingest} */
+  private async *ingestEvents(
+    events: NostrEvent[],
+  ): AsyncGenerator<ProcessMessageResult, IngestResult> {
+    await this.loadPendingEvents();
+    await this.loadProcessedEvents();
+
+    // What happened to the events handled in this call
+    const handled = new Set<string>();
+    const statuses = new Map<string, ProcessedEventStatus>();
+    let duplicates = 0;
+
+    // Skip events that were already handled. Events that are already parked
+    // wait for their epoch like the others.
+    let batch: NostrEvent[] = [];
+    for (const event of events) {
+      if (handled.has(event.id)) continue;
+      handled.add(event.id);
+
+      if (this.#processedEvents.has(event.id)) duplicates++;
+      else if (!this.#pendingEvents.has(event.id)) batch.push(event);
+    }
+
+    // Process the new events along with the parked events whose epoch has arrived
+    batch.push(...this.takeReadyPendingEvents(false));
+    for (const event of batch) handled.add(event.id);
+
+    // IMPORTANT: ingest() processes untrusted network input. A permanently
+    // unreadable message (e.g. encrypted under an epoch we can never decrypt,
+    // malformed ciphertext, spam) must not throw or loop forever, so events are
+    // only replayed after a pass made progress and are dropped once they can
+    // never be read.
+    while (batch.length > 0) {
+      const epoch = this.state.groupContext.epoch;
+      const proposals = Object.keys(this.state.unappliedProposals);
+
+      const { unreadable, leaveCommitted, rolledBackTo } =
+        yield* this.processEvents(batch, statuses);
+
+      // ==========================================================================
+      // Self-removal guard
+      // ==========================================================================
+      // If a commit removed us from the group, we must NOT retry unreadable
+      // events. Without this guard a removed member could use the post-commit
+      // key schedule to decrypt messages from the new epoch, violating
+      // forward secrecy.
+
+      const selfPubkey = await this.signer.getPublicKey();
+      if (
+        this.state.groupActiveState.kind === "removedFromGroup" ||
+        !getGroupMembers(this.state).includes(selfPubkey)
+      ) {
+        await this.recordProcessedEvents(statuses);
+        this.#lostCommits = [];
+        this.#lostRumors = [];
+        this.#unconfirmedRumors.clear();
+        this.#pendingEvents.clear();
+        if (this.pendingEventStore) await this.pendingEventStore.purge(this.id);
+
+        // We left the group, so tidy up the local state
+        if (leaveCommitted) {
+          this.emit("left", this);
+          await this.destroy();
+        }
+
+        // We were removed — stop processing.
+        return this.countIngestResult(handled, statuses, duplicates);
+      }
+
+      // ==========================================================================
+      // Park unreadable events and replay the ones that became readable
+      // ==========================================================================
+      // After processing commits and updating the state, some events that were
+      // unreadable might now be readable. For example:
+      // - An event from epoch N+1 might have been unreadable when we were at epoch N
+      // - After processing a commit that advances us to epoch N+1, we can now read it
+      //
+      // Events from the current epoch (e.g. commits referencing proposals we have
+      // not seen) are replayed when new proposals were added.
+
+      // Events tried on a branch that was rolled back count as tried in the epoch it forked from
+      this.parkUnreadableEvents(
+        unreadable,
+        rolledBackTo !== undefined && rolledBackTo < epoch
+          ? rolledBackTo
+          : epoch,
+        statuses,
+      );
+      const proposalsChanged = Object.keys(this.state.unappliedProposals).some(
+        (ref) => !proposals.includes(ref),
+      );
+      batch = this.takeReadyPendingEvents(proposalsChanged);
+      for (const event of batch) handled.add(event.id);
     }
-    // Early return if no events to process
-    if (events.length === 0) return;
 
+    // Send the changes and messages of own commits that lost to a competing commit again
+    if (this.#lostCommits.length > 0) await this.reproposeLostCommits();
+    if (this.#lostRumors.length > 0) await this.resendLostRumors();
+
+    await this.savePendingEvents();
+    await this.recordProcessedEvents(statuses);
+
+    return this.countIngestResult(handled, statuses, duplicates);
+  }
+
+  /** Counts what happened to the events handled by an ingest call */
+  private countIngestResult(
+    handled: Set<string>,
+    statuses: Map<string, ProcessedEventStatus>,
+    duplicates: number,
+  ): IngestResult {
+    const result: IngestResult = {
+      processed: 0,
+      skipped: duplicates,
+      failed: 0,
+      pending: 0,
+    };
+    for (const status of statuses.values()) result[status]++;
+    for (const id of handled) {
+      if (!statuses.has(id) && this.#pendingEvents.has(id)) result.pending++;
+    }
+    return result;
+  }
+
+  /**
+   * Processes a batch of group events once, applying proposals, application messages and commits.
+   *
+   * @param events - The events to process
+   * @param statuses - Collects what happened to the events that were handled
+   * @returns The events that could not be processed, whether a commit removed us because we asked to leave,
+   * and the earliest epoch the group was rolled back to for a competing commit
+   */
+  private async *processEvents(
+    events: NostrEvent[],
+    statuses: Map<string, ProcessedEventStatus>,
+  ): AsyncGenerator<
+    ProcessMessageResult,
+    {
+      unreadable: UnreadableGroupEvent[];
+      leaveCommitted: boolean;
+      rolledBackTo?: bigint;
+    }
+  > {
     // ============================================================================
     // STEP 1: Decrypt NIP-44 layer to get MLSMessages
     // ============================================================================
     // Each Nostr event contains an MLSMessage encrypted with NIP-44 using the
     // group's exporter_secret. We decrypt this first layer to get the actual
-    // MLS message structure.
+    // MLS message structure. Late messages from recent epochs are decrypted
+    // with the retained keys of those epochs.
 
-    const { read, unreadable } = await readGroupMessages(
+    await this.retainPastEpochKeys();
+    const { read, unreadable: undecryptable } = await readGroupMessages(
       events,
       this.state,
       this.ciphersuite,
+      this.#pastEpochKeys,
     );
+    const unreadable: UnreadableGroupEvent[] = undecryptable.map((event) => ({
+      event,
+      reason: "Could not decrypt event",
+    }));
 
     // If nothing was readable, exit
-    if (read.length === 0) return;
+    if (read.length === 0) return { unreadable, leaveCommitted: false };
 
     // ============================================================================
     // STEP 2: Separate commits from non-commit messages
@@ -799,7 +2252,7 @@ export class MarmotGroup<
     // STEP 3: Process all non-commit messages
     // ============================================================================
     // Process all proposals and application messages. If a message fails to process
-    // (wrong epoch, invalid, etc.), add it to unreadable for retry later.
+    // (wrong epoch, invalid, etc.), add it to unreadable to park it.
     //
     // Proposals are added to state.unappliedProposals when processed, making them
     // available for commits to reference via ProposalRef.
@@ -811,6 +2264,7 @@ export class MarmotGroup<
           message.wireformat !== wireformats.mls_private_message &&
           message.wireformat !== wireformats.mls_public_message
         ) {
+          statuses.set(event.id, "skipped");
           continue;
         }
 
@@ -824,19 +2278,25 @@ export class MarmotGroup<
             cipherSuite: this.ciphersuite,
             authService: marmotAuthService,
             externalPsks: {},
+            clientConfig: this.#clientConfig,
           },
           state: this.state,
           message,
           callback: acceptAll, // Accept all proposals (adds them to unappliedProposals)
         });
 
+        // The sender applied the commits made before the message's epoch
+        this.confirmCommits(getMessageEpoch(message));
+
         // Update state if message changed it
         if (result.kind === "newState") {
           this.state = result.newState;
+          statuses.set(event.id, "processed");
           yield result;
         } else if (result.kind === "applicationMessage") {
           // Application messages also update state (for forward secrecy)
           this.state = result.newState;
+          statuses.set(event.id, "processed");
 
           // Save application message to history (best-effort)
           if (this.history) {
@@ -849,11 +2309,25 @@ export class MarmotGroup<
 
           yield result;
           this.emit("applicationMessage", result.message);
+
+          try {
+            this.emitChange({
+              type: "applicationRumor",
+              rumor: deserializeApplicationData(result.message),
+            });
+          } catch {
+            // Not a rumor, only the raw applicationMessage event is emitted
+          }
         }
       } catch (error) {
         // Message processing failed - might be invalid or from wrong epoch
-        // Add to unreadable for retry later (might become readable after state updates)
-        unreadable.push(event);
+        // Add to unreadable to park it (might become readable after state updates)
+        unreadable.push({
+          event,
+          message: isPrivateMessage(message) ? message : undefined,
+          epoch: getMessageEpoch(message),
+          reason: error instanceof Error ? error.message : String(error),
+        });
       }
     }
 
@@ -870,10 +2344,34 @@ export class MarmotGroup<
     // commits depend on earlier ones.
 
     // Create admin verification callback for commit processing
-    const adminCallback = this.createAdminVerificationCallback();
+    let rejection: { sender?: string; reason: string } | undefined;
+    const adminCallback = this.createAdminVerificationCallback(
+      (r) => (rejection = r),
+    );
+
+    // Detect accepted commits that remove our leaf because we asked to leave
+    const ownLeafIndex = this.state.privatePath.leafIndex;
+    let leaveCommitted = false;
+    let rolledBackTo: bigint | undefined;
+    const commitCallback: IncomingMessageCallback = (incoming) => {
+      const action = adminCallback(incoming);
+      if (
+        action === "accept" &&
+        incoming.kind === "commit" &&
+        incoming.proposals.some(
+          (p) => isLeaveProposal(p) && p.senderLeafIndex === ownLeafIndex,
+        )
+      )
+        leaveCommitted = true;
+
+      return action;
+    };
 
     for (const { event, message } of commits) {
-      if (!isPrivateMessage(message)) continue;
+      if (!isPrivateMessage(message)) {
+        statuses.set(event.id, "skipped");
+        continue;
+      }
 
       const commitEpoch =
         typeof message.privateMessage.epoch === "bigint"
@@ -881,15 +2379,45 @@ export class MarmotGroup<
           : BigInt(message.privateMessage.epoch);
       const currentEpoch = this.state.groupContext.epoch;
 
-      // Skip commits from past epochs - we've already processed these
+      // Commits from past epochs lost to the commit we applied, unless they
+      // come first in the MIP-03 ordering and the group has to be rolled back
       if (commitEpoch < currentEpoch) {
+        const applied = this.#unconfirmedCommits.get(commitEpoch);
+        if (!applied || compareGroupCommits(event, applied.event) >= 0) {
+          statuses.set(event.id, "skipped");
+          continue;
+        }
+
+        const result = await this.rollbackCommit(
+          event,
+          message,
+          applied,
+          unreadable,
+          statuses,
+        );
+        if (!result) {
+          statuses.set(event.id, "failed");
+          continue;
+        }
+        await this.journalTransition("ingest", [event.id], this.state, true);
+
+        rolledBackTo =
+          rolledBackTo === undefined || commitEpoch < rolledBackTo
+            ? commitEpoch
+            : rolledBackTo;
+        statuses.set(event.id, "processed");
+        yield result;
         continue;
       }
 
       // Skip commits that are too far in the future
       // We can only process commits for the current epoch or the next epoch
       if (commitEpoch > currentEpoch + 1n) {
-        unreadable.push(event);
+        unreadable.push({
+          event,
+          epoch: commitEpoch,
+          reason: `Commit is for future epoch ${commitEpoch}`,
+        });
         continue;
       }
 
@@ -905,70 +2433,658 @@ export class MarmotGroup<
             cipherSuite: this.ciphersuite,
             authService: marmotAuthService,
             externalPsks: {},
+            clientConfig: this.#clientConfig,
           },
           state: this.state,
           message,
-          callback: adminCallback, // Use admin verification callback for commits
+          callback: commitCallback, // Use admin verification callback for commits
         });
 
         if (result.kind === "newState") {
           // If the commit was rejected by the callback (admin verification),
           // do not advance state, do not yield, and do not retry.
           if (result.actionTaken === "reject") {
+            this.emitChange({
+              type: "commitRejected",
+              sender: rejection?.sender,
+              reason: rejection?.reason ?? "Commit rejected",
+              epoch: commitEpoch,
+            });
+            rejection = undefined;
+            statuses.set(event.id, "failed");
             continue;
           }
 
           // Successfully processed the commit - update our state
           // After each commit, the epoch advances and keys rotate
+          this.confirmCommits(commitEpoch);
+          this.#unconfirmedCommits.set(commitEpoch, {
+            event,
+            previousState: this.state,
+          });
           this.state = result.newState;
+          statuses.set(event.id, "processed");
+          await this.journalTransition("ingest", [event.id], this.state, true);
           yield result;
         }
       } catch (error) {
-        // Commit processing failed - add to unreadable for retry
+        // Commit processing failed - add to unreadable to park it
         // It might become valid after processing more proposals or state updates
-        unreadable.push(event);
+        unreadable.push({
+          event,
+          epoch: commitEpoch,
+          reason: error instanceof Error ? error.message : String(error),
+        });
       }
     }
 
     // Save the group state after processing all messages
     await this.save();
 
-    // ============================================================================
-    // STEP 6: Self-removal guard
-    // ============================================================================
-    // If a commit removed us from the group, we must NOT retry unreadable
-    // events. Without this guard a removed member could use the post-commit
-    // key schedule to decrypt messages from the new epoch, violating
-    // forward secrecy.
+    return { unreadable, leaveCommitted, rolledBackTo };
+  }
 
+  /** Forgets the rollback state of the commits made before an epoch, since a member built on them */
+  private confirmCommits(epoch: bigint | undefined) {
+    if (epoch === undefined) return;
+    for (const commitEpoch of this.#unconfirmedCommits.keys()) {
+      if (commitEpoch < epoch) this.#unconfirmedCommits.delete(commitEpoch);
+    }
+    this.pruneUnconfirmedRumors();
+  }
+
+  /** Forgets the own messages of epochs that no unconfirmed commit can roll back anymore */
+  private pruneUnconfirmedRumors() {
+    let oldest: bigint | undefined;
+    for (const commitEpoch of this.#unconfirmedCommits.keys()) {
+      if (oldest === undefined || commitEpoch < oldest) oldest = commitEpoch;
+    }
+    for (const sentEpoch of this.#unconfirmedRumors.keys()) {
+      if (oldest === undefined || sentEpoch <= oldest)
+        this.#unconfirmedRumors.delete(sentEpoch);
+    }
+  }
+
+  /**
+   * Rolls the group back to the epoch of an applied commit that lost to a competing commit
+   * and applies the winner. Own commits that were rolled back are proposed again after the ingest.
+   *
+   * @param winner - The competing commit event that comes first in the MIP-03 ordering
+   * @param message - The MLS message of the competing commit
+   * @param applied - The commit that was applied for the same epoch
+   * @param unreadable - The events of the ingest pass that could not be processed, proposals of the lost epoch are applied before the winner
+   * @param statuses - Collects the proposals that were applied
+   * @returns The result of applying the winner, or undefined if it was rejected or could not be applied
+   */
+  private async rollbackCommit(
+    winner: NostrEvent,
+    message: PrivateMessage,
+    applied: UnconfirmedCommit,
+    unreadable: UnreadableGroupEvent[],
+    statuses: Map<string, ProcessedEventStatus>,
+  ): Promise<ProcessMessageResult | undefined> {
+    const epoch = applied.previousState.groupContext.epoch;
+    const context = {
+      cipherSuite: this.ciphersuite,
+      authService: marmotAuthService,
+      externalPsks: {},
+      clientConfig: this.#clientConfig,
+    };
+
+    // Proposals of the lost epoch were rejected on our branch, but the winner may reference them
+    let previousState = applied.previousState;
+    for (const item of [...unreadable]) {
+      const proposal = item.message;
+      if (
+        item.epoch !== epoch ||
+        proposal?.privateMessage.contentType !== contentTypes.proposal
+      )
+        continue;
+
+      try {
+        const result = await processMessage({
+          context,
+          state: previousState,
+          message: proposal,
+          callback: acceptAll,
+        });
+        if (result.kind !== "newState") continue;
+        previousState = result.newState;
+        unreadable.splice(unreadable.indexOf(item), 1);
+        statuses.set(item.event.id, "processed");
+      } catch {
+        // Not a valid proposal on this branch either
+      }
+    }
+
+    let rejection: { sender?: string; reason: string } | undefined;
+    let result: ProcessMessageResult;
+    try {
+      result = await processMessage({
+        context,
+        state: previousState,
+        message,
+        callback: this.createAdminVerificationCallback(
+          (r) => (rejection = r),
+          previousState,
+        ),
+      });
+    } catch (error) {
+      // Members that can apply the winner moved to a branch we cannot follow
+      this.emit("forked", {
+        epoch,
+        event: winner,
+        reason: error instanceof Error ? error.message : String(error),
+      });
+      return undefined;
+    }
+
+    if (result.kind !== "newState") return undefined;
+    if (result.actionTaken === "reject") {
+      this.emitChange({
+        type: "commitRejected",
+        sender: rejection?.sender,
+        reason: rejection?.reason ?? "Commit rejected",
+        epoch,
+      });
+      return undefined;
+    }
+
+    // Forget the lost commit and every commit built on it, keeping our own changes to propose them again
+    for (const [commitEpoch, commit] of this.#unconfirmedCommits) {
+      if (commitEpoch < epoch) continue;
+      this.#unconfirmedCommits.delete(commitEpoch);
+      if (commit.proposals) this.#lostCommits.push(commit.proposals);
+    }
+    this.#unconfirmedCommits.set(epoch, { event: winner, previousState });
+    this.state = result.newState;
+
+    // Own messages of the abandoned epochs can't be read on the winning branch, so they
+    // are sent again unless their attachments were encrypted with an abandoned epoch
+    const lostRumors: Rumor[] = [];
+    for (const [sentEpoch, sent] of this.#unconfirmedRumors) {
+      if (sentEpoch <= epoch) continue;
+      this.#unconfirmedRumors.delete(sentEpoch);
+      for (const { rumor, eventId } of sent) {
+        await this.discardOutboxMessage(eventId);
+        if (getMediaAttachments(rumor).some((a) => a.epoch > epoch))
+          lostRumors.push(rumor);
+        else this.#lostRumors.push(rumor);
+      }
+    }
+
+    // Drop the secrets of the epochs on the abandoned branch
+    for (const pastEpoch of this.#derivingEpochSecrets.keys()) {
+      if (pastEpoch > epoch) this.discardPastEpochSecrets(pastEpoch);
+    }
+    for (const secrets of [this.#pastEpochKeys, this.#pastMediaSecrets]) {
+      for (const [pastEpoch, secret] of secrets) {
+        if (pastEpoch <= epoch) continue;
+        secret.fill(0);
+        secrets.delete(pastEpoch);
+      }
+    }
+
+    // Events that could not be read on the abandoned branch are tried again
+    for (const [id, pending] of this.#pendingEvents) {
+      if (pending.triedEpoch <= Number(epoch)) continue;
+      pending.triedEpoch = Number(epoch);
+      this.#pendingEventChanges.add(id);
+    }
+
+    this.emitChange({
+      type: "commitRolledBack",
+      event: applied.event,
+      winner,
+      own: applied.proposals !== undefined,
+      lostRumors,
+      epoch,
+    });
+
+    return result;
+  }
+
+  /** Commits (or proposes, when the local member cannot commit them) the changes of own commits that were rolled back */
+  private async reproposeLostCommits() {
+    const lostCommits = this.#lostCommits.splice(0);
     const selfPubkey = await this.signer.getPublicKey();
-    if (!getGroupMembers(this.state).includes(selfPubkey)) {
-      // We were removed — stop processing.
-      return;
+
+    for (const proposals of lostCommits) {
+      try {
+        // A lost self-update only rotated our keys
+        if (proposals.length === 0) {
+          await this.selfUpdate();
+          continue;
+        }
+
+        const senderLeafIndex = this.state.privatePath.leafIndex;
+        const withSender = proposals.map((proposal) => ({
+          proposal,
+          senderLeafIndex,
+        }));
+        if (this.canCommit(selfPubkey, withSender)) {
+          await this.commit({ extraProposals: proposals });
+        } else {
+          for (const proposal of proposals) await this.sendProposal(proposal);
+        }
+      } catch (error) {
+        console.warn(
+          `[MarmotGroup.ingest] Failed to propose the changes of a rolled back commit:`,
+          error,
+        );
+      }
     }
+  }
 
-    // ============================================================================
-    // STEP 7: Recursively retry unreadable events
-    // ============================================================================
-    // After processing commits and updating the state, some events that were
-    // unreadable might now be readable. For example:
-    // - An event from epoch N+1 might have been unreadable when we were at epoch N
-    // - After processing a commit that advances us to epoch N+1, we can now read it
-    //
-    // We recursively call ingest on unreadable events to retry them.
-    // This continues until no more events can be read.
+  /** Sends the own messages of rolled back epochs again, in the order they were first sent */
+  private async resendLostRumors() {
+    for (const rumor of this.#lostRumors.splice(0)) {
+      try {
+        await this.sendApplicationRumor(rumor);
+      } catch (error) {
+        console.warn(
+          `[MarmotGroup.ingest] Failed to send a message of a rolled back epoch again:`,
+          error,
+        );
+      }
+    }
+  }
+
+  /** Loads the pending events of the group from the store the first time they are needed */
+  private async loadPendingEvents() {
+    if (this.#pendingEventsLoaded) return;
+    this.#pendingEventsLoaded = true;
+    if (!this.pendingEventStore) return;
+
+    for (const pending of await this.pendingEventStore.list(this.id)) {
+      if (!this.#pendingEvents.has(pending.event.id))
+        this.#pendingEvents.set(pending.event.id, pending);
+    }
+  }
+
+  /**
+   * Removes and returns the pending events worth trying again in the current epoch.
+   * Events are replayed once per epoch, or again in the same epoch when new proposals arrived.
+   *
+   * @param retryCurrentEpoch - Whether to replay events of the current epoch that were already tried in it
+   */
+  private takeReadyPendingEvents(retryCurrentEpoch: boolean): NostrEvent[] {
+    const epoch = Number(this.state.groupContext.epoch);
+    const ready: NostrEvent[] = [];
+
+    for (const [id, pending] of this.#pendingEvents) {
+      const isReady =
+        pending.epoch === undefined
+          ? pending.triedEpoch < epoch
+          : pending.epoch <= epoch &&
+            (pending.triedEpoch < epoch || retryCurrentEpoch);
+      if (!isReady) continue;
+
+      this.#pendingEvents.delete(id);
+      this.#pendingEventChanges.add(id);
+      ready.push(pending.event);
+    }
 
-    if (unreadable.length > 0) {
-      yield* this.ingest(unreadable, {
-        retryCount: retryCount + 1,
-        maxRetries: maxRetries,
+    return ready;
+  }
+
+  /**
+   * Parks unreadable events until their epoch arrives, or drops them when they can never be read.
+   *
+   * @param unreadable - The events that could not be processed
+   * @param triedEpoch - The epoch the group was in when the events were tried
+   * @param statuses - Collects the events that were dropped as failed
+   */
+  private parkUnreadableEvents(
+    unreadable: UnreadableGroupEvent[],
+    triedEpoch: bigint,
+    statuses: Map<string, ProcessedEventStatus>,
+  ) {
+    const epoch = this.state.groupContext.epoch;
+
+    for (const { event, epoch: eventEpoch, reason } of unreadable) {
+      const parkedEpoch =
+        this.#pendingEvents.get(event.id)?.parkedEpoch ?? Number(triedEpoch);
+      this.#pendingEventChanges.add(event.id);
+
+      // Proposals and commits from past epochs can never be applied, and events
+      // that stayed undecryptable for too long are most likely not for this group
+      const expired =
+        eventEpoch !== undefined
+          ? eventEpoch < epoch
+          : epoch - BigInt(parkedEpoch) >= BigInt(this.maxPendingEpochs);
+      if (expired) {
+        this.#pendingEvents.delete(event.id);
+        statuses.set(event.id, "failed");
+        this.emitChange({ type: "eventDropped", event, reason });
+        continue;
+      }
+
+      this.#pendingEvents.set(event.id, {
+        event,
+        epoch: eventEpoch !== undefined ? Number(eventEpoch) : undefined,
+        parkedEpoch,
+        triedEpoch: Number(triedEpoch),
+      });
+    }
+  }
+
+  /** Loads the handled events of the group from the store the first time they are needed */
+  private async loadProcessedEvents() {
+    if (this.#processedEventsLoaded) return;
+    this.#processedEventsLoaded = true;
+    if (!this.processedEventStore) return;
+
+    const records = await this.processedEventStore.list(this.id);
+    const loaded = new Map(records.map((record) => [record.id, record]));
+    for (const [id, record] of this.#processedEvents) loaded.set(id, record);
+    this.#processedEvents = loaded;
+  }
+
+  /** Adds handled events to the processed event log, forgetting the oldest ones past the limit */
+  private async recordProcessedEvents(
+    statuses: Map<string, ProcessedEventStatus>,
+  ) {
+    await this.loadProcessedEvents();
+
+    const recordedAt = unixNow();
+    for (const [id, status] of statuses) {
+      const record: ProcessedEventRecord = { id, status, recordedAt };
+      this.#processedEvents.delete(id);
+      this.#processedEvents.set(id, record);
+      if (this.processedEventStore)
+        await this.processedEventStore.set(this.id, record);
+    }
+
+    for (const id of this.#processedEvents.keys()) {
+      if (this.#processedEvents.size <= this.maxProcessedEvents) break;
+      this.#processedEvents.delete(id);
+      if (this.processedEventStore)
+        await this.processedEventStore.remove(this.id, id);
+    }
+  }
+
+  /** Writes the pending events that changed to the store */
+  private async savePendingEvents() {
+    const changes = Array.from(this.#pendingEventChanges);
+    this.#pendingEventChanges.clear();
+    if (!this.pendingEventStore) return;
+
+    for (const id of changes) {
+      const pending = this.#pendingEvents.get(id);
+      if (pending) await this.pendingEventStore.set(this.id, pending);
+      else await this.pendingEventStore.remove(this.id, id);
+    }
+  }
+
+  /**
+   * Gets the proposal that drops admins whose last leaf is leaving from the admin list,
+   * adding the local member when no admin would remain (it is committing as the successor)
+   */
+  private getLeavingAdminsProposals(
+    leaves: ProposalWithSender[],
+    selfPubkey: string,
+  ): ProposalAction<Proposal>[] {
+    const groupData = this.groupData;
+    if (!groupData || leaves.length === 0) return [];
+
+    const membersBefore = getGroupMembers(this.state);
+    const membersAfter = getMembersAfterProposals(
+      this.state.ratchetTree,
+      leaves.map((p) => p.proposal),
+    );
+    const adminPubkeys = groupData.adminPubkeys.filter(
+      (admin) => membersAfter.includes(admin) || !membersBefore.includes(admin),
+    );
+    if (!adminPubkeys.some((admin) => membersAfter.includes(admin)))
+      adminPubkeys.push(selfPubkey);
+
+    return adminPubkeys.length === groupData.adminPubkeys.length &&
+      adminPubkeys.every((admin, i) => admin === groupData.adminPubkeys[i])
+      ? []
+      : [proposeUpdateMetadata({ adminPubkeys })];
+  }
+
+  /** Loads the outgoing messages of the group from the store the first time they are needed */
+  private async loadOutbox() {
+    if (this.#outboxLoaded) return;
+    this.#outboxLoaded = true;
+    if (!this.outboxStore) return;
+
+    const messages = await this.outboxStore.list(this.id);
+    const loaded = new Map(messages.map((m) => [m.event.id, m]));
+    for (const [id, message] of this.#outbox) loaded.set(id, message);
+    this.#outbox = loaded;
+    this.scheduleOutboxRetry();
+  }
+
+  /** Adds a new encrypted message to the outbox */
+  private async queueOutboxMessage(
+    event: NostrEvent,
+    rumorId: string,
+  ): Promise<OutboxMessage> {
+    await this.loadOutbox();
+    const message: OutboxMessage = {
+      event,
+      rumorId,
+      status: "queued",
+      attempts: 0,
+      createdAt: unixNow(),
+    };
+    await this.updateOutboxMessage(message);
+    return message;
+  }
+
+  /** Writes an outgoing message to the outbox and its store, sent messages leave the outbox */
+  private async updateOutboxMessage(message: OutboxMessage) {
+    const id = message.event.id;
+    if (message.status === "sent") {
+      this.#outbox.delete(id);
+      if (this.outboxStore) await this.outboxStore.remove(this.id, id);
+    } else {
+      this.#outbox.set(id, message);
+      if (this.outboxStore) await this.outboxStore.set(this.id, message);
+    }
+
+    this.emit("outboxMessage", message);
+  }
+
+  /** Publishes an outgoing message once, and queues it for another attempt with backoff when no relay acknowledges it */
+  private async publishOutboxMessage(
+    message: OutboxMessage,
+  ): Promise<Record<string, PublishResponse>> {
+    const id = message.event.id;
+    let response: Record<string, PublishResponse> = {};
+    let error: string | undefined;
+
+    this.#outboxPublishing.add(id);
+    try {
+      response = await this.publish(message.event);
+      if (!hasAck(response)) error = new NoRelayReceivedEventError(id).message;
+    } catch (err) {
+      error = err instanceof Error ? err.message : String(err);
+    } finally {
+      this.#outboxPublishing.delete(id);
+    }
+
+    // The message was discarded or the group destroyed while publishing
+    if (!this.#outbox.has(id)) return response;
+
+    const attempts = message.attempts + 1;
+    if (!error) {
+      await this.updateOutboxMessage({
+        ...message,
+        status: "sent",
+        attempts,
+        nextAttemptAt: undefined,
+        error: undefined,
+      });
+    } else if (attempts >= this.maxOutboxAttempts) {
+      await this.updateOutboxMessage({
+        ...message,
+        status: "failed",
+        attempts,
+        nextAttemptAt: undefined,
+        error,
+      });
+    } else {
+      const delay = Math.min(
+        this.outboxRetryDelay * 2 ** (attempts - 1),
+        MAX_OUTBOX_RETRY_DELAY,
+      );
+      await this.updateOutboxMessage({
+        ...message,
+        status: "queued",
+        attempts,
+        nextAttemptAt: Date.now() + delay,
+        error,
       });
     }
+
+    this.scheduleOutboxRetry();
+    return response;
+  }
+
+  /**
+   * Publishes the queued messages of the outbox, oldest first.
+   *
+   * @param force - Whether to publish messages whose backoff delay has not passed yet
+   */
+  private async publishQueuedMessages(force: boolean) {
+    const now = Date.now();
+    for (const message of Array.from(this.#outbox.values())) {
+      if (message.status !== "queued") continue;
+      if (this.#outboxPublishing.has(message.event.id)) continue;
+      if (!force && (message.nextAttemptAt ?? 0) > now) continue;
+
+      await this.publishOutboxMessage(message);
+    }
+  }
+
+  /** Starts (or restarts) the timer for the queued message that is due first */
+  private scheduleOutboxRetry() {
+    clearTimeout(this.#outboxTimer);
+    this.#outboxTimer = undefined;
+
+    let next: number | undefined;
+    for (const message of this.#outbox.values()) {
+      if (message.status !== "queued") continue;
+      if (this.#outboxPublishing.has(message.event.id)) continue;
+      next = Math.min(next ?? Infinity, message.nextAttemptAt ?? 0);
+    }
+    if (next === undefined) return;
+
+    this.#outboxTimer = setTimeout(
+      () => {
+        this.#outboxTimer = undefined;
+        this.publishQueuedMessages(false).catch((error) =>
+          console.warn(
+            `[MarmotGroup.outbox] Failed to publish queued messages:`,
+            error,
+          ),
+        );
+      },
+      Math.max(0, next - Date.now()),
+    );
+  }
+
+  /** The auto-commit policy with the leave rule added when {@link autoCommitLeaves} is enabled */
+  private getEffectiveAutoCommitPolicy(): AutoCommitPolicy | undefined {
+    const policy = this.autoCommitPolicy;
+    if (!this.autoCommitLeaves) return policy;
+    return { ...policy, rules: [...(policy?.rules ?? []), allowLeaves()] };
+  }
+
+  /** Gets the pending proposals the auto-commit policy allows, except the local member's own leave */
+  private getAutoCommitCandidates(policy: AutoCommitPolicy) {
+    const ownLeafIndex = this.state.privatePath.leafIndex;
+    return getAutoCommitProposals(policy, this).filter(
+      (p) => p.type !== "leave" || p.senderLeafIndex !== ownLeafIndex,
+    );
+  }
+
+  /** Starts (or restarts) the auto-commit delay if the policy allows any pending proposal */
+  private scheduleAutoCommit() {
+    clearTimeout(this.#autoCommitTimer);
+    this.#autoCommitTimer = undefined;
+
+    const policy = this.getEffectiveAutoCommitPolicy();
+    if (!policy || this.getAutoCommitCandidates(policy).length === 0) return;
+
+    this.#autoCommitTimer = setTimeout(() => {
+      this.#autoCommitTimer = undefined;
+
+      // Wait for the running ingest, it may bring a commit that covers the proposals
+      if (this.#ingesting > 0) return this.scheduleAutoCommit();
+
+      this.autoCommit().catch((error) =>
+        console.warn(
+          `[MarmotGroup.autoCommit] Failed to commit pending proposals:`,
+          error,
+        ),
+      );
+    }, getAutoCommitDelay(policy));
+  }
+
+  /**
+   * Commits the pending proposals allowed by the {@link autoCommitPolicy} (and members' leaves
+   * when {@link autoCommitLeaves} is enabled) right away. Nothing is committed if no proposal
+   * is allowed or the local member cannot commit them. Leaving admins are dropped from the
+   * admin list, and the successor of the last leaving admin adds itself.
+   *
+   * @returns The publish response of the commit, or undefined if nothing was committed
+   */
+  async autoCommit(): Promise<Record<string, PublishResponse> | undefined> {
+    clearTimeout(this.#autoCommitTimer);
+    this.#autoCommitTimer = undefined;
+
+    const policy = this.getEffectiveAutoCommitPolicy();
+    if (!policy) return undefined;
+
+    const proposals = this.getAutoCommitCandidates(policy);
+    if (proposals.length === 0) return undefined;
+    const toProposalWithSender = ({
+      proposal,
+      senderLeafIndex,
+    }: PendingProposal): ProposalWithSender => ({ proposal, senderLeafIndex });
+    const selfPubkey = await this.signer.getPublicKey();
+    if (!this.canCommit(selfPubkey, proposals.map(toProposalWithSender)))
+      return undefined;
+
+    const leaves = proposals
+      .filter((p) => p.type === "leave")
+      .map(toProposalWithSender);
+    return await this.commit({
+      proposalRefs: proposals.map((p) => p.ref),
+      extraProposals: this.getLeavingAdminsProposals(leaves, selfPubkey),
+    });
   }
 
   /** Destroys the group and purges the group history */
   async destroy() {
+    clearTimeout(this.#autoCommitTimer);
+    this.#autoCommitTimer = undefined;
+    clearTimeout(this.#outboxTimer);
+    this.#outboxTimer = undefined;
+    this.#outbox.clear();
+    this.#unconfirmedCommits.clear();
+    this.#lostCommits = [];
+    this.#unconfirmedRumors.clear();
+    this.#lostRumors = [];
+
     if (this.history) await this.history.purgeMessages();
+    if (this.mediaKeyStore) await this.mediaKeyStore.purge(this.id);
+    if (this.pendingEventStore) await this.pendingEventStore.purge(this.id);
+    if (this.processedEventStore) await this.processedEventStore.purge(this.id);
+    if (this.outboxStore) await this.outboxStore.purge(this.id);
+
+    // Erase the secrets of past epochs
+    for (const pastEpoch of this.#derivingEpochSecrets.keys())
+      this.discardPastEpochSecrets(pastEpoch);
+    for (const secrets of [this.#pastEpochKeys, this.#pastMediaSecrets]) {
+      for (const secret of secrets.values()) secret.fill(0);
+      secrets.clear();
+    }
 
     // Remove the group from the store
     await this.stateStore.remove(this.id);
@@ -0,0 +1,214 @@
+import { EventEmitter } from "eventemitter3";
+import { ClientState, defaultProposalTypes, Proposal } from "ts-mls";
+import { getCredentialFromLeafIndex } from "ts-mls/ratchetTree.js";
+import { toLeafIndex } from "ts-mls/treemath.js";
+import { ProposalWithSender } from "ts-mls/unappliedProposals.js";
+import { getCredentialPubkey } from "../../core/credential.js";
+import {
+  decodeMarmotGroupData,
+  getMarmotGroupDataChanges,
+  getMarmotGroupDataExtensionBytes,
+  isMarmotGroupDataExtension,
+} from "../../core/marmot-group-data.js";
+import { MarmotGroupData } from "../../core/protocol.js";
+import type { PublishResponse } from "../nostr-interface.js";
+import type { MarmotGroup } from "./marmot-group.js";
+
+/** The kind of change a pending proposal makes to the group */
+export type PendingProposalType =
+  "add" | "remove" | "leave" | "metadata" | "admin" | "other";
+
+/** A proposal waiting in the group to be committed */
+export type PendingProposal = {
+  /** The proposal reference (key in the group's unappliedProposals) */
+  ref: string;
+  /** The kind of change the proposal makes */
+  type: PendingProposalType;
+  /** The pubkey of the member that sent the proposal, if it could be resolved */
+  sender?: string;
+  /** The leaf index of the member that sent the proposal */
+  senderLeafIndex?: number;
+  /** The pubkey of the member being added or removed */
+  member?: string;
+  /** The group data fields a metadata or admin proposal changes */
+  changes?: Partial<MarmotGroupData>;
+  /** A short human readable description of the proposal */
+  summary: string;
+  /** The epoch the proposal was received in */
+  epoch: bigint;
+  /** The raw MLS proposal */
+  proposal: Proposal;
+};
+
+/** A map of events that can be emitted by a {@link ProposalInbox} */
+type ProposalInboxEvents = {
+  /** Emitted when proposals are added to or removed from the inbox */
+  changed: (proposals: PendingProposal[]) => void;
+};
+
+/** Gets the pubkey of the member in a leaf, or undefined if the leaf is blank */
+function getLeafPubkey(
+  ratchetTree: ClientState["ratchetTree"],
+  leafIndex: number,
+): string | undefined {
+  try {
+    return getCredentialPubkey(
+      getCredentialFromLeafIndex(ratchetTree, toLeafIndex(leafIndex)),
+    );
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Describes a pending proposal with its sender, type and a decoded summary.
+ *
+ * @param ref - The proposal reference
+ * @param proposalWithSender - The proposal and the leaf index of its sender
+ * @param state - The current group state
+ * @param groupData - The current group data
+ * @returns The described pending proposal
+ */
+export function describePendingProposal(
+  ref: string,
+  { proposal, senderLeafIndex }: ProposalWithSender,
+  state: ClientState,
+  groupData: MarmotGroupData | null,
+): PendingProposal {
+  const pending: PendingProposal = {
+    ref,
+    type: "other",
+    sender:
+      senderLeafIndex !== undefined
+        ? getLeafPubkey(state.ratchetTree, senderLeafIndex)
+        : undefined,
+    senderLeafIndex,
+    summary: `Proposal of type ${proposal.proposalType}`,
+    epoch: state.groupContext.epoch,
+    proposal,
+  };
+
+  if (proposal.proposalType === defaultProposalTypes.add && "add" in proposal) {
+    pending.type = "add";
+    pending.member = getCredentialPubkey(
+      proposal.add.keyPackage.leafNode.credential,
+    );
+    pending.summary = `Add ${pending.member}`;
+  } else if (
+    proposal.proposalType === defaultProposalTypes.remove &&
+    "remove" in proposal
+  ) {
+    const { removed } = proposal.remove;
+    pending.member = getLeafPubkey(state.ratchetTree, removed);
+    if (removed === senderLeafIndex) {
+      pending.type = "leave";
+      pending.summary = `${pending.member ?? `Leaf ${removed}`} leaves the group`;
+    } else {
+      pending.type = "remove";
+      pending.summary = `Remove ${pending.member ?? `leaf ${removed}`}`;
+    }
+  } else if (
+    proposal.proposalType === defaultProposalTypes.group_context_extensions &&
+    "groupContextExtensions" in proposal
+  ) {
+    const extension = proposal.groupContextExtensions.extensions.find(
+      isMarmotGroupDataExtension,
+    );
+    // Proposals are not validated until they are committed, so the group data may not decode
+    let proposed: MarmotGroupData | undefined;
+    try {
+      if (extension)
+        proposed = decodeMarmotGroupData(
+          getMarmotGroupDataExtensionBytes(extension),
+        );
+    } catch {
+      pending.summary = "Update group extensions";
+      return pending;
+    }
+
+    if (proposed) {
+      const changes = getMarmotGroupDataChanges(groupData, proposed);
+      pending.changes = changes;
+      pending.type = changes.adminPubkeys ? "admin" : "metadata";
+      pending.summary =
+        Object.keys(changes).length > 0
+          ? `Update ${Object.keys(changes).join(", ")}`
+          : "Update group extensions";
+    } else {
+      pending.type = "metadata";
+      pending.summary = "Update group extensions";
+    }
+  }
+
+  return pending;
+}
+
+/**
+ * Lists the proposals waiting to be committed in a group and lets admins approve or discard them.
+ *
+ * Pending proposals only live for the epoch they were received in, any commit clears the inbox.
+ */
+export class ProposalInbox extends EventEmitter<ProposalInboxEvents> {
+  #refs: string[];
+
+  constructor(private group: MarmotGroup<any>) {
+    super();
+    this.#refs = Object.keys(group.state.unappliedProposals);
+
+    // Notify listeners whenever the set of pending proposals changes
+    group.on("stateChanged", (state) => {
+      const refs = Object.keys(state.unappliedProposals);
+      if (
+        refs.length === this.#refs.length &&
+        refs.every((ref) => this.#refs.includes(ref))
+      )
+        return;
+
+      this.#refs = refs;
+      this.emit("changed", this.proposals);
+    });
+  }
+
+  /** All pending proposals of the group */
+  get proposals(): PendingProposal[] {
+    const { state, groupData } = this.group;
+    return Object.entries(state.unappliedProposals).map(([ref, p]) =>
+      describePendingProposal(ref, p, state, groupData),
+    );
+  }
+
+  /** Gets a pending proposal by reference */
+  get(ref: string): PendingProposal | undefined {
+    const { state, groupData } = this.group;
+    const proposal = state.unappliedProposals[ref];
+    return proposal
+      ? describePendingProposal(ref, proposal, state, groupData)
+      : undefined;
+  }
+
+  /**
+   * Commits the selected pending proposals. Only admins can approve proposals.
+   *
+   * @param refs - The references of the proposals to commit (default all)
+   * @returns Promise resolving to the publish response of the commit
+   */
+  async approve(refs?: string[]): Promise<Record<string, PublishResponse>> {
+    return this.group.commit({
+      proposalRefs: refs ?? Object.keys(this.group.state.unappliedProposals),
+    });
+  }
+
+  /**
+   * Drops pending proposals from the local group state without committing them.
+   * A discarded proposal comes back if its event is ingested again in the same epoch.
+   *
+   * @param refs - The references of the proposals to discard
+   */
+  async discard(refs: string[]): Promise<void> {
+    const unappliedProposals = { ...this.group.state.unappliedProposals };
+    for (const ref of refs) delete unappliedProposals[ref];
+
+    this.group.state = { ...this.group.state, unappliedProposals };
+    await this.group.save();
+  }
+}
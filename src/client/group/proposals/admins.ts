@@ -0,0 +1,154 @@
+import { defaultProposalTypes, type GroupContextExtension } from "ts-mls";
+import { ProposalGroupContextExtensions } from "ts-mls/proposal.js";
+import {
+  adminSuccessionRuleToExtension,
+  getAdminSuccessionRule,
+  isAdminSuccessionExtension,
+} from "../../../core/admin-succession.js";
+import { replaceExtension } from "../../../core/extensions.js";
+import { validateAdminInvariants } from "../../../core/group-admins.js";
+import { getGroupMembers } from "../../../core/group-members.js";
+import {
+  ADMIN_SUCCESSION_EXTENSION_TYPE,
+  AdminSuccessionRule,
+} from "../../../core/protocol.js";
+import { ProposalAction } from "../marmot-group.js";
+import { proposeUpdateMetadata } from "./update-metadata.js";
+
+/**
+ * Proposes adding a member to the group's admins.
+ *
+ * @param pubkey - The Nostr public key (hex string) of the member to promote
+ * @returns A ProposalAction that updates the MarmotGroupData admin list
+ * @throws Error if the user is not a member or is already an admin
+ */
+export function proposePromoteAdmin(
+  pubkey: string,
+): ProposalAction<ProposalGroupContextExtensions> {
+  return async (context) => {
+    const { state, groupData } = context;
+    if (groupData.adminPubkeys.includes(pubkey))
+      throw new Error(`User with pubkey ${pubkey} is already an admin`);
+
+    const adminPubkeys = [...groupData.adminPubkeys, pubkey];
+    validateAdminInvariants(
+      groupData.adminPubkeys,
+      adminPubkeys,
+      getGroupMembers(state),
+    );
+
+    return proposeUpdateMetadata({ adminPubkeys })(context);
+  };
+}
+
+/**
+ * Proposes removing a user from the group's admins.
+ *
+ * @param pubkey - The Nostr public key (hex string) of the admin to demote
+ * @returns A ProposalAction that updates the MarmotGroupData admin list
+ * @throws Error if the user is not an admin or is the last admin who is a member
+ */
+export function proposeDemoteAdmin(
+  pubkey: string,
+): ProposalAction<ProposalGroupContextExtensions> {
+  return async (context) => {
+    const { state, groupData } = context;
+    if (!groupData.adminPubkeys.includes(pubkey))
+      throw new Error(`User with pubkey ${pubkey} is not an admin`);
+
+    const adminPubkeys = groupData.adminPubkeys.filter((a) => a !== pubkey);
+    validateAdminInvariants(
+      groupData.adminPubkeys,
+      adminPubkeys,
+      getGroupMembers(state),
+    );
+
+    return proposeUpdateMetadata({ adminPubkeys })(context);
+  };
+}
+
+/**
+ * Proposes setting the rule used to pick a new admin once none of the listed admins is a member.
+ * The admin succession extension is experimental and not part of the Marmot spec, see
+ * {@link ADMIN_SUCCESSION_EXTENSION_TYPE}.
+ *
+ * @param rule - The admin succession rule for the group
+ * @returns A ProposalAction that sets the admin succession extension
+ */
+export function proposeAdminSuccession(
+  rule: AdminSuccessionRule,
+): ProposalAction<ProposalGroupContextExtensions> {
+  return async ({ state }) => {
+    const extension = adminSuccessionRuleToExtension(rule);
+
+    // Replace the existing rule or add the extension if the group doesn't have one yet
+    const extensions = state.groupContext.extensions.filter(
+      (ext) => !isAdminSuccessionExtension(ext),
+    );
+    extensions.push(extension);
+
+    return {
+      proposalType: defaultProposalTypes.group_context_extensions,
+      groupContextExtensions: {
+        extensions: extensions as GroupContextExtension[],
+      },
+    };
+  };
+}
+
+/**
+ * Proposes adding a member's vote to let the group's admin successor take over while the listed
+ * admins are still members, for example when the last admin lost their device.
+ *
+ * @param pubkey - The Nostr public key (hex string) of the voting member
+ * @returns A ProposalAction that updates the admin succession extension
+ * @throws Error if the group has no succession rule, the member is an admin or already voted
+ */
+export function proposeAdminTakeoverVote(
+  pubkey: string,
+): ProposalAction<ProposalGroupContextExtensions> {
+  return async (context) => {
+    const { state, groupData } = context;
+    const rule = getAdminSuccessionRule(state.groupContext.extensions);
+    if (!rule) throw new Error("Group has no admin succession rule");
+    if (groupData.adminPubkeys.includes(pubkey))
+      throw new Error(`User with pubkey ${pubkey} is already an admin`);
+
+    const votes = rule.takeoverVotes ?? [];
+    if (votes.includes(pubkey))
+      throw new Error(`User with pubkey ${pubkey} already voted`);
+
+    return proposeAdminSuccession({
+      ...rule,
+      takeoverVotes: [...votes, pubkey],
+    })(context);
+  };
+}
+
+/**
+ * Proposes that the group's admin successor takes over: it is added to the admins and
+ * the takeover votes are cleared in a single group context extensions proposal.
+ *
+ * @param pubkey - The Nostr public key (hex string) of the successor
+ * @returns A ProposalAction that updates the MarmotGroupData and admin succession extensions
+ * @throws Error if the group has no succession rule or the successor is already an admin
+ */
+export function proposeAdminTakeover(
+  pubkey: string,
+): ProposalAction<ProposalGroupContextExtensions> {
+  return async (context) => {
+    const rule = getAdminSuccessionRule(context.state.groupContext.extensions);
+    if (!rule) throw new Error("Group has no admin succession rule");
+
+    const proposal = await proposePromoteAdmin(pubkey)(context);
+    return {
+      ...proposal,
+      groupContextExtensions: {
+        extensions: replaceExtension(
+          proposal.groupContextExtensions.extensions,
+          adminSuccessionRuleToExtension({ ...rule, takeoverVotes: [] }),
+        ) as GroupContextExtension[],
+      },
+    };
+  };
+}
@@ -1,3 +1,5 @@
+export * from "./admins.js";
 export * from "./invite-user.js";
+export * from "./leave-group.js";
 export * from "./remove-member.js";
 export * from "./update-metadata.js";
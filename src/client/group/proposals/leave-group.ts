@@ -0,0 +1,16 @@
+import { defaultProposalTypes } from "ts-mls";
+import { ProposalRemove } from "ts-mls/proposal.js";
+import { ProposalAction } from "../marmot-group.js";
+
+/**
+ * Proposes removing the local member's own leaf node from the group.
+ * A member cannot commit its own removal, so an admin has to commit this proposal.
+ *
+ * @returns A ProposalAction that returns a ProposalRemove for the local leaf
+ */
+export function proposeLeaveGroup(): ProposalAction<ProposalRemove> {
+  return async ({ state }) => ({
+    proposalType: defaultProposalTypes.remove,
+    remove: { removed: state.privatePath.leafIndex },
+  });
+}
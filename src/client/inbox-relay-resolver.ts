@@ -0,0 +1,156 @@
+import { kinds, type NostrEvent } from "applesauce-core/helpers/event";
+import { getInboxes } from "applesauce-core/helpers/mailboxes";
+import { EventEmitter } from "eventemitter3";
+import { getKeyPackageRelayList } from "../core/key-package-relay-list.js";
+import { KEY_PACKAGE_RELAY_LIST_KIND } from "../core/protocol.js";
+import type { NostrPoolRead } from "./nostr-interface.js";
+
+/** Options for an {@link InboxRelayResolver} */
+export type InboxRelayResolverOptions = {
+  /** The relays the kind 10051 and kind 10002 relay lists are requested from */
+  lookupRelays: string[];
+  /** How long (in milliseconds) resolved relays are used before the lists are requested again (default 1 hour) */
+  maxAge?: number;
+};
+
+/** The newest relay lists known for a user */
+type ResolvedRelayLists = {
+  /** The kind 10051 key package relay list */
+  keyPackageRelayList?: NostrEvent;
+  /** The NIP-65 kind 10002 relay list */
+  mailboxes?: NostrEvent;
+  /** When (in milliseconds) the lists were last requested, undefined if they were only added */
+  requestedAt?: number;
+};
+
+/** A map of events that can be emitted by an {@link InboxRelayResolver} */
+type InboxRelayResolverEvents = {
+  /** Emitted when a newer relay list changed the inbox relays of a user */
+  relaysChanged: (pubkey: string, relays: string[]) => void;
+};
+
+const DEFAULT_MAX_AGE = 60 * 60 * 1000;
+
+/** Gets the inbox relays from a user's relay lists, preferring the kind 10051 list */
+function getRelays(lists: ResolvedRelayLists): string[] {
+  if (lists.keyPackageRelayList)
+    return getKeyPackageRelayList(lists.keyPackageRelayList);
+  if (lists.mailboxes) return getInboxes(lists.mailboxes);
+  return [];
+}
+
+/**
+ * Resolves and caches the inbox relays of users, an implementation of
+ * {@link NostrNetworkInterface.getUserInboxRelays} apps can reuse.
+ *
+ * The relays come from the user's kind 10051 key package relay list, or from the
+ * read relays of their NIP-65 kind 10002 relay list when they have not published
+ * one. Lists are requested from the lookup relays and kept until they are older
+ * than {@link InboxRelayResolverOptions.maxAge}, newer lists received anywhere
+ * else can be passed to {@link InboxRelayResolver.add}.
+ *
+ * @example
+ * ```ts
+ * const resolver = new InboxRelayResolver(pool, { lookupRelays: ["wss://purplepag.es"] });
+ * const network: NostrNetworkInterface = {
+ *   ...pool,
+ *   getUserInboxRelays: (pubkey) => resolver.getUserInboxRelays(pubkey),
+ * };
+ * ```
+ */
+export class InboxRelayResolver extends EventEmitter<InboxRelayResolverEvents> {
+  readonly pool: Pick<NostrPoolRead, "request">;
+  readonly lookupRelays: string[];
+  readonly maxAge: number;
+
+  #lists = new Map<string, ResolvedRelayLists>();
+  #requests = new Map<string, Promise<void>>();
+
+  constructor(
+    pool: Pick<NostrPoolRead, "request">,
+    options: InboxRelayResolverOptions,
+  ) {
+    super();
+    this.pool = pool;
+    this.lookupRelays = options.lookupRelays;
+    this.maxAge = options.maxAge ?? DEFAULT_MAX_AGE;
+  }
+
+  /**
+   * Gets the inbox relays of a user, requesting their relay lists if they are unknown or too old
+   *
+   * @param pubkey - The public key (hex string) of the user
+   * @returns The relays from the kind 10051 list, the kind 10002 read relays, or an empty array
+   */
+  async getUserInboxRelays(pubkey: string): Promise<string[]> {
+    const lists = this.#lists.get(pubkey);
+    if (!lists?.requestedAt || Date.now() - lists.requestedAt >= this.maxAge)
+      await this.refresh(pubkey);
+
+    return getRelays(this.#lists.get(pubkey) ?? {});
+  }
+
+  /** Gets the cached inbox relays of a user without requesting anything */
+  getCachedRelays(pubkey: string): string[] | undefined {
+    const lists = this.#lists.get(pubkey);
+    return lists ? getRelays(lists) : undefined;
+  }
+
+  /** Requests the relay lists of a user from the lookup relays, concurrent calls share one request */
+  refresh(pubkey: string): Promise<void> {
+    let request = this.#requests.get(pubkey);
+    if (!request) {
+      request = this.requestLists(pubkey).finally(() => {
+        this.#requests.delete(pubkey);
+      });
+      this.#requests.set(pubkey, request);
+    }
+    return request;
+  }
+
+  private async requestLists(pubkey: string): Promise<void> {
+    const events = await this.pool.request(this.lookupRelays, {
+      kinds: [KEY_PACKAGE_RELAY_LIST_KIND, kinds.RelayList],
+      authors: [pubkey],
+    });
+    for (const event of events) this.add(event);
+
+    const lists = this.#lists.get(pubkey) ?? {};
+    this.#lists.set(pubkey, { ...lists, requestedAt: Date.now() });
+  }
+
+  /**
+   * Adds a kind 10051 or kind 10002 event to the cache if it is newer than the known one
+   *
+   * @param event - A relay list event received from anywhere
+   * @returns True if the event replaced the cached list
+   */
+  add(event: NostrEvent): boolean {
+    const key =
+      event.kind === KEY_PACKAGE_RELAY_LIST_KIND
+        ? "keyPackageRelayList"
+        : event.kind === kinds.RelayList
+          ? "mailboxes"
+          : undefined;
+    if (!key) return false;
+
+    const lists = this.#lists.get(event.pubkey) ?? {};
+    const current = lists[key];
+    if (current && current.created_at >= event.created_at) return false;
+
+    const before = getRelays(lists);
+    const updated = { ...lists, [key]: event };
+    this.#lists.set(event.pubkey, updated);
+
+    const relays = getRelays(updated);
+    if (relays.join() !== before.join())
+      this.emit("relaysChanged", event.pubkey, relays);
+    return true;
+  }
+
+  /** Forgets the cached relay lists of a user, or of all users */
+  clear(pubkey?: string): void {
+    if (pubkey) this.#lists.delete(pubkey);
+    else this.#lists.clear();
+  }
+}
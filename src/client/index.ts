@@ -1,4 +1,10 @@
 export * from "./nostr-interface.js";
 export * from "./marmot-client.js";
 export * from "./group/index.js";
+export * from "./inbox-relay-resolver.js";
+export * from "./invite-inbox.js";
 export * from "./invite-reader.js";
+export * from "./group-sync.js";
+export * from "./key-package-discovery.js";
+export * from "./key-package-manager.js";
+export * from "./key-rotation.js";
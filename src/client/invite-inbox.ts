@@ -0,0 +1,171 @@
+import { kinds, type NostrEvent } from "applesauce-core/helpers/event";
+import { EventEmitter } from "eventemitter3";
+import type { InviteStore, UnreadInvite } from "../store/invite-store.js";
+import { MemoryKeyValueStore } from "../utils/key-value.js";
+import { unixNow } from "../utils/nostr.js";
+import type { MarmotGroup } from "./group/marmot-group.js";
+import { InviteReader } from "./invite-reader.js";
+import type { MarmotClient } from "./marmot-client.js";
+import type { Unsubscribable } from "./nostr-interface.js";
+
+/**
+ * How far (in seconds) before the cursor the inbox is backfilled.
+ * NIP-59 gift wraps carry a randomized `created_at` up to two days in the past.
+ */
+export const GIFT_WRAP_LOOKBACK = 2 * 24 * 60 * 60;
+
+/** A map of events that can be emitted by an {@link InviteInbox} */
+type InviteInboxEvents = {
+  /** Emitted when an invite was accepted and its group joined */
+  inviteAccepted: (invite: UnreadInvite, group: MarmotGroup<any>) => void;
+  /** Emitted when an invite was declined */
+  inviteDeclined: (invite: UnreadInvite) => void;
+  /** Emitted when loading the inbox relays, backfilling or storing gift wraps fails */
+  syncFailed: (error: Error) => void;
+};
+
+/**
+ * Receives the invites of a {@link MarmotClient} from the user's inbox relays.
+ *
+ * Subscribes to the kind 1059 gift wraps addressed to the user on the relays
+ * returned by {@link NostrNetworkInterface.getUserInboxRelays}, backfills the
+ * ones published since the persisted cursor and feeds them to an
+ * {@link InviteReader}. Decrypting is left to the app since it may prompt the
+ * user, decrypted invites are then accepted or declined.
+ */
+export class InviteInbox extends EventEmitter<InviteInboxEvents> {
+  readonly client: MarmotClient<any>;
+  readonly store: InviteStore;
+  /** The reader that decrypts and stores the received gift wraps */
+  readonly reader: InviteReader;
+
+  #cursor: NonNullable<InviteStore["cursor"]>;
+  #subscription?: Unsubscribable;
+  #pending = new Set<Promise<void>>();
+  #relays: string[] = [];
+
+  constructor(client: MarmotClient<any>, store: InviteStore) {
+    super();
+    this.client = client;
+    this.store = store;
+    this.reader = new InviteReader({ signer: client.signer, store });
+    this.#cursor = store.cursor ?? new MemoryKeyValueStore();
+  }
+
+  /** Whether the inbox subscription is open */
+  get running() {
+    return this.#subscription !== undefined;
+  }
+
+  /** The inbox relays the subscription was opened on */
+  get relays(): string[] {
+    return this.#relays;
+  }
+
+  /** Opens the inbox subscription and backfills the gift wraps published since the last sync */
+  async start(): Promise<void> {
+    if (this.#subscription) return;
+
+    const pubkey = await this.client.signer.getPublicKey();
+    const relays = await this.client.network.getUserInboxRelays(pubkey);
+    if (this.#subscription) return;
+    this.#relays = relays;
+
+    const startedAt = unixNow();
+    this.#subscription = this.client.network
+      .subscription(relays, {
+        kinds: [kinds.GiftWrap],
+        "#p": [pubkey],
+        since: startedAt - GIFT_WRAP_LOOKBACK,
+      })
+      .subscribe({
+        next: (value) => this.receive(Array.isArray(value) ? value : [value]),
+        error: (error) => this.emit("syncFailed", error as Error),
+      });
+
+    // Backfill from the cursor, then move it to when the backfill started
+    const cursor = await this.#cursor.getItem(pubkey);
+    try {
+      this.receive(
+        await this.client.network.request(relays, {
+          kinds: [kinds.GiftWrap],
+          "#p": [pubkey],
+          ...(cursor ? { since: cursor - GIFT_WRAP_LOOKBACK } : {}),
+        }),
+      );
+      await this.idle();
+      await this.#cursor.setItem(pubkey, startedAt);
+    } catch (error) {
+      this.emit("syncFailed", error as Error);
+    }
+  }
+
+  /** Closes the inbox subscription */
+  stop(): void {
+    this.#subscription?.unsubscribe();
+    this.#subscription = undefined;
+  }
+
+  /** Waits until all received gift wraps are stored */
+  async idle(): Promise<void> {
+    while (this.#pending.size > 0) await Promise.all(this.#pending);
+  }
+
+  /** Stores received gift wraps in the reader, ignoring other events */
+  private receive(events: NostrEvent[]) {
+    const giftWraps = events.filter((event) => event.kind === kinds.GiftWrap);
+    if (giftWraps.length === 0) return;
+
+    const pending = this.reader
+      .ingestEvents(giftWraps)
+      .then(() => {})
+      .catch((error) => {
+        this.emit("syncFailed", error as Error);
+      })
+      .finally(() => this.#pending.delete(pending));
+    this.#pending.add(pending);
+  }
+
+  /** Decrypts the received gift wraps, see {@link InviteReader.decryptGiftWraps} */
+  async decrypt(): Promise<UnreadInvite[]> {
+    return await this.reader.decryptGiftWraps();
+  }
+
+  /** Gets the decrypted invites that were not accepted or declined yet */
+  async getUnread(): Promise<UnreadInvite[]> {
+    return await this.reader.getUnread();
+  }
+
+  /** Gets an unread invite or throws if it doesn't exist */
+  private async getInvite(inviteId: string): Promise<UnreadInvite> {
+    const invite = await this.store.unread.getItem(inviteId);
+    if (!invite) throw new Error(`Invite ${inviteId} not found`);
+    return invite;
+  }
+
+  /**
+   * Joins the group of an invite and marks the invite as read
+   *
+   * @param inviteId - The id of the Welcome rumor
+   * @returns The joined group
+   */
+  async accept(inviteId: string): Promise<MarmotGroup<any>> {
+    const invite = await this.getInvite(inviteId);
+    const group = await this.client.joinGroupFromWelcome({
+      welcomeRumor: invite,
+    });
+    await this.reader.markAsRead(inviteId);
+    this.emit("inviteAccepted", invite, group);
+    return group;
+  }
+
+  /**
+   * Marks an invite as read without joining its group
+   * @param inviteId - The id of the Welcome rumor
+   */
+  async decline(inviteId: string): Promise<void> {
+    const invite = await this.getInvite(inviteId);
+    await this.reader.markAsRead(inviteId);
+    this.emit("inviteDeclined", invite);
+  }
+}
@@ -0,0 +1,96 @@
+import type { NostrEvent } from "applesauce-core/helpers/event";
+import type { KeyPackage } from "ts-mls";
+import { hasLastResortExtension } from "../core/extensions.js";
+import {
+  KeyPackageGroupRequirements,
+  KeyPackageValidationReport,
+  KeyPackageValidator,
+} from "../core/key-package-validator.js";
+import { KEY_PACKAGE_KIND } from "../core/protocol.js";
+import type { NostrNetworkInterface } from "./nostr-interface.js";
+
+/** A kind 443 event found for a user and its validation report */
+export type KeyPackageCandidate = {
+  event: NostrEvent;
+  report: KeyPackageValidationReport;
+};
+
+/** The outcome of {@link discoverKeyPackage} */
+export type KeyPackageDiscovery = {
+  /** The user the key packages were requested for */
+  pubkey: string;
+  /** The relays the key packages were requested from */
+  relays: string[];
+  /** The best valid key package, undefined if the user has none */
+  selected?: KeyPackageCandidate & { keyPackage: KeyPackage };
+  /** Every key package event that was found, including the invalid ones */
+  candidates: KeyPackageCandidate[];
+};
+
+/** Options for {@link discoverKeyPackage} */
+export type DiscoverKeyPackageOptions = {
+  /** The requirements of the group the key package is for, e.g. `group.state.groupContext` (optional) */
+  group?: KeyPackageGroupRequirements;
+  /** The validator to check the key packages with (defaults to a new {@link KeyPackageValidator}) */
+  validator?: KeyPackageValidator;
+  /** The relays to request the key packages from (defaults to the user's inbox relays) */
+  relays?: string[];
+};
+
+/** Sorts valid candidates so single-use key packages come before last resort ones, then newest first */
+function compareCandidates(
+  a: KeyPackageCandidate & { keyPackage: KeyPackage },
+  b: KeyPackageCandidate & { keyPackage: KeyPackage },
+): number {
+  const lastResort =
+    Number(hasLastResortExtension(a.keyPackage.extensions)) -
+    Number(hasLastResortExtension(b.keyPackage.extensions));
+  return lastResort || b.event.created_at - a.event.created_at;
+}
+
+/**
+ * Finds a user's kind 443 events on their key package relays and picks the best one
+ * that passes validation for a group.
+ *
+ * Single-use key packages are preferred over last resort ones so those stay available
+ * for when nothing else is left, and newer key packages are preferred over older ones.
+ *
+ * @param network - The network to request the relays and key packages from
+ * @param pubkey - The public key (hex string) of the user
+ * @param options - The group requirements, validator and relays to use
+ */
+export async function discoverKeyPackage(
+  network: Pick<NostrNetworkInterface, "request" | "getUserInboxRelays">,
+  pubkey: string,
+  options: DiscoverKeyPackageOptions = {},
+): Promise<KeyPackageDiscovery> {
+  const validator = options.validator ?? new KeyPackageValidator();
+  const relays = options.relays ?? (await network.getUserInboxRelays(pubkey));
+  if (relays.length === 0) return { pubkey, relays, candidates: [] };
+
+  const events = await network.request(relays, {
+    kinds: [KEY_PACKAGE_KIND],
+    authors: [pubkey],
+  });
+
+  const candidates: KeyPackageCandidate[] = [];
+  const seen = new Set<string>();
+  for (const event of events) {
+    if (event.pubkey !== pubkey || seen.has(event.id)) continue;
+    seen.add(event.id);
+    candidates.push({
+      event,
+      report: await validator.validate(event, options.group),
+    });
+  }
+
+  const [selected] = candidates
+    .flatMap(({ event, report }) =>
+      report.valid && report.keyPackage
+        ? [{ event, report, keyPackage: report.keyPackage }]
+        : [],
+    )
+    .sort(compareCandidates);
+
+  return { pubkey, relays, selected, candidates };
+}
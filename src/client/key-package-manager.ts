@@ -0,0 +1,246 @@
+import { bytesToHex } from "@noble/hashes/utils.js";
+import type { NostrEvent } from "applesauce-core/helpers/event";
+import { EventEmitter } from "eventemitter3";
+import { CiphersuiteName, ciphersuites } from "ts-mls/crypto/ciphersuite.js";
+import { createCredential } from "../core/credential.js";
+import { hasLastResortExtension } from "../core/extensions.js";
+import {
+  calculateKeyPackageRef,
+  generateKeyPackage,
+  getKeyPackageExpiry,
+} from "../core/key-package.js";
+import {
+  createDeleteKeyPackageEvent,
+  createKeyPackageEvent,
+  getKeyPackage,
+} from "../core/key-package-event.js";
+import { KEY_PACKAGE_KIND } from "../core/protocol.js";
+import type { ListedKeyPackage } from "../store/key-package-store.js";
+import { hasAck, unixNow } from "../utils/nostr.js";
+import { NoRelayReceivedEventError } from "./errors.js";
+import type { MarmotClient } from "./marmot-client.js";
+
+/** Options for the key packages a {@link KeyPackageManager} keeps published */
+export type KeyPackagePoolOptions = {
+  /** How many valid key packages to keep published per ciphersuite, including the last resort one (default 3) */
+  size?: number;
+  /** The ciphersuites to keep key packages for (default MLS_128_DHKEMX25519_AES128GCM_SHA256_Ed25519) */
+  ciphersuites?: CiphersuiteName[];
+  /** Replace key packages this many seconds before their lifetime ends (default 14 days) */
+  renewBefore?: number;
+  /** How often (in milliseconds) {@link KeyPackageManager.start} checks the pool (default 1 hour) */
+  checkInterval?: number;
+  /** The client name added to published key package events (optional) */
+  clientName?: string;
+};
+
+/** What a {@link KeyPackageManager.replenish} run changed */
+export type KeyPackagePoolReport = {
+  /** Kind 443 events that were published for new or missing key packages */
+  published: NostrEvent[];
+  /** Ids of kind 443 events that were deleted because their key package expires or is unknown */
+  deleted: string[];
+  /** References of expired key packages that were removed from the store */
+  removed: Uint8Array[];
+};
+
+/** A map of events that can be emitted by a {@link KeyPackageManager} */
+type KeyPackageManagerEvents = {
+  /** Emitted after the pool was checked and replenished */
+  replenished: (report: KeyPackagePoolReport) => void;
+  /** Emitted when a scheduled check fails */
+  replenishFailed: (error: Error) => void;
+};
+
+const DEFAULT_POOL_SIZE = 3;
+const DEFAULT_RENEW_BEFORE = 14 * 24 * 60 * 60;
+const DEFAULT_CHECK_INTERVAL = 60 * 60 * 1000;
+
+/**
+ * Keeps a healthy supply of the user's key packages on their key package relays
+ * (the kind 10051 relays returned by {@link NostrNetworkInterface.getUserInboxRelays}).
+ *
+ * For each configured ciphersuite it keeps {@link KeyPackagePoolOptions.size} valid
+ * key packages published, one of them a last resort package. Key packages close to the
+ * end of their lifetime are deleted from the relays and replaced, stored key packages
+ * missing from the relays are published again, and events whose private key is no
+ * longer stored are deleted.
+ */
+export class KeyPackageManager extends EventEmitter<KeyPackageManagerEvents> {
+  readonly client: MarmotClient<any>;
+  readonly size: number;
+  readonly ciphersuites: CiphersuiteName[];
+  readonly renewBefore: number;
+  readonly checkInterval: number;
+  readonly clientName?: string;
+
+  #timer?: ReturnType<typeof setInterval>;
+  #replenishing?: Promise<KeyPackagePoolReport>;
+
+  constructor(client: MarmotClient<any>, options: KeyPackagePoolOptions = {}) {
+    super();
+    this.client = client;
+    this.size = Math.max(1, options.size ?? DEFAULT_POOL_SIZE);
+    this.ciphersuites = options.ciphersuites ?? [
+      "MLS_128_DHKEMX25519_AES128GCM_SHA256_Ed25519",
+    ];
+    this.renewBefore = options.renewBefore ?? DEFAULT_RENEW_BEFORE;
+    this.checkInterval = options.checkInterval ?? DEFAULT_CHECK_INTERVAL;
+    this.clientName = options.clientName;
+  }
+
+  /** Whether the pool is checked periodically */
+  get running() {
+    return this.#timer !== undefined;
+  }
+
+  private handleKeyPackageConsumed = () => {
+    this.replenish().catch((error) =>
+      this.emit("replenishFailed", error as Error),
+    );
+  };
+
+  /** Replenishes the pool now, then periodically and whenever a Welcome consumes a key package */
+  async start(): Promise<KeyPackagePoolReport> {
+    if (!this.#timer) {
+      this.#timer = setInterval(
+        this.handleKeyPackageConsumed,
+        this.checkInterval,
+      );
+      this.client.on("keyPackageConsumed", this.handleKeyPackageConsumed);
+    }
+    return await this.replenish();
+  }
+
+  /** Stops the periodic checks */
+  stop(): void {
+    if (!this.#timer) return;
+    clearInterval(this.#timer);
+    this.#timer = undefined;
+    this.client.off("keyPackageConsumed", this.handleKeyPackageConsumed);
+  }
+
+  /**
+   * Checks the published key packages against the store and fixes the pool, concurrent calls share one run
+   * @throws {NoRelayReceivedEventError} If no relay acknowledged one of the published events, the others are still published
+   */
+  replenish(): Promise<KeyPackagePoolReport> {
+    if (!this.#replenishing)
+      this.#replenishing = this.replenishPool().finally(() => {
+        this.#replenishing = undefined;
+      });
+    return this.#replenishing;
+  }
+
+  private async replenishPool(): Promise<KeyPackagePoolReport> {
+    const { signer, network, keyPackageStore } = this.client;
+    const pubkey = await signer.getPublicKey();
+    const relays = await network.getUserInboxRelays(pubkey);
+    if (relays.length === 0)
+      throw new Error("No key package relays found for the user");
+
+    const report: KeyPackagePoolReport = {
+      published: [],
+      deleted: [],
+      removed: [],
+    };
+    const now = unixNow();
+    const unacknowledged: string[] = [];
+
+    // Find the key packages that are already on the relays
+    const events = await network.request(relays, {
+      kinds: [KEY_PACKAGE_KIND],
+      authors: [pubkey],
+    });
+    const published = new Map<string, NostrEvent[]>();
+    for (const event of events) {
+      if (event.pubkey !== pubkey) continue;
+      let ref: string;
+      try {
+        ref = bytesToHex(await calculateKeyPackageRef(getKeyPackage(event)));
+      } catch {
+        continue;
+      }
+      published.set(ref, [...(published.get(ref) ?? []), event]);
+    }
+
+    // Drop expired key packages and keep the ones that stay valid long enough
+    const valid = new Map<string, ListedKeyPackage>();
+    for (const stored of await keyPackageStore.list()) {
+      const expiry = getKeyPackageExpiry(stored.publicPackage);
+      if (expiry !== undefined && expiry <= now) {
+        await keyPackageStore.remove(stored.keyPackageRef);
+        report.removed.push(stored.keyPackageRef);
+      } else if (expiry === undefined || expiry - now > this.renewBefore) {
+        valid.set(bytesToHex(stored.keyPackageRef), stored);
+      }
+    }
+
+    // Fill up the pool of each ciphersuite, starting with a last resort package
+    for (const name of this.ciphersuites) {
+      const packages = Array.from(valid.values()).filter(
+        (p) => p.publicPackage.cipherSuite === ciphersuites[name],
+      );
+      let hasLastResort = packages.some((p) =>
+        hasLastResortExtension(p.publicPackage.extensions),
+      );
+
+      for (let i = packages.length; i < this.size || !hasLastResort; i++) {
+        const keyPackage = await generateKeyPackage({
+          credential: createCredential(pubkey),
+          capabilities: this.client.capabilities,
+          lastResort: !hasLastResort,
+          ciphersuiteImpl: await this.client.cryptoProvider.getCiphersuiteImpl(
+            ciphersuites[name],
+          ),
+        });
+        hasLastResort = true;
+        await keyPackageStore.add(keyPackage);
+
+        const keyPackageRef = await calculateKeyPackageRef(
+          keyPackage.publicPackage,
+          this.client.cryptoProvider,
+        );
+        valid.set(bytesToHex(keyPackageRef), {
+          keyPackageRef,
+          publicPackage: keyPackage.publicPackage,
+        });
+      }
+    }
+
+    // Publish the valid key packages that are missing from the relays
+    for (const [ref, keyPackage] of valid) {
+      if (published.has(ref)) continue;
+      const event = await signer.signEvent(
+        createKeyPackageEvent({
+          keyPackage: keyPackage.publicPackage,
+          relays,
+          client: this.clientName,
+        }),
+      );
+      if (hasAck(await network.publish(relays, event)))
+        report.published.push(event);
+      else unacknowledged.push(event.id);
+    }
+
+    // Delete the events of key packages that expire soon or can't be used anymore
+    const stale = Array.from(published)
+      .filter(([ref]) => !valid.has(ref))
+      .flatMap(([, events]) => events);
+    if (stale.length > 0) {
+      const deletion = await signer.signEvent(
+        createDeleteKeyPackageEvent({ events: stale }),
+      );
+      if (hasAck(await network.publish(relays, deletion)))
+        report.deleted.push(...stale.map((event) => event.id));
+      else unacknowledged.push(deletion.id);
+    }
+
+    // The next check publishes whatever is still missing from the relays
+    if (unacknowledged.length > 0)
+      throw new NoRelayReceivedEventError(unacknowledged[0]);
+
+    this.emit("replenished", report);
+    return report;
+  }
+}
@@ -0,0 +1,110 @@
+import { bytesToHex } from "@noble/hashes/utils.js";
+import type { ClientState } from "ts-mls/clientState.js";
+import { extensionsEqual } from "ts-mls/extension.js";
+import { nodeTypes } from "ts-mls/nodeType.js";
+import { unixNow } from "../utils/nostr.js";
+
+/** A policy for how often the local member should send a self-update commit in a group */
+export type KeyRotationPolicy = {
+  /**
+   * Rotate once this many epochs have passed since the local leaf last changed.
+   * Epochs created by other members' self-updates are not counted, so members
+   * don't keep triggering each other's rotations.
+   */
+  maxEpochs?: number;
+  /** Rotate once this many seconds have passed since the local leaf last changed */
+  maxAge?: number;
+};
+
+/** When the local member last rotated its keys in a group */
+export type KeyRotationRecord = {
+  /** The epoch the local leaf last changed in (or the epoch the group was first seen at) */
+  epoch: number;
+  /** Unix timestamp of the leaf change (or of when the group was first seen) */
+  updatedAt: number;
+  /** Epochs since then that were other members' self-updates, they don't count towards maxEpochs */
+  skippedEpochs?: number;
+};
+
+/**
+ * Checks whether a {@link KeyRotationPolicy} requires a self-update.
+ * Non-positive limits are ignored so a policy can never cause a rotation loop.
+ *
+ * @param policy - The rotation policy for the group
+ * @param record - When the keys were last rotated
+ * @param epoch - The current epoch of the group
+ * @param now - The current unix timestamp
+ */
+export function isKeyRotationDue(
+  policy: KeyRotationPolicy,
+  record: KeyRotationRecord,
+  epoch: bigint,
+  now = unixNow(),
+): boolean {
+  if (
+    policy.maxEpochs !== undefined &&
+    policy.maxEpochs > 0 &&
+    epoch - BigInt(record.epoch) - BigInt(record.skippedEpochs ?? 0) >=
+      BigInt(policy.maxEpochs)
+  )
+    return true;
+
+  if (
+    policy.maxAge !== undefined &&
+    policy.maxAge > 0 &&
+    now - record.updatedAt >= policy.maxAge
+  )
+    return true;
+
+  return false;
+}
+
+/** Gets the leaf HPKE keys of a ratchet tree by leaf index, blank leaves are undefined */
+function getLeafKeys(state: ClientState): (string | undefined)[] {
+  return state.ratchetTree
+    .filter((_, nodeIndex) => nodeIndex % 2 === 0)
+    .map((node) =>
+      node?.nodeType === nodeTypes.leaf
+        ? bytesToHex(node.leaf.hpkePublicKey)
+        : undefined,
+    );
+}
+
+/**
+ * Works out how a commit affects the local member's key rotation.
+ *
+ * @param previous - The group state before the commit
+ * @param next - The group state after the commit
+ * @returns "ownLeaf" if the local leaf got new keys, "othersSelfUpdate" if the
+ *   commit only replaced another member's leaf keys, and undefined otherwise
+ */
+export function getKeyRotationEffect(
+  previous: ClientState,
+  next: ClientState,
+): "ownLeaf" | "othersSelfUpdate" | undefined {
+  if (next.groupContext.epoch <= previous.groupContext.epoch) return undefined;
+
+  const before = getLeafKeys(previous);
+  const after = getLeafKeys(next);
+  const ownLeafIndex = next.privatePath.leafIndex;
+  if (
+    after[ownLeafIndex] !== undefined &&
+    after[ownLeafIndex] !== before[ownLeafIndex]
+  )
+    return "ownLeaf";
+
+  // A self-update leaves the members and the group context extensions alone
+  if (
+    next.groupContext.epoch !== previous.groupContext.epoch + 1n ||
+    before.length !== after.length ||
+    before.some((key, i) => (key === undefined) !== (after[i] === undefined)) ||
+    !extensionsEqual(
+      previous.groupContext.extensions,
+      next.groupContext.extensions,
+    )
+  )
+    return undefined;
+
+  const updated = before.filter((key, i) => key !== after[i]);
+  return updated.length === 1 ? "othersSelfUpdate" : undefined;
+}
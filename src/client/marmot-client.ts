@@ -2,6 +2,7 @@ import { bytesToHex } from "@noble/hashes/utils.js";
 import { Rumor } from "applesauce-common/helpers/gift-wrap";
 import { EventSigner } from "applesauce-core";
 import { hexToBytes } from "applesauce-core/helpers";
+import { NostrEvent } from "applesauce-core/helpers/event";
 import { EventEmitter } from "eventemitter3";
 import {
   Capabilities,
@@ -17,25 +18,119 @@ import { marmotAuthService } from "../core/auth-service.js";
 import { createCredential } from "../core/credential.js";
 import { defaultCapabilities } from "../core/default-capabilities.js";
 import { createSimpleGroup, SimpleGroupOptions } from "../core/group.js";
+import { hasLastResortExtension } from "../core/extensions.js";
 import { generateKeyPackage } from "../core/key-package.js";
+import {
+  createDeleteKeyPackageEvent,
+  createKeyPackageEvent,
+} from "../core/key-package-event.js";
+import {
+  createKeyPackageRelayListEvent,
+  getKeyPackageRelayList,
+} from "../core/key-package-relay-list.js";
+import { KeyPackageValidator } from "../core/key-package-validator.js";
 import { getWelcome } from "../core/welcome.js";
+import { GROUP_EVENT_KIND } from "../core/protocol.js";
 import {
-  deserializeClientState,
+  deserializeGroupState,
+  extractMarmotGroupData,
   serializeClientState,
   SerializedClientState,
 } from "../core/client-state.js";
+import { PastEpochKeys } from "../core/epoch-retention.js";
 import {
   GroupStateStore,
   GroupStateStoreBackend,
 } from "../store/group-state-store.js";
+import { BlobStore } from "../store/blob-store.js";
+import { InviteStore } from "../store/invite-store.js";
 import { KeyPackageStore } from "../store/key-package-store.js";
+import { MediaKeyStore } from "../store/media-key-store.js";
+import {
+  PendingEventStore,
+  PendingGroupEvent,
+} from "../store/pending-event-store.js";
+import { OutboxMessage, OutboxStore } from "../store/outbox-store.js";
+import { SyncCursor, SyncCursorStore } from "../store/sync-cursor-store.js";
+import {
+  ProcessedEventRecord,
+  ProcessedEventStore,
+} from "../store/processed-event-store.js";
+import {
+  KeyValueStoreBackend,
+  MemoryKeyValueStore,
+} from "../utils/key-value.js";
+import { getTagValue, hasAck, unixNow } from "../utils/nostr.js";
+import { AutoCommitPolicy, getAutoCommitDelay } from "./group/auto-commit.js";
+import {
+  MissingKeyPackagesError,
+  NoRelayReceivedEventError,
+  UnresolvedTransitionError,
+} from "./errors.js";
+import { GroupSync } from "./group-sync.js";
+import { InboxRelayResolver } from "./inbox-relay-resolver.js";
+import { InviteInbox } from "./invite-inbox.js";
+import { discoverKeyPackage } from "./key-package-discovery.js";
+import {
+  KeyPackageManager,
+  KeyPackagePoolOptions,
+} from "./key-package-manager.js";
 import {
   BaseGroupHistory,
   GroupHistoryFactory,
+  IngestResult,
+  InviteUserResult,
   MarmotGroup,
 } from "./group/marmot-group.js";
+import {
+  getKeyRotationEffect,
+  isKeyRotationDue,
+  KeyRotationPolicy,
+  KeyRotationRecord,
+} from "./key-rotation.js";
 import { NostrNetworkInterface } from "./nostr-interface.js";
 
+/** The outcome of ingesting the events routed to one group by {@link MarmotClient.ingest} */
+export type GroupIngestReport<
+  THistory extends BaseGroupHistory | undefined = any,
+> = {
+  /** The group the events were routed to */
+  group: MarmotGroup<THistory>;
+  /** The events routed to the group */
+  events: NostrEvent[];
+  /** The counts returned by the group's ingest, unless it threw */
+  result?: IngestResult;
+  /** The error the group's ingest threw */
+  error?: Error;
+};
+
+/** The options of {@link MarmotClient.createGroup} */
+export type CreateGroupOptions = SimpleGroupOptions & {
+  ciphersuite?: CiphersuiteName;
+  /** The pubkeys of the users to add in the first commit (optional) */
+  members?: string[];
+};
+
+/** The result of {@link MarmotClient.createGroup} when initial members are given */
+export type CreateGroupWithMembersResult<
+  THistory extends BaseGroupHistory | undefined = any,
+> = {
+  /** The created group */
+  group: MarmotGroup<THistory>;
+  /** How each initial member was added, in the order of the `members` option */
+  invites: InviteUserResult[];
+};
+
+/** The result of {@link MarmotClient.ingest} */
+export type ClientIngestResult<
+  THistory extends BaseGroupHistory | undefined = any,
+> = {
+  /** One report per group that received events */
+  groups: GroupIngestReport<THistory>[];
+  /** Events that are not group events or whose `h` tag doesn't belong to a loaded group */
+  unroutable: NostrEvent[];
+};
+
 export type MarmotClientOptions<
   THistory extends BaseGroupHistory | undefined = undefined,
 > = {
@@ -43,7 +138,7 @@ export type MarmotClientOptions<
   signer: EventSigner;
   /** The capabilities to use for the client */
   capabilities?: Capabilities;
-  /** The backend to store and load the groups from */
+  /** The backend to store and load the groups from, it also keeps the journal of group state transitions */
   groupStateBackend: GroupStateStoreBackend;
   /** The backend to store and load the key packages from */
   keyPackageStore: KeyPackageStore;
@@ -51,6 +146,46 @@ export type MarmotClientOptions<
   cryptoProvider?: CryptoProvider;
   /** The nostr relay pool to use for the client. Should implement GroupNostrInterface for group operations. */
   network: NostrNetworkInterface;
+  /** The blob store used by groups for encrypted media (optional) */
+  blobStore?: BlobStore;
+  /** Backend used to keep media secrets of past epochs so older attachments stay readable (optional) */
+  mediaKeyBackend?: KeyValueStoreBackend<Uint8Array>;
+  /** How often to send self-update commits, either for every group or resolved per group (optional) */
+  keyRotationPolicy?:
+    | KeyRotationPolicy
+    | ((group: MarmotGroup<THistory>) => KeyRotationPolicy | undefined);
+  /** Backend used to remember when the keys of each group were last rotated (optional, defaults to in-memory) */
+  keyRotationBackend?: KeyValueStoreBackend<KeyRotationRecord>;
+  /** Which pending proposals admins commit automatically, either for every group or resolved per group (optional) */
+  autoCommitPolicy?:
+    | AutoCommitPolicy
+    | ((group: MarmotGroup<THistory>) => AutoCommitPolicy | undefined);
+  /** How many past epochs groups keep secrets for so late messages can still be decrypted (default 4) */
+  epochRetention?: number;
+  /** How many past epochs groups keep media secrets for so older attachments stay readable (defaults to {@link epochRetention}) */
+  mediaKeyRetention?: number;
+  /** Backend used to keep group events that can't be processed yet until their epoch arrives (optional, defaults to in-memory) */
+  pendingEventBackend?: KeyValueStoreBackend<PendingGroupEvent>;
+  /** Backend used to remember which group events were already handled (optional, defaults to in-memory) */
+  processedEventBackend?: KeyValueStoreBackend<ProcessedEventRecord>;
+  /** Backend used to keep encrypted messages until a relay acknowledges them (optional, defaults to in-memory) */
+  outboxBackend?: KeyValueStoreBackend<OutboxMessage>;
+  /** Backend used to remember how far each group was synced by {@link MarmotClient.sync} (optional, defaults to in-memory) */
+  syncCursorBackend?: KeyValueStoreBackend<SyncCursor>;
+  /** How many seconds before their cursors {@link MarmotClient.sync} backfills groups from (default 10 minutes) */
+  syncBackfillMargin?: number;
+  /** How many groups {@link MarmotClient.ingest} processes events for at the same time (default 4) */
+  ingestConcurrency?: number;
+  /** The backends used by {@link MarmotClient.invites} to keep received invites (optional, defaults to in-memory) */
+  inviteStore?: InviteStore;
+  /** Whether to publish a fresh key package after joining a group consumed a single-use one (default false) */
+  replaceConsumedKeyPackages?: boolean;
+  /** How {@link MarmotClient.keyPackages} keeps the user's key packages published (optional) */
+  keyPackagePool?: KeyPackagePoolOptions;
+  /** The validator groups use to check the key packages of invited users (optional, defaults to one using the client's crypto provider) */
+  keyPackageValidator?: KeyPackageValidator;
+  /** The resolver behind {@link NostrNetworkInterface.getUserInboxRelays}, updated when the client publishes its relay list (optional) */
+  inboxRelayResolver?: InboxRelayResolver;
 } & (THistory extends undefined
   ? {}
   : {
@@ -77,6 +212,19 @@ type MarmotClientEvents<THistory extends BaseGroupHistory | undefined = any> = {
   groupUnloaded: (groupId: Uint8Array) => void;
   /** Emitted when a group is destroyed */
   groupDestroyed: (groupId: Uint8Array) => void;
+  /** Emitted when a scheduled key rotation fails */
+  keyRotationFailed: (group: MarmotGroup<THistory>, error: Error) => void;
+  /**
+   * Emitted after a single-use key package was removed because a Welcome consumed it.
+   * The deletion and replacement events are only passed when a relay acknowledged them.
+   */
+  keyPackageConsumed: (
+    keyPackageRef: Uint8Array,
+    deletion?: NostrEvent,
+    replacement?: NostrEvent,
+  ) => void;
+  /** Emitted when {@link MarmotClient.ingest} receives events it can't route to a loaded group */
+  unroutableEvents: (events: NostrEvent[]) => void;
 };
 
 export class MarmotClient<
@@ -92,6 +240,46 @@ export class MarmotClient<
   readonly keyPackageStore: KeyPackageStore;
   /** The nostr relay pool to use for the client */
   readonly network: NostrNetworkInterface;
+  /** The blob store used by groups for encrypted media */
+  readonly blobStore?: BlobStore;
+  /** The store used by groups to keep media secrets of past epochs */
+  readonly mediaKeyStore?: MediaKeyStore;
+  /** The key rotation policy enforced for loaded groups */
+  readonly keyRotationPolicy?:
+    | KeyRotationPolicy
+    | ((group: MarmotGroup<THistory>) => KeyRotationPolicy | undefined);
+  /** The backend used to remember when group keys were last rotated */
+  private keyRotationBackend?: KeyValueStoreBackend<KeyRotationRecord>;
+  /** The auto-commit policy applied to loaded groups */
+  readonly autoCommitPolicy?:
+    | AutoCommitPolicy
+    | ((group: MarmotGroup<THistory>) => AutoCommitPolicy | undefined);
+  /** How many past epochs groups keep secrets for */
+  readonly epochRetention?: number;
+  /** How many past epochs groups keep media secrets for */
+  readonly mediaKeyRetention?: number;
+  /** The store used by groups to keep events waiting for their epoch */
+  readonly pendingEventStore?: PendingEventStore;
+  /** The store used by groups to remember handled events */
+  readonly processedEventStore?: ProcessedEventStore;
+  /** The store used by groups to keep messages until a relay acknowledges them */
+  readonly outboxStore?: OutboxStore;
+  /** The store used to remember how far each group was synced */
+  readonly syncCursorStore?: SyncCursorStore;
+  /** How many seconds before their cursors groups are backfilled from by {@link sync} */
+  readonly syncBackfillMargin?: number;
+  /** How many groups {@link ingest} processes events for at the same time */
+  readonly ingestConcurrency: number;
+  /** The invites received on the user's inbox relays */
+  readonly invites: InviteInbox;
+  /** Whether a fresh key package is published after joining a group consumed a single-use one */
+  readonly replaceConsumedKeyPackages: boolean;
+  /** Keeps a pool of the user's key packages published on their key package relays */
+  readonly keyPackages: KeyPackageManager;
+  /** The validator groups use to check the key packages of invited users */
+  readonly keyPackageValidator: KeyPackageValidator;
+  /** The resolver that caches the users' inbox relays */
+  readonly inboxRelays?: InboxRelayResolver;
 
   /** Crypto provider for cryptographic operations */
   public cryptoProvider: CryptoProvider;
@@ -111,7 +299,44 @@ export class MarmotClient<
     this.groupStateStore = new GroupStateStore(options.groupStateBackend);
     this.keyPackageStore = options.keyPackageStore;
     this.network = options.network;
+    this.blobStore = options.blobStore;
+    if (options.mediaKeyBackend)
+      this.mediaKeyStore = new MediaKeyStore(options.mediaKeyBackend);
+    this.keyRotationPolicy = options.keyRotationPolicy;
+    this.keyRotationBackend = options.keyRotationBackend;
+    this.autoCommitPolicy = options.autoCommitPolicy;
+    this.epochRetention = options.epochRetention;
+    this.mediaKeyRetention = options.mediaKeyRetention;
+    if (options.pendingEventBackend)
+      this.pendingEventStore = new PendingEventStore(
+        options.pendingEventBackend,
+      );
+    if (options.processedEventBackend)
+      this.processedEventStore = new ProcessedEventStore(
+        options.processedEventBackend,
+      );
+    if (options.outboxBackend)
+      this.outboxStore = new OutboxStore(options.outboxBackend);
+    if (options.syncCursorBackend)
+      this.syncCursorStore = new SyncCursorStore(options.syncCursorBackend);
+    this.syncBackfillMargin = options.syncBackfillMargin;
+    this.ingestConcurrency = Math.max(1, options.ingestConcurrency ?? 4);
+    this.replaceConsumedKeyPackages =
+      options.replaceConsumedKeyPackages ?? false;
+    this.keyPackages = new KeyPackageManager(this, options.keyPackagePool);
+    this.inboxRelays = options.inboxRelayResolver;
+    this.invites = new InviteInbox(
+      this,
+      options.inviteStore ?? {
+        received: new MemoryKeyValueStore(),
+        unread: new MemoryKeyValueStore(),
+        seen: new MemoryKeyValueStore(),
+      },
+    );
     this.cryptoProvider = options.cryptoProvider ?? defaultCryptoProvider;
+    this.keyPackageValidator =
+      options.keyPackageValidator ??
+      new KeyPackageValidator({ cryptoProvider: this.cryptoProvider });
 
     // Set the history factory if its set in the options
     this.historyFactory = (
@@ -129,9 +354,12 @@ export class MarmotClient<
     return await this.cryptoProvider.getCiphersuiteImpl(id);
   }
 
-  /** Hydrates a SerializedClientState into a ClientState using this client's config */
-  private hydrateState(serialized: SerializedClientState): ClientState {
-    return deserializeClientState(serialized);
+  /** Hydrates a SerializedClientState into a ClientState and the NIP-44 keys of past epochs */
+  private hydrateState(serialized: SerializedClientState): {
+    state: ClientState;
+    pastEpochKeys: PastEpochKeys;
+  } {
+    return deserializeGroupState(serialized);
   }
 
   /** Serializes a ClientState into bytes */
@@ -145,32 +373,352 @@ export class MarmotClient<
   /** Tracks in-flight group loads to prevent duplicate instances under concurrency */
   #groupLoadPromises = new Map<string, Promise<MarmotGroup<THistory>>>();
 
+  /** Maps the nostr group ids (`h` tags) of loaded groups to their MLS group ids */
+  #nostrGroupIndex = new Map<string, string>();
+
+  /** Removes the listeners the client added to each loaded group */
+  #groupListeners = new Map<string, () => void>();
+
+  /** Per-group queue so events of a group are never ingested concurrently */
+  #ingestQueues = new Map<string, Promise<unknown>>();
+
+  /** How many groups are ingesting events and the groups waiting for a slot */
+  #ingestRunning = 0;
+  #ingestWaiting: (() => void)[] = [];
+
+  /** Waits until fewer than {@link ingestConcurrency} groups are ingesting */
+  private async acquireIngestSlot() {
+    if (this.#ingestRunning < this.ingestConcurrency) {
+      this.#ingestRunning++;
+      return;
+    }
+    // The slot is handed over by releaseIngestSlot
+    await new Promise<void>((resolve) => this.#ingestWaiting.push(resolve));
+  }
+
+  private releaseIngestSlot() {
+    const next = this.#ingestWaiting.shift();
+    if (next) next();
+    else this.#ingestRunning--;
+  }
+
+  /** Adds the current nostr group id of a group to the index, keeping the previous ones for late events */
+  private indexNostrGroupId(group: MarmotGroup<THistory>) {
+    const nostrGroupId = group.groupData?.nostrGroupId;
+    if (nostrGroupId)
+      this.#nostrGroupIndex.set(bytesToHex(nostrGroupId), group.idStr);
+  }
+
   /** Sets a group instance in the cache */
   private setGroupInstance(group: MarmotGroup<THistory>) {
+    // Detach from the instance this one replaces
+    this.#groupListeners.get(group.idStr)?.();
+
     this.#groups.set(bytesToHex(group.id), group);
+    this.indexNostrGroupId(group);
     this.emit("groupsUpdated", this.groups);
+
+    // Apply the client's auto-commit policy unless the group has its own
+    if (!group.autoCommitPolicy)
+      group.autoCommitPolicy =
+        typeof this.autoCommitPolicy === "function"
+          ? this.autoCommitPolicy(group)
+          : this.autoCommitPolicy;
+
+    // Keep routing events after a commit changes the nostr group id
+    const handleStateChanged = () => {
+      if (this.#groups.get(group.idStr) === group)
+        this.indexNostrGroupId(group);
+    };
+    // Drop groups that destroy themselves (e.g. after leaving)
+    const handleDestroyed = () => {
+      if (this.#groups.get(group.idStr) === group)
+        this.clearGroupInstance(group.id);
+    };
+    group.on("stateChanged", handleStateChanged);
+    group.once("destroyed", handleDestroyed);
+    const unwatchKeyRotation = this.watchKeyRotation(group);
+
+    this.#groupListeners.set(group.idStr, () => {
+      group.off("stateChanged", handleStateChanged);
+      group.off("destroyed", handleDestroyed);
+      unwatchKeyRotation();
+      this.#groupListeners.delete(group.idStr);
+    });
   }
   private clearGroupInstance(groupId: Uint8Array | string) {
     const id = typeof groupId === "string" ? groupId : bytesToHex(groupId);
 
     if (this.#groups.has(id)) {
+      this.#groupListeners.get(id)?.();
       this.#groups.delete(id);
+      this.unindexNostrGroupIds(id);
       this.emit("groupsUpdated", this.groups);
     }
   }
 
-  /** Loads a new group from the store */
+  /** Removes all nostr group ids of a group from the index */
+  private unindexNostrGroupIds(groupIdHex: string) {
+    for (const [nostrGroupId, id] of this.#nostrGroupIndex) {
+      if (id === groupIdHex) this.#nostrGroupIndex.delete(nostrGroupId);
+    }
+  }
+
+  /** Gets the loaded group that owns a nostr group id (the `h` tag of its group events) */
+  getGroupByNostrGroupId(
+    nostrGroupId: string,
+  ): MarmotGroup<THistory> | undefined {
+    const id = this.#nostrGroupIndex.get(nostrGroupId);
+    return id ? this.#groups.get(id) : undefined;
+  }
+
+  /**
+   * Routes kind 445 group events to the loaded groups that own their `h` tags and ingests them.
+   * At most {@link ingestConcurrency} groups ingest at the same time across all calls, while the
+   * events of a group are always ingested in the order they were passed, after any earlier call for the same group.
+   *
+   * @param events - Group events from any number of groups, for example from one shared subscription
+   * @returns A report per group and the events that could not be routed
+   */
+  async ingest(events: NostrEvent[]): Promise<ClientIngestResult<THistory>> {
+    const batches = new Map<MarmotGroup<THistory>, NostrEvent[]>();
+    const unroutable: NostrEvent[] = [];
+    for (const event of events) {
+      const nostrGroupId =
+        event.kind === GROUP_EVENT_KIND ? getTagValue(event, "h") : undefined;
+      const group = nostrGroupId && this.getGroupByNostrGroupId(nostrGroupId);
+      if (!group) {
+        unroutable.push(event);
+        continue;
+      }
+
+      const batch = batches.get(group);
+      if (batch) batch.push(event);
+      else batches.set(group, [event]);
+    }
+    if (unroutable.length > 0) this.emit("unroutableEvents", unroutable);
+
+    const reports = await Promise.all(
+      Array.from(batches, ([group, batch]) =>
+        this.ingestGroupEvents(group, batch),
+      ),
+    );
+
+    return { groups: reports, unroutable };
+  }
+
+  /** Ingests events into a group after the events already queued for it */
+  private ingestGroupEvents(
+    group: MarmotGroup<THistory>,
+    events: NostrEvent[],
+  ): Promise<GroupIngestReport<THistory>> {
+    const previous = this.#ingestQueues.get(group.idStr) ?? Promise.resolve();
+    const next = previous.then(async () => {
+      await this.acquireIngestSlot();
+      try {
+        const iterator = group.ingest(events);
+        let step = await iterator.next();
+        while (!step.done) step = await iterator.next();
+        return { group, events, result: step.value };
+      } catch (error) {
+        return { group, events, error: error as Error };
+      } finally {
+        this.releaseIngestSlot();
+      }
+    });
+
+    this.#ingestQueues.set(group.idStr, next);
+    next.then(() => {
+      if (this.#ingestQueues.get(group.idStr) === next)
+        this.#ingestQueues.delete(group.idStr);
+    });
+    return next;
+  }
+
+  /** In-memory key rotation records, used when no backend is configured */
+  #keyRotationRecords = new Map<string, KeyRotationRecord>();
+
+  /** Per-group queue so rotation checks and record updates never interleave */
+  #keyRotationQueue = new Map<string, Promise<unknown>>();
+
+  /** Runs a key rotation task after any other pending tasks for the same group */
+  private enqueueKeyRotation<T>(
+    group: MarmotGroup<THistory>,
+    task: () => Promise<T>,
+  ): Promise<T> {
+    const id = group.idStr;
+    const previous = this.#keyRotationQueue.get(id) ?? Promise.resolve();
+    const next = previous.catch(() => {}).then(task);
+    this.#keyRotationQueue.set(id, next);
+
+    const cleanup = () => {
+      if (this.#keyRotationQueue.get(id) === next)
+        this.#keyRotationQueue.delete(id);
+    };
+    next.then(cleanup, cleanup);
+
+    return next;
+  }
+
+  private async getKeyRotationRecord(
+    groupId: string,
+  ): Promise<KeyRotationRecord | null> {
+    if (this.keyRotationBackend)
+      return this.keyRotationBackend.getItem(groupId);
+    return this.#keyRotationRecords.get(groupId) ?? null;
+  }
+
+  private async setKeyRotationRecord(
+    groupId: string,
+    record: KeyRotationRecord,
+  ): Promise<void> {
+    if (this.keyRotationBackend)
+      await this.keyRotationBackend.setItem(groupId, record);
+    else this.#keyRotationRecords.set(groupId, record);
+  }
+
+  /** Starts counting towards the key rotation policy from the current epoch of a group */
+  private async startKeyRotationRecord(group: MarmotGroup<THistory>) {
+    await this.setKeyRotationRecord(group.idStr, {
+      epoch: Number(group.state.groupContext.epoch),
+      updatedAt: unixNow(),
+    });
+  }
+
+  /** Resolves the key rotation policy for a group */
+  private getKeyRotationPolicy(
+    group: MarmotGroup<THistory>,
+  ): KeyRotationPolicy | undefined {
+    if (typeof this.keyRotationPolicy === "function")
+      return this.keyRotationPolicy(group);
+    return this.keyRotationPolicy;
+  }
+
+  /**
+   * Enforces the key rotation policy for a group whenever its state is saved.
+   * The check waits for the group's auto-commit delay, so members that become due
+   * at the same epoch don't all send a self-update at once and fork the group.
+   *
+   * @returns A function that removes the listeners and the pending check again
+   */
+  private watchKeyRotation(group: MarmotGroup<THistory>): () => void {
+    if (!this.keyRotationPolicy) return () => {};
+
+    const isLoaded = () => this.#groups.get(group.idStr) === group;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const schedule = () => {
+      if (timer !== undefined || !isLoaded()) return;
+      timer = setTimeout(
+        () => {
+          timer = undefined;
+          if (!isLoaded()) return;
+          this.rotateKeysIfDue(group).catch((error) =>
+            this.emit("keyRotationFailed", group, error as Error),
+          );
+        },
+        getAutoCommitDelay(group.autoCommitPolicy ?? { rules: [] }),
+      );
+    };
+
+    // Restart the count when the local leaf changes (self-updates and own commits
+    // with a path) and leave out the epochs of other members' self-updates
+    let previous = group.state;
+    const handleStateChanged = (state: ClientState) => {
+      const effect = getKeyRotationEffect(previous, state);
+      previous = state;
+      if (!effect || !isLoaded()) return;
+
+      this.enqueueKeyRotation(group, async () => {
+        if (effect === "ownLeaf") return this.startKeyRotationRecord(group);
+
+        const record = await this.getKeyRotationRecord(group.idStr);
+        if (record && record.epoch < Number(state.groupContext.epoch))
+          await this.setKeyRotationRecord(group.idStr, {
+            ...record,
+            skippedEpochs: (record.skippedEpochs ?? 0) + 1,
+          });
+      }).catch((error) =>
+        this.emit("keyRotationFailed", group, error as Error),
+      );
+    };
+    group.on("stateChanged", handleStateChanged);
+    group.on("stateSaved", schedule);
+
+    // Count from when the group was first seen
+    this.enqueueKeyRotation(group, async () => {
+      if (!(await this.getKeyRotationRecord(group.idStr)))
+        await this.startKeyRotationRecord(group);
+    }).catch((error) => this.emit("keyRotationFailed", group, error as Error));
+    schedule();
+
+    return () => {
+      clearTimeout(timer);
+      group.off("stateChanged", handleStateChanged);
+      group.off("stateSaved", schedule);
+    };
+  }
+
+  /**
+   * Sends a self-update commit in a group if its key rotation policy says one is due.
+   * The first time a group is checked the current epoch is recorded as the starting point.
+   *
+   * @param group - The group to check
+   * @returns true if a self-update commit was sent
+   */
+  async rotateKeysIfDue(group: MarmotGroup<THistory>): Promise<boolean> {
+    return this.enqueueKeyRotation(group, async () => {
+      const policy = this.getKeyRotationPolicy(group);
+      if (!policy) return false;
+
+      const epoch = group.state.groupContext.epoch;
+      const record = await this.getKeyRotationRecord(group.idStr);
+      if (!record) {
+        await this.startKeyRotationRecord(group);
+        return false;
+      }
+
+      if (!isKeyRotationDue(policy, record, epoch)) return false;
+
+      await group.selfUpdate();
+      await this.setKeyRotationRecord(group.idStr, {
+        epoch: Number(group.state.groupContext.epoch),
+        updatedAt: unixNow(),
+      });
+      return true;
+    });
+  }
+
+  /**
+   * Checks the key rotation policy for every loaded group.
+   * Age based policies only take effect when checked, so apps should call this periodically.
+   *
+   * @returns The groups that sent a self-update commit
+   */
+  async rotateDueKeys(): Promise<MarmotGroup<THistory>[]> {
+    const rotated: MarmotGroup<THistory>[] = [];
+    for (const group of this.groups) {
+      if (await this.rotateKeysIfDue(group)) rotated.push(group);
+    }
+    return rotated;
+  }
+
+  /**
+   * Loads a new group from the store
+   * @param recover - Whether to finish a journaled transition first, only skipped when the group is destroyed
+   */
   private async loadGroup(
     groupId: Uint8Array | string,
+    recover = true,
   ): Promise<MarmotGroup<THistory>> {
     const id = typeof groupId === "string" ? hexToBytes(groupId) : groupId;
+    if (recover) await this.recoverGroupState(id);
     const stateBytes = await this.groupStateStore.get(id);
 
     if (!stateBytes) {
       throw new Error(`Group ${bytesToHex(id)} not found`);
     }
 
-    const state = this.hydrateState(stateBytes);
+    const { state, pastEpochKeys } = this.hydrateState(stateBytes);
 
     return await MarmotGroup.fromClientState<THistory>(state, {
       stateStore: this.groupStateStore,
@@ -178,9 +726,53 @@ export class MarmotClient<
       cryptoProvider: this.cryptoProvider,
       network: this.network,
       history: this.historyFactory,
+      blobStore: this.blobStore,
+      mediaKeyStore: this.mediaKeyStore,
+      epochRetention: this.epochRetention,
+      mediaKeyRetention: this.mediaKeyRetention,
+      pendingEventStore: this.pendingEventStore,
+      processedEventStore: this.processedEventStore,
+      outboxStore: this.outboxStore,
+      keyPackageValidator: this.keyPackageValidator,
+      pastEpochKeys,
     });
   }
 
+  /**
+   * Finishes a group state transition that was journaled but never saved.
+   * Transitions caused by events the relays have are replayed, the others are rolled back.
+   *
+   * @throws UnresolvedTransitionError if the relays could not be asked for the events
+   */
+  private async recoverGroupState(id: Uint8Array): Promise<void> {
+    const transition = await this.groupStateStore.getTransition(id);
+    if (!transition) return;
+
+    if (transition.confirmed) {
+      await this.groupStateStore.replayTransition(id);
+      return;
+    }
+
+    // Check whether the commit reached the relays before the process stopped
+    const { state } = this.hydrateState(transition.stateBytes);
+    const relays = extractMarmotGroupData(state)?.relays ?? [];
+    let events;
+    try {
+      events = await this.network.request(relays, {
+        kinds: [GROUP_EVENT_KIND],
+        ids: transition.eventIds,
+      });
+    } catch (error) {
+      // Loading the state saved before the transition would let the next transition overwrite
+      // the entry, so refuse the load and keep the entry for the next attempt
+      throw new UnresolvedTransitionError(bytesToHex(id), error);
+    }
+
+    if (events.some((event) => transition.eventIds.includes(event.id)))
+      await this.groupStateStore.replayTransition(id);
+    else await this.groupStateStore.rollbackTransition(id);
+  }
+
   /** Gets a group from cache or loads it from store */
   async getGroup(groupId: Uint8Array | string): Promise<MarmotGroup<THistory>> {
     const id = typeof groupId === "string" ? groupId : bytesToHex(groupId);
@@ -196,6 +788,27 @@ export class MarmotClient<
             // Save group to cache
             this.setGroupInstance(loaded);
             this.emit("groupLoaded", loaded);
+
+            // Send the Welcomes of commits published right before a restart
+            loaded
+              .sendPendingWelcomes()
+              .catch((error) =>
+                console.warn(
+                  `[MarmotClient] Failed to send pending Welcomes:`,
+                  error,
+                ),
+              );
+
+            // Resume publishing the messages that were queued before a restart
+            if (this.outboxStore)
+              loaded
+                .flushOutbox()
+                .catch((error) =>
+                  console.warn(
+                    `[MarmotClient] Failed to publish queued messages:`,
+                    error,
+                  ),
+                );
             return loaded;
           })
           .finally(() => {
@@ -210,6 +823,27 @@ export class MarmotClient<
     return group;
   }
 
+  /** The sync engine, created by the first call to {@link sync} */
+  #sync?: GroupSync;
+
+  /**
+   * Starts keeping all stored groups in sync with their relays.
+   * Loads the groups, opens one kind 445 subscription per relay set, backfills the
+   * events missed since the last sync and routes every event to its group's `ingest`.
+   *
+   * @returns The running {@link GroupSync}, call `stop()` on it to close the subscriptions
+   */
+  async sync(): Promise<GroupSync> {
+    if (!this.#sync)
+      this.#sync = new GroupSync(
+        this,
+        this.syncCursorStore,
+        this.syncBackfillMargin,
+      );
+    await this.#sync.start();
+    return this.#sync;
+  }
+
   /** Loads all groups from the store and returns them.
    *  Groups that fail to load (e.g. corrupted state) are skipped so that
    *  one bad group does not prevent all others from loading. */
@@ -248,6 +882,14 @@ export class MarmotClient<
       cryptoProvider: this.cryptoProvider,
       network: this.network,
       history: this.historyFactory,
+      blobStore: this.blobStore,
+      mediaKeyStore: this.mediaKeyStore,
+      epochRetention: this.epochRetention,
+      mediaKeyRetention: this.mediaKeyRetention,
+      pendingEventStore: this.pendingEventStore,
+      processedEventStore: this.processedEventStore,
+      outboxStore: this.outboxStore,
+      keyPackageValidator: this.keyPackageValidator,
     });
 
     // Add group to cache
@@ -269,7 +911,8 @@ export class MarmotClient<
     const id = typeof groupId === "string" ? groupId : bytesToHex(groupId);
 
     // Get the existing instance or load a new one
-    const group = this.#groups.get(id) || (await this.loadGroup(groupId));
+    const group =
+      this.#groups.get(id) || (await this.loadGroup(groupId, false));
 
     // Use the instance to destroy the group.
     // NOTE: MarmotGroup.destroy() is the single owner of removing group state from storage.
@@ -279,19 +922,41 @@ export class MarmotClient<
 
     // Remove the group from the cache
     this.#groups.delete(id);
+    this.unindexNostrGroupIds(id);
+    if (this.keyRotationBackend) await this.keyRotationBackend.removeItem(id);
+    else this.#keyRotationRecords.delete(id);
 
     // Emit events
     this.emit("groupDestroyed", hexId);
     this.emit("groupsUpdated", this.groups);
   }
 
-  /** Creates a new simple group */
+  /**
+   * Creates a new simple group, optionally with initial members.
+   *
+   * A valid key package is resolved for every member before anything is stored,
+   * all of them are added in the first commit and sent a Welcome. If the first
+   * commit can't be published the group is removed again. With `members`, the
+   * group is returned with the result of each member's invite, so members whose
+   * Welcome could not be sent are reported as `welcomeFailed`.
+   *
+   * @param name - The name of the group
+   * @param options - The group options, ciphersuite and initial members
+   * @throws {MissingKeyPackagesError} If a member has no valid key package for the group
+   */
   async createGroup(
     name: string,
-    options?: SimpleGroupOptions & {
-      ciphersuite?: CiphersuiteName;
-    },
-  ): Promise<MarmotGroup<THistory>> {
+    options: CreateGroupOptions & { members: string[] },
+  ): Promise<CreateGroupWithMembersResult<THistory>>;
+  async createGroup(
+    name: string,
+    options?: CreateGroupOptions & { members?: undefined },
+  ): Promise<MarmotGroup<THistory>>;
+  async createGroup(
+    name: string,
+    options?: CreateGroupOptions,
+  ): Promise<MarmotGroup<THistory> | CreateGroupWithMembersResult<THistory>> {
+    const { members, ...groupOptions } = options ?? {};
     const ciphersuiteImpl = await this.getCiphersuiteImpl(options?.ciphersuite);
 
     // generate a new key package
@@ -307,8 +972,25 @@ export class MarmotClient<
       ciphersuiteImpl,
       name,
       // Always include the creator as an admin
-      { ...options, adminPubkeys: [pubkey, ...(options?.adminPubkeys || [])] },
+      {
+        ...groupOptions,
+        adminPubkeys: [pubkey, ...(options?.adminPubkeys || [])],
+      },
+    );
+
+    // Resolve the key packages of the initial members before anything is stored
+    const discoveries = await Promise.all(
+      Array.from(new Set(members ?? []))
+        .filter((member) => member !== pubkey)
+        .map((member) =>
+          discoverKeyPackage(this.network, member, {
+            group: clientState.groupContext,
+            validator: this.keyPackageValidator,
+          }),
+        ),
     );
+    const missing = discoveries.filter((d) => !d.selected).map((d) => d.pubkey);
+    if (missing.length > 0) throw new MissingKeyPackagesError(missing);
 
     // Save the group to the store
     const stateBytes = this.serializeState(clientState);
@@ -324,13 +1006,44 @@ export class MarmotClient<
       signer: this.signer,
       network: this.network,
       history: this.historyFactory,
+      blobStore: this.blobStore,
+      mediaKeyStore: this.mediaKeyStore,
+      epochRetention: this.epochRetention,
+      mediaKeyRetention: this.mediaKeyRetention,
+      pendingEventStore: this.pendingEventStore,
+      processedEventStore: this.processedEventStore,
+      outboxStore: this.outboxStore,
+      keyPackageValidator: this.keyPackageValidator,
     });
 
+    // Add the initial members in the first commit
+    const invitees = discoveries.flatMap((d) =>
+      d.selected ? [d.selected.event] : [],
+    );
+    const invited: InviteUserResult[] = [];
+    if (invitees.length > 0) {
+      try {
+        invited.push(...(await group.addKeyPackageEvents(invitees)));
+      } catch (error) {
+        // Nobody else knows about the group yet, so drop it entirely
+        await group.destroy();
+        throw error;
+      }
+    }
+
     // Save the group to the cache
     this.setGroupInstance(group);
     this.emit("groupCreated", group);
 
-    return group;
+    if (!members) return group;
+    const invites = Array.from(new Set(members)).map(
+      (member): InviteUserResult =>
+        invited.find((result) => result.pubkey === member) ?? {
+          pubkey: member,
+          status: "alreadyMember",
+        },
+    );
+    return { group, invites };
   }
 
   /**
@@ -434,6 +1147,7 @@ export class MarmotClient<
 
     // Try each key package in priority order until one successfully decrypts the Welcome message
     let clientState: ClientState | null = null;
+    let usedKeyPackage: (typeof prioritizedKeyPackages)[number] | null = null;
     let lastError: Error | null = null;
 
     for (const keyPackage of prioritizedKeyPackages) {
@@ -450,6 +1164,7 @@ export class MarmotClient<
           keyPackage: keyPackage.publicPackage,
           privateKeys: keyPackage.privatePackage,
         });
+        usedKeyPackage = keyPackage;
         // If successful, break out of the loop
         break;
       } catch (error) {
@@ -481,15 +1196,147 @@ export class MarmotClient<
       signer: this.signer,
       network: this.network,
       history: this.historyFactory,
+      blobStore: this.blobStore,
+      mediaKeyStore: this.mediaKeyStore,
+      epochRetention: this.epochRetention,
+      mediaKeyRetention: this.mediaKeyRetention,
+      pendingEventStore: this.pendingEventStore,
+      processedEventStore: this.processedEventStore,
+      outboxStore: this.outboxStore,
+      keyPackageValidator: this.keyPackageValidator,
     });
 
     // Add the group to the cache
     this.setGroupInstance(group);
     this.emit("groupJoined", group);
 
+    // A single-use key package can't be used again, failing to clean it up doesn't undo the join
+    if (usedKeyPackage) {
+      try {
+        await this.cleanupConsumedKeyPackage(usedKeyPackage, keyPackageEventId);
+      } catch (error) {
+        console.warn(
+          `[MarmotClient] Failed to clean up consumed key package:`,
+          error,
+        );
+      }
+    }
+
     return group;
   }
 
+  /**
+   * Removes a key package a Welcome consumed, unless it is a last resort key package that may be used again.
+   * Publishes a kind 5 deletion for its kind 443 event and, if {@link replaceConsumedKeyPackages} is set, a fresh key package.
+   *
+   * @param keyPackage - The key package used to join the group
+   * @param keyPackageEventId - The id of the kind 443 event the Welcome references
+   * @throws {NoRelayReceivedEventError} If no relay acknowledged the deletion or the replacement, after `keyPackageConsumed` was emitted
+   */
+  private async cleanupConsumedKeyPackage(
+    keyPackage: { publicPackage: KeyPackage; keyPackageRef: Uint8Array },
+    keyPackageEventId?: string,
+  ): Promise<void> {
+    if (hasLastResortExtension(keyPackage.publicPackage.extensions)) return;
+
+    // Drop the private material first so the key package can never be used again
+    await this.keyPackageStore.remove(keyPackage.keyPackageRef);
+
+    const pubkey = await this.signer.getPublicKey();
+    const relays = await this.network.getUserInboxRelays(pubkey);
+
+    // Still emit when a publish isn't acknowledged, a KeyPackageManager replenishing on it publishes them again
+    const unacknowledged: string[] = [];
+
+    let deletion: NostrEvent | undefined;
+    if (keyPackageEventId) {
+      deletion = await this.signer.signEvent(
+        createDeleteKeyPackageEvent({ events: [keyPackageEventId] }),
+      );
+      if (!hasAck(await this.network.publish(relays, deletion))) {
+        unacknowledged.push(deletion.id);
+        deletion = undefined;
+      }
+    }
+
+    let replacement: NostrEvent | undefined;
+    if (this.replaceConsumedKeyPackages) {
+      const fresh = await generateKeyPackage({
+        credential: keyPackage.publicPackage.leafNode.credential,
+        extensions: keyPackage.publicPackage.extensions,
+        lastResort: false,
+        ciphersuiteImpl: await this.cryptoProvider.getCiphersuiteImpl(
+          keyPackage.publicPackage.cipherSuite,
+        ),
+      });
+      await this.keyPackageStore.add(fresh);
+      replacement = await this.signer.signEvent(
+        createKeyPackageEvent({ keyPackage: fresh.publicPackage, relays }),
+      );
+      if (!hasAck(await this.network.publish(relays, replacement))) {
+        unacknowledged.push(replacement.id);
+        replacement = undefined;
+      }
+    }
+
+    this.emit(
+      "keyPackageConsumed",
+      keyPackage.keyPackageRef,
+      deletion,
+      replacement,
+    );
+
+    if (unacknowledged.length > 0)
+      throw new NoRelayReceivedEventError(unacknowledged[0]);
+  }
+
+  /**
+   * Publishes or updates the user's kind 10051 key package relay list.
+   * The list is sent to the new relays, the relays of the previous list and the
+   * lookup relays of {@link inboxRelays}, which caches it right away.
+   *
+   * @param relays - The relays the user's key packages and invites are published to
+   * @param options - Extra relays to publish the list to and an optional client name
+   * @returns The signed kind 10051 event
+   * @throws {NoRelayReceivedEventError} If no relay acknowledged the list
+   */
+  async publishKeyPackageRelayList(
+    relays: string[],
+    options: { publishTo?: string[]; client?: string } = {},
+  ): Promise<NostrEvent> {
+    const pubkey = await this.signer.getPublicKey();
+
+    // Also tell the previous relays, so clients still looking there find the new list
+    let previous: string[] = [];
+    try {
+      previous = await this.network.getUserInboxRelays(pubkey);
+    } catch {}
+
+    const event = await this.signer.signEvent(
+      createKeyPackageRelayListEvent({
+        pubkey,
+        relays,
+        client: options.client,
+      }),
+    );
+    const targets = Array.from(
+      new Set([
+        ...getKeyPackageRelayList(event),
+        ...previous,
+        ...(this.inboxRelays?.lookupRelays ?? []),
+        ...(options.publishTo ?? []),
+      ]),
+    );
+    if (targets.length === 0)
+      throw new Error("No relays to publish the key package relay list to");
+
+    const response = await this.network.publish(targets, event);
+    if (!hasAck(response)) throw new NoRelayReceivedEventError(event.id);
+
+    this.inboxRelays?.add(event);
+    return event;
+  }
+
   /**
    * Watches for changes to the groups in the store.
    * Returns an async generator that yields the current list of groups
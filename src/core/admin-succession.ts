@@ -0,0 +1,145 @@
+import {
+  type CustomExtension,
+  type GroupContextExtension,
+  makeCustomExtension,
+} from "ts-mls";
+import { bytesToHex, hexToBytes } from "@noble/hashes/utils.js";
+import {
+  ADMIN_SUCCESSION_EXTENSION_TYPE,
+  ADMIN_SUCCESSION_VERSION,
+  AdminSuccessionRule,
+} from "./protocol.js";
+
+// Format: [version: u8, rule: u8, count: u32, successors: [u8; 32] * count, voteCount: u32, votes: [u8; 32] * voteCount]
+
+const RULE_LOWEST_LEAF = 0;
+const RULE_SUCCESSORS = 1;
+
+/** Encodes a list of pubkeys as a u32 count followed by the 32-byte keys */
+function encodePubkeys(pubkeys: string[], label: string): Uint8Array {
+  for (const pk of pubkeys) {
+    if (!/^[0-9a-f]{64}$/.test(pk))
+      throw new Error(`Invalid ${label} public key format`);
+  }
+
+  const result = new Uint8Array(4 + pubkeys.length * 32);
+  new DataView(result.buffer).setUint32(0, pubkeys.length, false); // big-endian
+  pubkeys.forEach((pk, i) => result.set(hexToBytes(pk), 4 + i * 32));
+  return result;
+}
+
+/** Decodes a list of pubkeys at an offset and returns them with the offset after them */
+function decodePubkeys(data: Uint8Array, offset: number): [string[], number] {
+  if (data.length < offset + 4)
+    throw new Error("Admin succession data is too short");
+
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const count = view.getUint32(offset, false);
+  const end = offset + 4 + count * 32;
+  if (data.length < end)
+    throw new Error("Admin succession data has an invalid length");
+
+  const pubkeys: string[] = [];
+  for (let i = offset + 4; i < end; i += 32)
+    pubkeys.push(bytesToHex(data.subarray(i, i + 32)));
+  return [pubkeys, end];
+}
+
+/**
+ * Encodes an {@link AdminSuccessionRule} to bytes.
+ *
+ * @param rule - The rule to encode
+ * @returns Encoded bytes
+ */
+export function encodeAdminSuccessionRule(
+  rule: AdminSuccessionRule,
+): Uint8Array {
+  const successors = encodePubkeys(
+    rule.kind === "successors" ? rule.successors : [],
+    "successor",
+  );
+  const votes = encodePubkeys(rule.takeoverVotes ?? [], "voter");
+
+  const result = new Uint8Array(2 + successors.length + votes.length);
+  result[0] = ADMIN_SUCCESSION_VERSION;
+  result[1] = rule.kind === "successors" ? RULE_SUCCESSORS : RULE_LOWEST_LEAF;
+  result.set(successors, 2);
+  result.set(votes, 2 + successors.length);
+
+  return result;
+}
+
+/**
+ * Decodes an {@link AdminSuccessionRule} from bytes.
+ *
+ * @param data - The encoded bytes
+ * @returns The decoded rule
+ * @throws Error if the data is malformed or uses an unknown version or rule
+ */
+export function decodeAdminSuccessionRule(
+  data: Uint8Array,
+): AdminSuccessionRule {
+  if (data.length < 2) throw new Error("Admin succession data is too short");
+
+  const version = data[0];
+  if (version !== ADMIN_SUCCESSION_VERSION)
+    throw new Error(`Unsupported admin succession version ${version}`);
+
+  const rule = data[1];
+  if (rule !== RULE_LOWEST_LEAF && rule !== RULE_SUCCESSORS)
+    throw new Error(`Unknown admin succession rule ${rule}`);
+
+  const [successors, votesOffset] = decodePubkeys(data, 2);
+  const [takeoverVotes, end] = decodePubkeys(data, votesOffset);
+  if (end !== data.length)
+    throw new Error("Admin succession data has an invalid length");
+
+  return {
+    ...(rule === RULE_SUCCESSORS
+      ? { kind: "successors", successors }
+      : { kind: "lowest-leaf" }),
+    ...(takeoverVotes.length > 0 ? { takeoverVotes } : {}),
+  };
+}
+
+/** Converts an {@link AdminSuccessionRule} to a group context extension */
+export function adminSuccessionRuleToExtension(
+  rule: AdminSuccessionRule,
+): GroupContextExtension {
+  return makeCustomExtension({
+    extensionType: ADMIN_SUCCESSION_EXTENSION_TYPE,
+    extensionData: encodeAdminSuccessionRule(rule),
+  });
+}
+
+/** Type guard for the admin succession custom extension (0xf2ef). */
+export function isAdminSuccessionExtension(
+  ext: GroupContextExtension,
+): ext is CustomExtension {
+  return (
+    typeof ext.extensionType === "number" &&
+    ext.extensionType === ADMIN_SUCCESSION_EXTENSION_TYPE &&
+    ext.extensionData instanceof Uint8Array
+  );
+}
+
+/**
+ * Reads the admin succession rule from a group's extensions.
+ * Succession only applies to groups that explicitly carry the extension; groups without it
+ * (or with an unreadable one) have no rule, so every client keeps the admin list as it is.
+ *
+ * @param extensions - The group context extensions
+ * @returns The admin succession rule of the group, or undefined if it has none
+ */
+export function getAdminSuccessionRule(
+  extensions: GroupContextExtension[],
+): AdminSuccessionRule | undefined {
+  const extension = extensions.find(isAdminSuccessionExtension);
+  if (!extension) return undefined;
+
+  try {
+    return decodeAdminSuccessionRule(extension.extensionData);
+  } catch {
+    return undefined;
+  }
+}
@@ -1,7 +1,12 @@
 import { bytesToHex } from "@noble/hashes/utils.js";
 import { defaultClientConfig } from "ts-mls/clientConfig.js";
-import { ClientState, encode, decode, nodeTypes } from "ts-mls";
+import { ClientState, encode, nodeTypes } from "ts-mls";
 import { clientStateEncoder, clientStateDecoder } from "ts-mls/clientState.js";
+import {
+  decodePastEpochKeys,
+  encodePastEpochKeys,
+  PastEpochKeys,
+} from "./epoch-retention.js";
 import {
   decodeMarmotGroupData,
   getMarmotGroupDataExtensionBytes,
@@ -58,24 +63,51 @@ export function getMemberCount(clientState: ClientState): number {
 /** The serialized form of ClientState for storage (ts-mls TLS encoding). */
 export type SerializedClientState = Uint8Array;
 
+/**
+ * Serializes a ClientState for storage.
+ * The NIP-44 keys of past epochs are appended after the ts-mls encoding when given,
+ * behind a magic and version header so other trailing data is never read as keys.
+ */
 export function serializeClientState(
   state: ClientState,
+  pastEpochKeys?: PastEpochKeys,
 ): SerializedClientState {
-  return encode(clientStateEncoder, state);
+  const encoded = encode(clientStateEncoder, state);
+  if (!pastEpochKeys || pastEpochKeys.size === 0) return encoded;
+
+  const trailer = encodePastEpochKeys(pastEpochKeys);
+  const result = new Uint8Array(encoded.length + trailer.length);
+  result.set(encoded);
+  result.set(trailer, encoded.length);
+  return result;
 }
 
 /** Deserializes stored ClientState bytes (ts-mls TLS decoding). */
 export function deserializeClientState(
   stored: SerializedClientState,
 ): ClientState {
+  return deserializeGroupState(stored).state;
+}
+
+/** Deserializes stored ClientState bytes along with the NIP-44 keys of past epochs stored after them. */
+export function deserializeGroupState(stored: SerializedClientState): {
+  state: ClientState;
+  pastEpochKeys: PastEpochKeys;
+} {
   try {
-    const decoded = decode(clientStateDecoder, stored);
+    const decoded = clientStateDecoder(stored, 0);
     if (!decoded) {
       throw new Error(
         "Failed to deserialize ClientState: clientStateDecoder returned null",
       );
     }
-    return decoded;
+
+    const [state, length] = decoded;
+    const pastEpochKeys =
+      length < stored.length
+        ? decodePastEpochKeys(stored.subarray(length))
+        : new Map();
+    return { state, pastEpochKeys };
   } catch (error) {
     if (error instanceof Error) {
       throw new Error(`Failed to deserialize ClientState: ${error.message}`);
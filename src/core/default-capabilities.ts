@@ -5,6 +5,7 @@ import {
 } from "ts-mls";
 import { ciphersuites } from "ts-mls/crypto/ciphersuite.js";
 import { ensureMarmotCapabilities } from "./capabilities.js";
+import { ADMIN_SUCCESSION_EXTENSION_TYPE } from "./protocol.js";
 
 /**
  * Default capabilities for Marmot key packages.
@@ -18,6 +19,10 @@ export function defaultCapabilities(): Capabilities {
   // Ensure capabilities include the Marmot Group Data Extension
   capabilities = ensureMarmotCapabilities(capabilities);
 
+  // Advertise support for the experimental admin succession extension so groups that opt into it can add us
+  if (!capabilities.extensions.includes(ADMIN_SUCCESSION_EXTENSION_TYPE))
+    capabilities.extensions.push(ADMIN_SUCCESSION_EXTENSION_TYPE);
+
   // Filter ciphersuites: keep the default one (MLS_128_DHKEMX25519_AES128GCM_SHA256_Ed25519)
   // and keep GREASE values (numeric IDs), but remove other MLS ciphersuites
   // In v2, ciphersuites is an object mapping names to numeric IDs
@@ -0,0 +1,146 @@
+import { ClientState } from "ts-mls";
+import { ClientConfig, defaultClientConfig } from "ts-mls/clientConfig.js";
+import { defaultKeyRetentionConfig } from "ts-mls/keyRetentionConfig.js";
+import { allSecretTreeValues } from "ts-mls/secretTree.js";
+
+// Format: [magic: "MPEK", version: u8, count: u32, entries: (epoch: u64, key: [u8; 32]) * count]
+
+const MAGIC = new TextEncoder().encode("MPEK");
+const VERSION = 1;
+const HEADER_LENGTH = MAGIC.length + 1 + 4;
+const KEY_LENGTH = 32;
+const ENTRY_LENGTH = 8 + KEY_LENGTH;
+
+/** The number of past epochs whose secrets are kept by default */
+export const DEFAULT_EPOCH_RETENTION =
+  defaultKeyRetentionConfig.retainKeysForEpochs;
+
+/** The NIP-44 exporter keys of past epochs, keyed by epoch */
+export type PastEpochKeys = Map<bigint, Uint8Array>;
+
+/**
+ * Encodes the NIP-44 exporter keys of past epochs to bytes.
+ *
+ * @param keys - The keys to encode
+ * @returns Encoded bytes
+ */
+export function encodePastEpochKeys(keys: PastEpochKeys): Uint8Array {
+  const result = new Uint8Array(HEADER_LENGTH + keys.size * ENTRY_LENGTH);
+  const view = new DataView(result.buffer);
+  result.set(MAGIC);
+  view.setUint8(MAGIC.length, VERSION);
+  view.setUint32(MAGIC.length + 1, keys.size, false); // big-endian
+
+  let offset = HEADER_LENGTH;
+  for (const [epoch, key] of keys) {
+    if (key.length !== KEY_LENGTH)
+      throw new Error("Invalid past epoch key length");
+    view.setBigUint64(offset, epoch, false);
+    result.set(key, offset + 8);
+    offset += ENTRY_LENGTH;
+  }
+
+  return result;
+}
+
+/**
+ * Decodes the NIP-44 exporter keys of past epochs from bytes.
+ *
+ * @param data - The encoded bytes
+ * @returns The decoded keys
+ * @throws Error if the data is malformed or not tagged as past epoch keys
+ */
+export function decodePastEpochKeys(data: Uint8Array): PastEpochKeys {
+  if (data.length < HEADER_LENGTH) throw new Error("Past epoch keys too short");
+  if (MAGIC.some((byte, i) => data[i] !== byte))
+    throw new Error("Data is not tagged as past epoch keys");
+
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const version = view.getUint8(MAGIC.length);
+  if (version !== VERSION)
+    throw new Error(`Unsupported past epoch keys version ${version}`);
+
+  const count = view.getUint32(MAGIC.length + 1, false);
+  if (data.length !== HEADER_LENGTH + count * ENTRY_LENGTH)
+    throw new Error("Past epoch keys length mismatch");
+
+  const keys: PastEpochKeys = new Map();
+  for (let i = 0; i < count; i++) {
+    const offset = HEADER_LENGTH + i * ENTRY_LENGTH;
+    keys.set(
+      view.getBigUint64(offset, false),
+      data.slice(offset + 8, offset + ENTRY_LENGTH),
+    );
+  }
+
+  return keys;
+}
+
+/**
+ * Creates a ts-mls {@link ClientConfig} that keeps the MLS secret trees of as many past epochs as the retention window.
+ *
+ * @param retention - The number of past epochs to keep
+ */
+export function createEpochRetentionClientConfig(
+  retention: number,
+): ClientConfig {
+  return {
+    ...defaultClientConfig,
+    keyRetentionConfig: {
+      ...defaultKeyRetentionConfig,
+      retainKeysForEpochs: Math.max(retention, 1),
+    },
+  };
+}
+
+/** Checks if an epoch is outside the retention window of the current epoch */
+function isExpiredEpoch(epoch: bigint, current: bigint, retention: number) {
+  return epoch < current - BigInt(retention);
+}
+
+/**
+ * Drops the past epoch keys that fell out of the retention window and zeroes them.
+ *
+ * @param keys - The past epoch keys, modified in place
+ * @param currentEpoch - The current epoch of the group
+ * @param retention - The number of past epochs to keep
+ */
+export function prunePastEpochKeys(
+  keys: PastEpochKeys,
+  currentEpoch: bigint,
+  retention: number,
+): void {
+  for (const [epoch, key] of keys) {
+    if (!isExpiredEpoch(epoch, currentEpoch, retention)) continue;
+    key.fill(0);
+    keys.delete(epoch);
+  }
+}
+
+/**
+ * Drops the MLS receiver data of past epochs that fell out of the retention window and zeroes their secret trees.
+ *
+ * @param state - The group state
+ * @param retention - The number of past epochs to keep
+ * @returns The group state without the expired receiver data
+ */
+export function pruneHistoricalReceiverData(
+  state: ClientState,
+  retention: number,
+): ClientState {
+  const current = state.groupContext.epoch;
+  const expired = [...state.historicalReceiverData.keys()].filter((epoch) =>
+    isExpiredEpoch(epoch, current, retention),
+  );
+  if (expired.length === 0) return state;
+
+  const historicalReceiverData = new Map(state.historicalReceiverData);
+  for (const epoch of expired) {
+    const data = historicalReceiverData.get(epoch)!;
+    for (const secret of allSecretTreeValues(data.secretTree)) secret?.fill(0);
+    data.senderDataSecret.fill(0);
+    historicalReceiverData.delete(epoch);
+  }
+
+  return { ...state, historicalReceiverData };
+}
@@ -20,6 +20,22 @@ export function supportsMarmotExtensions(
   );
 }
 
+/**
+ * Checks whether an extension array includes the last_resort extension.
+ * Last resort key packages may be used for more than one Welcome, others must be used only once.
+ *
+ * @param extensions - The extensions from a key package
+ */
+export function hasLastResortExtension(
+  extensions: Array<{ extensionType: number }>,
+): boolean {
+  return extensions.some(
+    (ext) =>
+      typeof ext.extensionType === "number" &&
+      ext.extensionType === LAST_RESORT_KEY_PACKAGE_EXTENSION_TYPE,
+  );
+}
+
 /**
  * Modifies an {@link Extension} array to ensure it includes the last_resort extension.
  * This is useful for ensuring that key packages are compliant with MIP-00.
@@ -30,14 +46,7 @@ export function supportsMarmotExtensions(
 export function ensureLastResortExtension(
   extensions: CustomExtension[],
 ): CustomExtension[] {
-  if (
-    extensions.some(
-      (ext) =>
-        typeof ext.extensionType === "number" &&
-        ext.extensionType === LAST_RESORT_KEY_PACKAGE_EXTENSION_TYPE,
-    )
-  )
-    return extensions;
+  if (hasLastResortExtension(extensions)) return extensions;
 
   return [
     ...extensions,
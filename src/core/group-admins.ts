@@ -0,0 +1,330 @@
+import {
+  ClientState,
+  defaultCredentialTypes,
+  defaultProposalTypes,
+  type GroupContextExtension,
+  nodeTypes,
+  Proposal,
+} from "ts-mls";
+import { extensionsEqual } from "ts-mls/extension.js";
+import { nodeToLeafIndex, toNodeIndex } from "ts-mls/treemath.js";
+import { ProposalWithSender } from "ts-mls/unappliedProposals.js";
+import {
+  encodeAdminSuccessionRule,
+  getAdminSuccessionRule,
+  isAdminSuccessionExtension,
+} from "./admin-succession.js";
+import { getCredentialPubkey } from "./credential.js";
+import {
+  decodeMarmotGroupData,
+  getMarmotGroupDataExtensionBytes,
+  isMarmotGroupDataExtension,
+} from "./marmot-group-data.js";
+import { AdminSuccessionRule } from "./protocol.js";
+
+/** Gets the leaf indexes removed by a set of proposals */
+function getRemovedLeaves(proposals: Proposal[]): Set<number> {
+  const removed = new Set<number>();
+  for (const proposal of proposals) {
+    if (
+      proposal.proposalType === defaultProposalTypes.remove &&
+      "remove" in proposal
+    )
+      removed.add(proposal.remove.removed);
+  }
+  return removed;
+}
+
+/** Gets the pubkeys of the members with a basic credential, ordered by leaf index */
+function getLeafMembers(
+  ratchetTree: ClientState["ratchetTree"],
+  removed: Set<number>,
+): string[] {
+  const members: string[] = [];
+  for (let nodeIndex = 0; nodeIndex < ratchetTree.length; nodeIndex++) {
+    const node = ratchetTree[nodeIndex];
+    if (
+      node?.nodeType === nodeTypes.leaf &&
+      node.leaf.credential.credentialType === defaultCredentialTypes.basic &&
+      !removed.has(Number(nodeToLeafIndex(toNodeIndex(nodeIndex))))
+    )
+      members.push(getCredentialPubkey(node.leaf.credential));
+  }
+  return members;
+}
+
+/**
+ * Gets the nostr pubkeys that will be members of a group once a set of proposals is committed.
+ *
+ * @param ratchetTree - The current ratchet tree of the group
+ * @param proposals - The proposals included in the commit
+ * @returns The unique member pubkeys after the commit
+ */
+export function getMembersAfterProposals(
+  ratchetTree: ClientState["ratchetTree"],
+  proposals: Proposal[],
+): string[] {
+  const members = new Set(
+    getLeafMembers(ratchetTree, getRemovedLeaves(proposals)),
+  );
+
+  for (const proposal of proposals) {
+    if (
+      proposal.proposalType === defaultProposalTypes.add &&
+      "add" in proposal
+    ) {
+      const credential = proposal.add.keyPackage.leafNode.credential;
+      if (credential.credentialType === defaultCredentialTypes.basic)
+        members.add(getCredentialPubkey(credential));
+    }
+  }
+
+  return Array.from(members);
+}
+
+/**
+ * Gets the admin pubkeys a group will have once a set of proposals is committed.
+ * The last group context extensions proposal carrying a MarmotGroupData extension wins.
+ *
+ * @param adminPubkeys - The current admin pubkeys of the group
+ * @param proposals - The proposals included in the commit
+ * @returns The admin pubkeys after the commit
+ */
+export function getAdminsAfterProposals(
+  adminPubkeys: string[],
+  proposals: Proposal[],
+): string[] {
+  let admins = adminPubkeys;
+  for (const proposal of proposals) {
+    if (
+      proposal.proposalType !== defaultProposalTypes.group_context_extensions ||
+      !("groupContextExtensions" in proposal)
+    )
+      continue;
+
+    const extension = proposal.groupContextExtensions.extensions.find(
+      isMarmotGroupDataExtension,
+    );
+    if (!extension) continue;
+
+    admins = decodeMarmotGroupData(
+      getMarmotGroupDataExtensionBytes(extension),
+    ).adminPubkeys;
+  }
+
+  return admins;
+}
+
+/**
+ * Checks that a change to a group's admins keeps the group manageable:
+ * at least one admin must remain a member, and newly added admins must be members.
+ * Admins that were already listed before the change are not re-checked.
+ *
+ * @param previousAdmins - The admin pubkeys before the change
+ * @param nextAdmins - The admin pubkeys after the change
+ * @param members - The member pubkeys after the change
+ * @throws Error if the change breaks one of the invariants
+ */
+export function validateAdminInvariants(
+  previousAdmins: string[],
+  nextAdmins: string[],
+  members: string[],
+): void {
+  for (const admin of nextAdmins) {
+    if (!previousAdmins.includes(admin) && !members.includes(admin))
+      throw new Error(`New admin ${admin} is not a member of the group`);
+  }
+
+  if (!nextAdmins.some((admin) => members.includes(admin)))
+    throw new Error("Group must keep at least one admin who is a member");
+}
+
+/**
+ * Gets the member that becomes admin under a group's succession rule.
+ * Members added by the proposals are never picked, only members already in the ratchet tree.
+ *
+ * @param ratchetTree - The current ratchet tree of the group
+ * @param rule - The group's admin succession rule
+ * @param proposals - The proposals included in the commit (optional)
+ * @param excluded - Pubkeys that cannot be picked, such as the admins when the members vote for a takeover (optional)
+ * @returns The successor's pubkey, or undefined if no member remains
+ */
+export function getAdminSuccessor(
+  ratchetTree: ClientState["ratchetTree"],
+  rule: AdminSuccessionRule,
+  proposals: Proposal[] = [],
+  excluded: string[] = [],
+): string | undefined {
+  const members = getLeafMembers(
+    ratchetTree,
+    getRemovedLeaves(proposals),
+  ).filter((pk) => !excluded.includes(pk));
+
+  if (rule.kind === "successors") {
+    const successor = rule.successors.find((pk) => members.includes(pk));
+    if (successor) return successor;
+  }
+
+  // Members are ordered by leaf index, which does not follow join order since vacated leaves are reused
+  return members[0];
+}
+
+/**
+ * Gets the pubkeys allowed to commit to a group: the listed admins who are members,
+ * or the successor when none of them is a member anymore and the group has a succession rule.
+ *
+ * @param ratchetTree - The current ratchet tree of the group
+ * @param adminPubkeys - The admin pubkeys listed in the group data
+ * @param rule - The group's admin succession rule, if it has one
+ * @returns The effective admin pubkeys
+ */
+export function getEffectiveAdmins(
+  ratchetTree: ClientState["ratchetTree"],
+  adminPubkeys: string[],
+  rule?: AdminSuccessionRule,
+): string[] {
+  const members = getLeafMembers(ratchetTree, new Set());
+  const admins = adminPubkeys.filter((admin) => members.includes(admin));
+  if (admins.length > 0 || !rule) return admins;
+
+  const successor = getAdminSuccessor(ratchetTree, rule);
+  return successor ? [successor] : [];
+}
+
+/**
+ * Checks if more than half of the members who are not listed admins voted to let the successor take over.
+ *
+ * @param ratchetTree - The current ratchet tree of the group
+ * @param adminPubkeys - The admin pubkeys listed in the group data
+ * @param rule - The group's admin succession rule
+ * @returns True if the successor may take over while the listed admins are still members
+ */
+export function isAdminTakeoverApproved(
+  ratchetTree: ClientState["ratchetTree"],
+  adminPubkeys: string[],
+  rule: AdminSuccessionRule,
+): boolean {
+  const voters = getLeafMembers(ratchetTree, new Set()).filter(
+    (pk) => !adminPubkeys.includes(pk),
+  );
+  const votes = voters.filter((pk) => rule.takeoverVotes?.includes(pk));
+  return votes.length * 2 > voters.length;
+}
+
+/** Gets the admin succession rule a group will have once a set of proposals is committed */
+function getAdminSuccessionRuleAfterProposals(
+  rule: AdminSuccessionRule | undefined,
+  proposals: Proposal[],
+): AdminSuccessionRule | undefined {
+  for (const proposal of proposals) {
+    if (
+      proposal.proposalType === defaultProposalTypes.group_context_extensions &&
+      "groupContextExtensions" in proposal
+    )
+      rule = getAdminSuccessionRule(proposal.groupContextExtensions.extensions);
+  }
+  return rule;
+}
+
+/** Checks if a commit only adds the sender's vote for an admin takeover to the group context extensions */
+function isAdminTakeoverVote(
+  extensions: GroupContextExtension[],
+  adminPubkeys: string[],
+  rule: AdminSuccessionRule,
+  senderPubkey: string,
+  proposals: ProposalWithSender[],
+): boolean {
+  if (adminPubkeys.includes(senderPubkey) || proposals.length !== 1)
+    return false;
+
+  const [{ proposal }] = proposals;
+  if (
+    proposal.proposalType !== defaultProposalTypes.group_context_extensions ||
+    !("groupContextExtensions" in proposal)
+  )
+    return false;
+
+  const votes = rule.takeoverVotes ?? [];
+  if (votes.includes(senderPubkey)) return false;
+
+  // Every other extension must stay the same
+  const next = proposal.groupContextExtensions.extensions;
+  const others = (exts: GroupContextExtension[]) =>
+    exts.filter((ext) => !isAdminSuccessionExtension(ext));
+  if (!extensionsEqual(others(extensions), others(next))) return false;
+
+  const nextRule = getAdminSuccessionRule(next);
+  if (!nextRule) return false;
+  const expected = encodeAdminSuccessionRule({
+    ...rule,
+    takeoverVotes: [...votes, senderPubkey],
+  });
+  const actual = encodeAdminSuccessionRule(nextRule);
+  return (
+    expected.length === actual.length &&
+    expected.every((byte, i) => byte === actual[i])
+  );
+}
+
+/**
+ * Checks if a commit is allowed by a group's admin succession rule although its sender is not an effective admin.
+ * Groups without a rule allow no such commits. With a rule, these commits are allowed:
+ *
+ * - A member who is not an admin adds its own vote to the rule's `takeoverVotes` and changes nothing else.
+ * - The successor hands the group over to itself. The commit may only remove members who asked to leave
+ *   and may only add the successor to the admins. Either no listed admin is a member afterwards, or more
+ *   than half of the members who are not admins voted for a takeover, in which case the successor is picked
+ *   among them, must add itself to the admins and must clear the votes.
+ *
+ * @param ratchetTree - The current ratchet tree of the group
+ * @param extensions - The current group context extensions, which carry the succession rule
+ * @param adminPubkeys - The admin pubkeys listed in the group data
+ * @param senderPubkey - The pubkey of the commit sender
+ * @param proposals - The proposals included in the commit and their senders
+ * @returns True if the commit is a valid succession commit
+ */
+export function isAdminSuccessionCommit(
+  ratchetTree: ClientState["ratchetTree"],
+  extensions: GroupContextExtension[],
+  adminPubkeys: string[],
+  senderPubkey: string,
+  proposals: ProposalWithSender[],
+): boolean {
+  const rule = getAdminSuccessionRule(extensions);
+  if (!rule) return false;
+
+  if (
+    isAdminTakeoverVote(extensions, adminPubkeys, rule, senderPubkey, proposals)
+  )
+    return true;
+
+  // The successor must not remove anyone who did not ask to leave
+  for (const { proposal, senderLeafIndex } of proposals) {
+    if (
+      proposal.proposalType === defaultProposalTypes.remove &&
+      "remove" in proposal &&
+      proposal.remove.removed !== senderLeafIndex
+    )
+      return false;
+  }
+
+  const plain = proposals.map((p) => p.proposal);
+  const members = getMembersAfterProposals(ratchetTree, plain);
+  const nextAdmins = getAdminsAfterProposals(adminPubkeys, plain);
+  if (adminPubkeys.some((admin) => members.includes(admin))) {
+    // The listed admins are still in the tree, for example after losing their device
+    if (
+      !isAdminTakeoverApproved(ratchetTree, adminPubkeys, rule) ||
+      getAdminSuccessor(ratchetTree, rule, plain, adminPubkeys) !==
+        senderPubkey ||
+      !nextAdmins.includes(senderPubkey) ||
+      getAdminSuccessionRuleAfterProposals(rule, plain)?.takeoverVotes?.length
+    )
+      return false;
+  } else if (getAdminSuccessor(ratchetTree, rule, plain) !== senderPubkey)
+    return false;
+
+  return nextAdmins.every(
+    (admin) => adminPubkeys.includes(admin) || admin === senderPubkey,
+  );
+}
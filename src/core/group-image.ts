@@ -0,0 +1,68 @@
+import { chacha20poly1305 } from "@noble/ciphers/chacha.js";
+import { sha256 } from "@noble/hashes/sha2.js";
+import { bytesToHex, randomBytes } from "@noble/hashes/utils.js";
+import { MarmotGroupData } from "./protocol.js";
+
+/** The image fields of a {@link MarmotGroupData} extension */
+export type GroupImageKeys = Pick<
+  MarmotGroupData,
+  "imageHash" | "imageKey" | "imageNonce"
+>;
+
+/** An encrypted group image and the keys needed to decrypt it */
+export type EncryptedGroupImage = {
+  /** The encrypted image bytes (what gets uploaded to the blob store) */
+  data: Uint8Array;
+  /** SHA-256 hash of the encrypted image */
+  imageHash: Uint8Array;
+  /** ChaCha20-Poly1305 key used to encrypt the image */
+  imageKey: Uint8Array;
+  /** ChaCha20-Poly1305 nonce used to encrypt the image */
+  imageNonce: Uint8Array;
+};
+
+/** Returns true if the group data references a group image */
+export function hasGroupImage(groupData: GroupImageKeys): boolean {
+  return (
+    groupData.imageHash !== null &&
+    groupData.imageKey !== null &&
+    groupData.imageNonce !== null &&
+    groupData.imageHash.some((b) => b !== 0)
+  );
+}
+
+/**
+ * Encrypts a group image with a fresh ChaCha20-Poly1305 key and nonce (MIP-01).
+ *
+ * @param image - The raw image bytes
+ * @returns The encrypted image along with the hash, key and nonce for the group data extension
+ */
+export function encryptGroupImage(image: Uint8Array): EncryptedGroupImage {
+  const imageKey = randomBytes(32);
+  const imageNonce = randomBytes(12);
+  const data = chacha20poly1305(imageKey, imageNonce).encrypt(image);
+
+  return { data, imageHash: sha256(data), imageKey, imageNonce };
+}
+
+/**
+ * Verifies and decrypts an encrypted group image.
+ *
+ * @param data - The encrypted image bytes downloaded from the blob store
+ * @param keys - The image hash, key and nonce from the group data extension
+ * @returns The decrypted image bytes
+ * @throws Error if the group has no image, the hash does not match or decryption fails
+ */
+export function decryptGroupImage(
+  data: Uint8Array,
+  keys: GroupImageKeys,
+): Uint8Array {
+  const { imageHash, imageKey, imageNonce } = keys;
+  if (!imageHash || !imageKey || !imageNonce)
+    throw new Error("Group data does not contain an image");
+
+  if (bytesToHex(sha256(data)) !== bytesToHex(imageHash))
+    throw new Error("Encrypted group image does not match image hash");
+
+  return chacha20poly1305(imageKey, imageNonce).decrypt(data);
+}
@@ -18,6 +18,7 @@ import {
 } from "ts-mls/message.js";
 import { unixNow } from "../utils/nostr.js";
 import { getNostrGroupIdHex } from "./client-state.js";
+import { PastEpochKeys } from "./epoch-retention.js";
 import { isPrivateMessage } from "./message.js";
 import { GROUP_EVENT_KIND } from "./protocol.js";
 
@@ -28,7 +29,7 @@ import { GROUP_EVENT_KIND } from "./protocol.js";
  * @param ciphersuite - The ciphersuite implementation
  * @returns The 32-byte exported secret
  */
-async function getExporterSecretForNip44(
+export async function getExporterSecretForNip44(
   clientState: ClientState,
   ciphersuite: CiphersuiteImpl,
 ): Promise<Uint8Array> {
@@ -42,19 +43,45 @@ async function getExporterSecretForNip44(
   );
 }
 
+/**
+ * Decrypts NIP-44 encrypted group event content with an exporter secret.
+ *
+ * @param content - The encrypted event content
+ * @param exporterSecret - The exporter secret of the epoch the content was encrypted in
+ * @returns The decrypted content
+ */
+function decryptGroupEventContent(
+  content: string,
+  exporterSecret: Uint8Array,
+): string {
+  // Use exporter_secret bytes directly as private key
+  const encryptionPrivateKey = exporterSecret;
+  const encryptionPublicKey = getPublicKey(encryptionPrivateKey);
+
+  // Use exporter_secret as sender key (private), and its public key as receiver key
+  const conversationKey = nip44.getConversationKey(
+    encryptionPrivateKey,
+    encryptionPublicKey,
+  );
+  return nip44.decrypt(content, conversationKey);
+}
+
 /**
  * Reads a {@link NostrEvent} and returns the {@link MlsMessage} it contains.
- * Decrypts the NIP-44 encrypted content using the exporter_secret from the group state.
+ * Decrypts the NIP-44 encrypted content using the exporter_secret from the group state,
+ * falling back to the retained exporter secrets of past epochs.
  *
  * @param message - The Nostr event containing the encrypted MLS message
  * @param clientState - The ClientState for the group (to get exporter_secret)
  * @param ciphersuite - The ciphersuite implementation
+ * @param pastEpochKeys - The NIP-44 exporter secrets of past epochs (optional)
  * @returns The decoded MlsMessage
  */
 export async function decryptGroupMessageEvent(
   message: NostrEvent,
   clientState: ClientState,
   ciphersuite: CiphersuiteImpl,
+  pastEpochKeys?: PastEpochKeys,
 ): Promise<MlsMessage> {
   // Step 1: Get exporter_secret for current epoch
   const exporterSecret = await getExporterSecretForNip44(
@@ -62,20 +89,32 @@ export async function decryptGroupMessageEvent(
     ciphersuite,
   );
 
-  // Step 2: Generate keypair from exporter_secret
-  // Use exporter_secret bytes directly as private key
-  const encryptionPrivateKey = exporterSecret;
-  const encryptionPublicKey = getPublicKey(encryptionPrivateKey);
-
-  // Step 3: Decrypt using NIP-44
-  // Use exporter_secret as sender key (private), and its public key as receiver key
-  const conversationKey = nip44.getConversationKey(
-    encryptionPrivateKey,
-    encryptionPublicKey,
-  );
-  const decryptedContent = nip44.decrypt(message.content, conversationKey);
+  // Step 2: Decrypt using NIP-44, trying the most recent past epochs if the current one fails
+  let decryptedContent: string;
+  try {
+    decryptedContent = decryptGroupEventContent(
+      message.content,
+      exporterSecret,
+    );
+  } catch (error) {
+    const pastKeys = [...(pastEpochKeys?.entries() ?? [])]
+      .sort(([a], [b]) => (a < b ? 1 : -1))
+      .map(([_epoch, key]) => key);
+
+    let decrypted: string | undefined;
+    for (const key of pastKeys) {
+      try {
+        decrypted = decryptGroupEventContent(message.content, key);
+        break;
+      } catch {
+        // Not encrypted with this epoch's key
+      }
+    }
+    if (decrypted === undefined) throw error;
+    decryptedContent = decrypted;
+  }
 
-  // Step 4: Decode the serialized MlsMessage
+  // Step 3: Decode the serialized MlsMessage
   const serializedMessage = hexToBytes(decryptedContent);
   const decoded = decode(mlsMessageDecoder, serializedMessage);
   if (!decoded) throw new Error("Failed to decode MLS message");
@@ -134,17 +173,20 @@ export type GroupMessagePair = {
  * @param event - The Nostr event containing the encrypted MLS message
  * @param clientState - The ClientState for the group (to get exporter_secret)
  * @param ciphersuite - The ciphersuite implementation
+ * @param pastEpochKeys - The NIP-44 exporter secrets of past epochs (optional)
  * @returns The event and the decoded MlsMessage
  */
 export async function readGroupMessage(
   event: NostrEvent,
   clientState: ClientState,
   ciphersuite: CiphersuiteImpl,
+  pastEpochKeys?: PastEpochKeys,
 ): Promise<GroupMessagePair> {
   const message = await decryptGroupMessageEvent(
     event,
     clientState,
     ciphersuite,
+    pastEpochKeys,
   );
   return { event, message };
 }
@@ -155,12 +197,14 @@ export async function readGroupMessage(
  * @param events - The Nostr events containing the encrypted MLS messages
  * @param clientState - The ClientState for the group (to get exporter_secret)
  * @param ciphersuite - The ciphersuite implementation
+ * @param pastEpochKeys - The NIP-44 exporter secrets of past epochs (optional)
  * @returns An array of event and decoded MlsMessage pairs
  */
 export async function readGroupMessages(
   events: NostrEvent[],
   clientState: ClientState,
   ciphersuite: CiphersuiteImpl,
+  pastEpochKeys?: PastEpochKeys,
 ): Promise<{ read: GroupMessagePair[]; unreadable: NostrEvent[] }> {
   const read: GroupMessagePair[] = [];
   const unreadable: NostrEvent[] = [];
@@ -168,7 +212,14 @@ export async function readGroupMessages(
   await Promise.all(
     events.map(async (event) => {
       try {
-        read.push(await readGroupMessage(event, clientState, ciphersuite));
+        read.push(
+          await readGroupMessage(
+            event,
+            clientState,
+            ciphersuite,
+            pastEpochKeys,
+          ),
+        );
       } catch {
         unreadable.push(event);
       }
@@ -278,20 +329,27 @@ export const deserializeApplicationRumor = deserializeApplicationData;
 export function sortGroupCommits(
   commits: GroupMessagePair[],
 ): GroupMessagePair[] {
-  return commits.sort((a, b) => {
-    // Rule 1: Sort by created_at (older first)
-    if (a.event.created_at !== b.event.created_at) {
-      return a.event.created_at - b.event.created_at;
-    }
+  return commits.sort((a, b) => compareGroupCommits(a.event, b.event));
+}
 
-    // Rule 2: If equal, sort by sender pubkey (lexicographically)
-    if (a.event.pubkey !== b.event.pubkey) {
-      return a.event.pubkey.localeCompare(b.event.pubkey);
-    }
+/**
+ * Compares two commit events for the same epoch using the MIP-03 ordering of {@link sortGroupCommits}.
+ *
+ * @returns A negative number if `a` wins, a positive number if `b` wins and 0 if they are the same event
+ */
+export function compareGroupCommits(a: NostrEvent, b: NostrEvent): number {
+  // Rule 1: Sort by created_at (older first)
+  if (a.created_at !== b.created_at) {
+    return a.created_at - b.created_at;
+  }
 
-    // Rule 3: If still equal, sort by event id (lexicographically)
-    return a.event.id.localeCompare(b.event.id);
-  });
+  // Rule 2: If equal, sort by sender pubkey (lexicographically)
+  if (a.pubkey !== b.pubkey) {
+    return a.pubkey.localeCompare(b.pubkey);
+  }
+
+  // Rule 3: If still equal, sort by event id (lexicographically)
+  return a.id.localeCompare(b.id);
 }
 
 /**
@@ -1,14 +1,21 @@
+export * from "./admin-succession.js";
 export * from "./capabilities.js";
 export * from "./client-state.js";
 export * from "./credential.js";
 export * from "./default-capabilities.js";
+export * from "./epoch-retention.js";
 export * from "./extensions.js";
+export * from "./group-admins.js";
+export * from "./group-image.js";
 export * from "./group-members.js";
 export * from "./group-message.js";
 export * from "./group.js";
 export * from "./key-package-event.js";
 export * from "./key-package-relay-list.js";
+export * from "./key-package-validator.js";
 export * from "./key-package.js";
 export * from "./marmot-group-data.js";
+export * from "./media.js";
 export * from "./protocol.js";
+export * from "./self-update.js";
 export * from "./welcome.js";
@@ -0,0 +1,229 @@
+import { type NostrEvent, verifyEvent } from "applesauce-core/helpers/event";
+import {
+  CryptoProvider,
+  defaultCredentialTypes,
+  defaultCryptoProvider,
+  KeyPackage,
+} from "ts-mls";
+import { CiphersuiteId, CiphersuiteImpl } from "ts-mls/crypto/ciphersuite.js";
+import { isDefaultExtensionTypeValue } from "ts-mls/defaultExtensionType.js";
+import { verifyKeyPackage } from "ts-mls/keyPackage.js";
+import { verifyLeafNodeSignatureKeyPackage } from "ts-mls/leafNode.js";
+import { unixNow } from "../utils/nostr.js";
+import { getCredentialPubkey } from "./credential.js";
+import {
+  getKeyPackage,
+  getKeyPackageCipherSuiteId,
+} from "./key-package-event.js";
+import {
+  KEY_PACKAGE_KIND,
+  MARMOT_GROUP_DATA_EXTENSION_TYPE,
+} from "./protocol.js";
+
+/** The checks a {@link KeyPackageValidator} runs on a kind 443 event */
+export type KeyPackageCheck =
+  | "kind"
+  | "signature"
+  | "encoding"
+  | "credential"
+  | "lifetime"
+  | "ciphersuite"
+  | "extensions"
+  | "mlsSignature";
+
+/** A check a key package failed and why */
+export type KeyPackageCheckFailure = {
+  check: KeyPackageCheck;
+  reason: string;
+};
+
+/** The outcome of validating a kind 443 event with a {@link KeyPackageValidator} */
+export type KeyPackageValidationReport = {
+  /** Whether every check passed */
+  valid: boolean;
+  /** The decoded key package, undefined if the event content could not be decoded */
+  keyPackage?: KeyPackage;
+  /** The checks that failed, empty if the key package is valid */
+  failures: KeyPackageCheckFailure[];
+};
+
+/** What a group requires from the key packages of new members, e.g. the group context of an existing group */
+export type KeyPackageGroupRequirements = {
+  /** The ciphersuite id of the group */
+  cipherSuite: number;
+  /** The group context extensions every new member must support */
+  extensions: Array<{ extensionType: number }>;
+};
+
+/** Options for a {@link KeyPackageValidator} */
+export type KeyPackageValidatorOptions = {
+  /** The crypto provider used to verify MLS signatures (defaults to the ts-mls provider) */
+  cryptoProvider?: CryptoProvider;
+};
+
+/**
+ * Validates kind 443 key package events before their owner is added to a group.
+ *
+ * Unlike a plain decode, every check is run and reported on its own, so apps can
+ * tell the user why a key package was rejected: a bad nostr signature, a credential
+ * that doesn't belong to the event author, an expired lifetime, a ciphersuite or
+ * extension the group can't use, or an invalid MLS signature.
+ */
+export class KeyPackageValidator {
+  readonly cryptoProvider: CryptoProvider;
+
+  constructor(options: KeyPackageValidatorOptions = {}) {
+    this.cryptoProvider = options.cryptoProvider ?? defaultCryptoProvider;
+  }
+
+  /**
+   * Validates a key package event
+   *
+   * @param event - The kind 443 event
+   * @param group - The requirements of the group the key package is for (optional)
+   * @param now - The unix timestamp the lifetime is checked against (defaults to now)
+   * @returns A report listing the checks that failed
+   */
+  async validate(
+    event: NostrEvent,
+    group?: KeyPackageGroupRequirements,
+    now = unixNow(),
+  ): Promise<KeyPackageValidationReport> {
+    const failures: KeyPackageCheckFailure[] = [];
+    const report = () => ({ valid: failures.length === 0, failures });
+
+    if (event.kind !== KEY_PACKAGE_KIND) {
+      failures.push({
+        check: "kind",
+        reason: `Expected kind ${KEY_PACKAGE_KIND}, got ${event.kind}`,
+      });
+      return report();
+    }
+
+    if (!verifyEvent(event))
+      failures.push({ check: "signature", reason: "Invalid event signature" });
+
+    let keyPackage: KeyPackage;
+    try {
+      keyPackage = getKeyPackage(event);
+    } catch (error) {
+      failures.push({
+        check: "encoding",
+        reason: `Failed to decode key package: ${(error as Error).message}`,
+      });
+      return report();
+    }
+
+    // The MLS credential must belong to the nostr identity that published the event
+    const { credential } = keyPackage.leafNode;
+    if (credential.credentialType !== defaultCredentialTypes.basic) {
+      failures.push({
+        check: "credential",
+        reason: "Key package does not use a basic credential",
+      });
+    } else {
+      try {
+        const identity = getCredentialPubkey(credential);
+        if (identity !== event.pubkey)
+          failures.push({
+            check: "credential",
+            reason: `Credential identity ${identity} does not match event pubkey ${event.pubkey}`,
+          });
+      } catch (error) {
+        failures.push({
+          check: "credential",
+          reason: (error as Error).message,
+        });
+      }
+    }
+
+    const lifetimeFailure = getLifetimeFailure(keyPackage, now);
+    if (lifetimeFailure)
+      failures.push({ check: "lifetime", reason: lifetimeFailure });
+
+    // The ciphersuite tag must describe the key package and the group must use the same suite
+    let tagged: CiphersuiteId | undefined;
+    try {
+      tagged = getKeyPackageCipherSuiteId(event);
+    } catch (error) {
+      failures.push({
+        check: "ciphersuite",
+        reason: (error as Error).message,
+      });
+    }
+    if (tagged !== undefined && tagged !== keyPackage.cipherSuite)
+      failures.push({
+        check: "ciphersuite",
+        reason: `Ciphersuite tag ${tagged} does not match key package ciphersuite ${keyPackage.cipherSuite}`,
+      });
+    if (group && group.cipherSuite !== keyPackage.cipherSuite)
+      failures.push({
+        check: "ciphersuite",
+        reason: `Key package ciphersuite ${keyPackage.cipherSuite} does not match group ciphersuite ${group.cipherSuite}`,
+      });
+
+    const unsupported = getUnsupportedExtensions(keyPackage, group);
+    if (unsupported.length > 0)
+      failures.push({
+        check: "extensions",
+        reason: `Key package does not support extensions ${unsupported
+          .map((type) => `0x${type.toString(16).padStart(4, "0")}`)
+          .join(", ")}`,
+      });
+
+    let ciphersuiteImpl: CiphersuiteImpl | undefined;
+    try {
+      ciphersuiteImpl = await this.cryptoProvider.getCiphersuiteImpl(
+        keyPackage.cipherSuite as CiphersuiteId,
+      );
+    } catch {
+      failures.push({
+        check: "ciphersuite",
+        reason: `Ciphersuite ${keyPackage.cipherSuite} is not supported`,
+      });
+    }
+    if (ciphersuiteImpl) {
+      const verified =
+        (await verifyKeyPackage(keyPackage, ciphersuiteImpl.signature)) &&
+        (await verifyLeafNodeSignatureKeyPackage(
+          keyPackage.leafNode,
+          ciphersuiteImpl.signature,
+        ));
+      if (!verified)
+        failures.push({
+          check: "mlsSignature",
+          reason: "Invalid key package or leaf node signature",
+        });
+    }
+
+    return { ...report(), keyPackage };
+  }
+}
+
+/** Checks the lifetime of a key package, returning why it is not valid at the given time */
+function getLifetimeFailure(
+  keyPackage: KeyPackage,
+  now: number,
+): string | undefined {
+  const { lifetime } = keyPackage.leafNode;
+  if (BigInt(now) < lifetime.notBefore)
+    return `Key package is not valid before ${lifetime.notBefore}`;
+  if (BigInt(now) > lifetime.notAfter)
+    return `Key package expired at ${lifetime.notAfter}`;
+  return undefined;
+}
+
+/** Gets the extension types required by Marmot or the group that the key package does not support */
+function getUnsupportedExtensions(
+  keyPackage: KeyPackage,
+  group?: KeyPackageGroupRequirements,
+): number[] {
+  const supported = keyPackage.leafNode.capabilities.extensions;
+  const required = new Set([MARMOT_GROUP_DATA_EXTENSION_TYPE]);
+  for (const { extensionType } of group?.extensions ?? []) {
+    // Default MLS extensions don't need to be listed in the capabilities
+    if (!isDefaultExtensionTypeValue(extensionType))
+      required.add(extensionType);
+  }
+  return Array.from(required).filter((type) => !supported.includes(type));
+}
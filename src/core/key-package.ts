@@ -59,6 +59,8 @@ export type GenerateKeyPackageOptions = {
   capabilities?: Capabilities;
   lifetime?: Lifetime;
   extensions?: CustomExtension[];
+  /** Whether the key package may be used for more than one Welcome (default true) */
+  lastResort?: boolean;
   ciphersuiteImpl: CiphersuiteImpl;
 };
 
@@ -68,6 +70,7 @@ export async function generateKeyPackage({
   capabilities,
   lifetime,
   extensions,
+  lastResort = true,
   ciphersuiteImpl,
 }: GenerateKeyPackageOptions): Promise<CompleteKeyPackage> {
   if (credential.credentialType !== defaultCredentialTypes.basic)
@@ -83,9 +86,21 @@ export async function generateKeyPackage({
       ? ensureMarmotCapabilities(capabilities)
       : defaultCapabilities(),
     lifetime: lifetime ?? createThreeMonthLifetime(),
-    extensions: extensions
-      ? ensureLastResortExtension(extensions)
-      : keyPackageDefaultExtensions(),
+    extensions: !lastResort
+      ? (extensions ?? [])
+      : extensions
+        ? ensureLastResortExtension(extensions)
+        : keyPackageDefaultExtensions(),
     cipherSuite: ciphersuiteImpl,
   });
 }
+
+/** Gets the unix timestamp a key package stops being valid, or undefined if it has no lifetime */
+export function getKeyPackageExpiry(
+  keyPackage: KeyPackage,
+): number | undefined {
+  const leafNode = keyPackage.leafNode;
+  return "lifetime" in leafNode
+    ? Number(leafNode.lifetime.notAfter)
+    : undefined;
+}
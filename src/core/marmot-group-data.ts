@@ -274,6 +274,34 @@ export function createMarmotGroupData(
   return encodeMarmotGroupData(data);
 }
 
+/** Compares two group data values, treating byte arrays by content */
+function isSameGroupDataValue(a: unknown, b: unknown): boolean {
+  if (a instanceof Uint8Array && b instanceof Uint8Array)
+    return a.length === b.length && a.every((byte, i) => byte === b[i]);
+  if (Array.isArray(a) && Array.isArray(b))
+    return a.length === b.length && a.every((v, i) => v === b[i]);
+  return a === b;
+}
+
+/**
+ * Gets the fields that differ between two versions of a group's MarmotGroupData.
+ *
+ * @param previous - The previous group data, or null if there was none
+ * @param next - The new group data
+ * @returns The changed fields with their new values
+ */
+export function getMarmotGroupDataChanges(
+  previous: MarmotGroupData | null,
+  next: MarmotGroupData,
+): Partial<MarmotGroupData> {
+  const changes: Partial<MarmotGroupData> = {};
+  for (const key of Object.keys(next) as (keyof MarmotGroupData)[]) {
+    if (!previous || !isSameGroupDataValue(previous[key], next[key]))
+      Object.assign(changes, { [key]: next[key] });
+  }
+  return changes;
+}
+
 /** Returns true if pubkey is included in adminPubkeys (case-insensitive). */
 export function isAdmin(groupData: MarmotGroupData, pubkey: string): boolean {
   const pk = pubkey.toLowerCase();
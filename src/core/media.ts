@@ -0,0 +1,210 @@
+import { chacha20poly1305 } from "@noble/ciphers/chacha.js";
+import { expand } from "@noble/hashes/hkdf.js";
+import { sha256 } from "@noble/hashes/sha2.js";
+import {
+  bytesToHex,
+  concatBytes,
+  hexToBytes,
+  randomBytes,
+  utf8ToBytes,
+} from "@noble/hashes/utils.js";
+import { Rumor } from "applesauce-common/helpers/gift-wrap";
+import { ClientState } from "ts-mls/clientState.js";
+import { CiphersuiteImpl } from "ts-mls/crypto/ciphersuite.js";
+import { mlsExporter } from "ts-mls/keySchedule.js";
+
+/** The version of the media encryption scheme written to the imeta tags */
+export const MEDIA_ENCRYPTION_VERSION = "mip04-v1";
+
+/** The name of the tag used to attach media to a rumor */
+export const MEDIA_IMETA_TAG = "imeta";
+
+/** An encrypted media attachment referenced by an `imeta` tag on an application rumor */
+export type MediaAttachment = {
+  /** The URL the encrypted blob can be downloaded from */
+  url: string;
+  /** Hex encoded SHA-256 hash of the encrypted blob */
+  sha256: string;
+  /** Hex encoded SHA-256 hash of the original file */
+  originalSha256: string;
+  /** The MIME type of the original file */
+  mimeType: string;
+  /** The file name of the original file */
+  filename: string;
+  /** Hex encoded ChaCha20-Poly1305 nonce */
+  nonce: string;
+  /** The group epoch whose exporter secret the file key was derived from */
+  epoch: bigint;
+  /** The size of the original file in bytes */
+  size?: number;
+};
+
+/** Metadata describing a file before it is encrypted */
+export type MediaMetadata = {
+  /** The MIME type of the file */
+  mimeType: string;
+  /** The file name */
+  filename: string;
+};
+
+/**
+ * Gets the exporter secret used to derive media encryption keys for the current group epoch.
+ *
+ * @param clientState - The ClientState to get exporter secret from
+ * @param ciphersuite - The ciphersuite implementation
+ * @returns The 32-byte exported secret
+ */
+export async function getMediaExporterSecret(
+  clientState: ClientState,
+  ciphersuite: CiphersuiteImpl,
+): Promise<Uint8Array> {
+  return mlsExporter(
+    clientState.keySchedule.exporterSecret,
+    "marmot",
+    utf8ToBytes("encrypted-media"),
+    32,
+    ciphersuite,
+  );
+}
+
+/** Derives the file key for a single file from the media exporter secret */
+function deriveMediaKey(
+  exporterSecret: Uint8Array,
+  originalSha256: Uint8Array,
+  metadata: MediaMetadata,
+): Uint8Array {
+  const separator = new Uint8Array([0]);
+  const info = concatBytes(
+    utf8ToBytes(MEDIA_ENCRYPTION_VERSION),
+    separator,
+    originalSha256,
+    separator,
+    utf8ToBytes(metadata.mimeType),
+    separator,
+    utf8ToBytes(metadata.filename),
+    separator,
+    utf8ToBytes("key"),
+  );
+
+  return expand(sha256, exporterSecret, info, 32);
+}
+
+/**
+ * Encrypts a file with a key derived from the group's media exporter secret.
+ *
+ * @param data - The raw file bytes
+ * @param exporterSecret - The media exporter secret from {@link getMediaExporterSecret}
+ * @param metadata - The MIME type and file name of the file
+ * @returns The encrypted bytes, the hash of the original file and the nonce used
+ */
+export function encryptMedia(
+  data: Uint8Array,
+  exporterSecret: Uint8Array,
+  metadata: MediaMetadata,
+): { data: Uint8Array; originalSha256: string; nonce: string } {
+  const originalSha256 = sha256(data);
+  const key = deriveMediaKey(exporterSecret, originalSha256, metadata);
+  const nonce = randomBytes(12);
+  const encrypted = chacha20poly1305(
+    key,
+    nonce,
+    utf8ToBytes(MEDIA_ENCRYPTION_VERSION),
+  ).encrypt(data);
+
+  return {
+    data: encrypted,
+    originalSha256: bytesToHex(originalSha256),
+    nonce: bytesToHex(nonce),
+  };
+}
+
+/**
+ * Verifies and decrypts an encrypted media attachment.
+ *
+ * @param data - The encrypted blob downloaded from the blob store
+ * @param exporterSecret - The media exporter secret for the attachment's epoch
+ * @param attachment - The attachment metadata from the imeta tag
+ * @returns The decrypted file bytes
+ * @throws Error if the blob or the decrypted file do not match their hashes
+ */
+export function decryptMedia(
+  data: Uint8Array,
+  exporterSecret: Uint8Array,
+  attachment: MediaAttachment,
+): Uint8Array {
+  if (bytesToHex(sha256(data)) !== attachment.sha256.toLowerCase())
+    throw new Error("Encrypted media does not match attachment hash");
+
+  const originalSha256 = hexToBytes(attachment.originalSha256);
+  const key = deriveMediaKey(exporterSecret, originalSha256, attachment);
+  const decrypted = chacha20poly1305(
+    key,
+    hexToBytes(attachment.nonce),
+    utf8ToBytes(MEDIA_ENCRYPTION_VERSION),
+  ).decrypt(data);
+
+  if (bytesToHex(sha256(decrypted)) !== attachment.originalSha256.toLowerCase())
+    throw new Error("Decrypted media does not match original hash");
+
+  return decrypted;
+}
+
+/** Creates an `imeta` tag for a {@link MediaAttachment} */
+export function createMediaImetaTag(attachment: MediaAttachment): string[] {
+  const tag = [
+    MEDIA_IMETA_TAG,
+    `url ${attachment.url}`,
+    `m ${attachment.mimeType}`,
+    `filename ${attachment.filename}`,
+    `x ${attachment.sha256}`,
+    `ox ${attachment.originalSha256}`,
+    `n ${attachment.nonce}`,
+    `epoch ${attachment.epoch}`,
+    `v ${MEDIA_ENCRYPTION_VERSION}`,
+  ];
+  if (attachment.size !== undefined) tag.push(`size ${attachment.size}`);
+
+  return tag;
+}
+
+/** Parses an `imeta` tag into a {@link MediaAttachment}, returns undefined if the tag is not an encrypted media tag */
+export function parseMediaImetaTag(tag: string[]): MediaAttachment | undefined {
+  if (tag[0] !== MEDIA_IMETA_TAG) return undefined;
+
+  const fields = new Map<string, string>();
+  for (const entry of tag.slice(1)) {
+    const space = entry.indexOf(" ");
+    if (space === -1) continue;
+    fields.set(entry.slice(0, space), entry.slice(space + 1));
+  }
+
+  if (fields.get("v") !== MEDIA_ENCRYPTION_VERSION) return undefined;
+
+  const url = fields.get("url");
+  const sha256 = fields.get("x");
+  const originalSha256 = fields.get("ox");
+  const nonce = fields.get("n");
+  const epoch = fields.get("epoch");
+  if (!url || !sha256 || !originalSha256 || !nonce || !epoch) return undefined;
+  if (!/^\d+$/.test(epoch)) return undefined;
+
+  const size = fields.has("size") ? parseInt(fields.get("size")!) : undefined;
+
+  return {
+    url,
+    sha256,
+    originalSha256,
+    nonce,
+    epoch: BigInt(epoch),
+    mimeType: fields.get("m") ?? "application/octet-stream",
+    filename: fields.get("filename") ?? "",
+    size: Number.isFinite(size) ? size : undefined,
+  };
+}
+
+/** Gets all encrypted media attachments from a rumor */
+export function getMediaAttachments(rumor: Rumor): MediaAttachment[] {
+  return rumor.tags
+    .map(parseMediaImetaTag)
+    .filter((attachment) => attachment !== undefined);
+}
@@ -13,3 +13,10 @@ export function isPrivateMessage(
 ): message is PrivateMessage {
   return message.wireformat === wireformats.mls_private_message;
 }
+
+/** Gets the epoch a private or public MLS message was sent in */
+export function getMessageEpoch(message: MlsMessage): bigint | undefined {
+  if ("privateMessage" in message) return message.privateMessage.epoch;
+  if ("publicMessage" in message) return message.publicMessage.content.epoch;
+  return undefined;
+}
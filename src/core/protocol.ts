@@ -43,10 +43,23 @@ export const MARMOT_GROUP_DATA_EXTENSION_TYPE = 0xf2ee;
 /** The version number for the Marmot Group Data Extension (MIP-01) */
 export const MARMOT_GROUP_DATA_VERSION = 1;
 
+/**
+ * The identifier for the admin succession extension, which stores how a new admin is chosen when no admin remains in the group.
+ *
+ * @experimental This extension is not part of the Marmot spec. Its type comes from the MLS private use range
+ * and may change once a type is allocated. Only groups that explicitly set a rule carry it, and other Marmot
+ * implementations will not accept the successor's commits, so only set it in groups whose members all run marmot-ts.
+ */
+export const ADMIN_SUCCESSION_EXTENSION_TYPE = 0xf2ef;
+
+/** The version number for the admin succession extension */
+export const ADMIN_SUCCESSION_VERSION = 1;
+
 /** Extended extension types that include Marmot-specific extensions */
 export const extendedExtensionTypes = {
   ...defaultExtensionTypes,
   marmot_group_data: MARMOT_GROUP_DATA_EXTENSION_TYPE,
+  admin_succession: ADMIN_SUCCESSION_EXTENSION_TYPE,
   last_resort: LAST_RESORT_KEY_PACKAGE_EXTENSION_TYPE,
 } as const;
 
@@ -78,6 +91,24 @@ export interface MarmotGroupData {
   imageNonce: Uint8Array | null;
 }
 
+/**
+ * How a group picks its next admin once none of the listed admins is a member anymore.
+ *
+ * - `lowest-leaf`: the member in the lowest occupied leaf of the ratchet tree. Vacated leaves are
+ *   reused, so this is not necessarily the longest-standing member
+ * - `successors`: the first member of an ordered successor list, falling back to `lowest-leaf`
+ *
+ * An admin who lost their device stays in the ratchet tree, so the rule never applies on its own.
+ * For that case the members who are not admins can vote in `takeoverVotes` to let the successor
+ * (picked among them) become admin once more than half of them voted.
+ */
+export type AdminSuccessionRule = (
+  { kind: "lowest-leaf" } | { kind: "successors"; successors: string[] }
+) & {
+  /** The members who voted to let the successor take over while the listed admins are still members */
+  takeoverVotes?: string[];
+};
+
 /** Event kind for group events (commits, proposals, application messages) */
 export const GROUP_EVENT_KIND = 445;
 
@@ -0,0 +1,199 @@
+import { defaultClientConfig } from "ts-mls/clientConfig.js";
+import {
+  addHistoricalReceiverData,
+  applyProposals,
+  checkCanSendHandshakeMessages,
+  makePskIndex,
+  nextEpochContext,
+  type ClientState,
+} from "ts-mls/clientState.js";
+import { deriveSecret } from "ts-mls/crypto/kdf.js";
+import {
+  createConfirmationTag,
+  createContentCommitSignature,
+} from "ts-mls/framedContent.js";
+import { initializeEpoch } from "ts-mls/keySchedule.js";
+import type { MlsFramedMessage } from "ts-mls/message.js";
+import { protect } from "ts-mls/messageProtection.js";
+import type { MlsContext } from "ts-mls/mlsContext.js";
+import { nodeTypes } from "ts-mls/nodeType.js";
+import { pathToPathSecrets } from "ts-mls/pathSecrets.js";
+import {
+  mergePrivateKeyPaths,
+  toPrivateKeyPath,
+  updateLeafKey,
+} from "ts-mls/privateKeyPath.js";
+import { protocolVersions } from "ts-mls/protocolVersion.js";
+import { createSecretTree } from "ts-mls/secretTree.js";
+import { senderTypes } from "ts-mls/sender.js";
+import { treeHashRoot } from "ts-mls/treeHash.js";
+import { leafToNodeIndex, leafWidth, toLeafIndex } from "ts-mls/treemath.js";
+import { createUpdatePath } from "ts-mls/updatePath.js";
+import { zeroOutUint8Array } from "ts-mls/util/byteArray.js";
+import { wireformats } from "ts-mls/wireformat.js";
+
+/** The result of {@link createSelfUpdateCommit} */
+export interface SelfUpdateCommitResult {
+  /** The commit to send to the group, protected with the current epoch */
+  commit: MlsFramedMessage;
+  /** The state of the next epoch, holding the new signature key */
+  newState: ClientState;
+}
+
+/**
+ * Creates a commit without proposals whose update path rotates both the HPKE
+ * key and the signature key of the local leaf.
+ *
+ * ts-mls always signs the update path leaf with the existing signature key, so
+ * this follows its commit creation for the empty-commit case and only swaps the
+ * leaf's signature key. As RFC 9420 requires, the new LeafNode is signed with
+ * the new key while the commit itself is signed with the old one, which the
+ * other members still know the sender by.
+ *
+ * @param context - The MLS context of the group
+ * @param state - The current group state; its pending proposals are left out
+ */
+export async function createSelfUpdateCommit({
+  context,
+  state,
+}: {
+  context: MlsContext;
+  state: ClientState;
+}): Promise<SelfUpdateCommitResult> {
+  const { cipherSuite } = context;
+  const clientConfig = context.clientConfig ?? defaultClientConfig;
+  checkCanSendHandshakeMessages(state);
+
+  const leafIndex = toLeafIndex(state.privatePath.leafIndex);
+  const mutableTree = state.ratchetTree.slice();
+  const res = await applyProposals(
+    state,
+    mutableTree,
+    [],
+    leafIndex,
+    makePskIndex(undefined, context.externalPsks ?? {}),
+    true,
+    clientConfig,
+    context.authService,
+    cipherSuite,
+  );
+
+  // Put the new signature key in the leaf before the update path is signed
+  const signatureKeys = await cipherSuite.signature.keygen();
+  const ownNode = mutableTree[leafToNodeIndex(leafIndex)];
+  if (ownNode?.nodeType !== nodeTypes.leaf)
+    throw new Error("Own leaf is missing from the ratchet tree");
+  mutableTree[leafToNodeIndex(leafIndex)] = {
+    ...ownNode,
+    leaf: { ...ownNode.leaf, signaturePublicKey: signatureKeys.publicKey },
+  };
+
+  const [tree, updatePath, pathSecrets, newPrivateKey] = await createUpdatePath(
+    state.ratchetTree,
+    mutableTree,
+    leafIndex,
+    state.groupContext,
+    signatureKeys.signKey,
+    cipherSuite,
+  );
+
+  const privatePath = mergePrivateKeyPaths(
+    updateLeafKey(
+      state.privatePath,
+      await cipherSuite.hpke.exportPrivateKey(newPrivateKey),
+    ),
+    await toPrivateKeyPath(
+      pathToPathSecrets(pathSecrets),
+      state.privatePath.leafIndex,
+      cipherSuite,
+    ),
+  );
+  // A group of one has no path secrets to derive the commit secret from
+  const lastPathSecret = pathSecrets.at(-1);
+  const commitSecret =
+    lastPathSecret === undefined
+      ? new Uint8Array(cipherSuite.kdf.size)
+      : await deriveSecret(lastPathSecret.secret, "path", cipherSuite.kdf);
+
+  // The commit is verified against the leaf the other members have now
+  const { signature, framedContent } = await createContentCommitSignature(
+    state.groupContext,
+    "mls_private_message",
+    { proposals: [], path: updatePath },
+    { senderType: senderTypes.member, leafIndex: state.privatePath.leafIndex },
+    new Uint8Array(),
+    state.signaturePrivateKey,
+    cipherSuite.signature,
+  );
+  const groupContext = await nextEpochContext(
+    state.groupContext,
+    "mls_private_message",
+    framedContent,
+    signature,
+    await treeHashRoot(tree, cipherSuite.hash),
+    state.confirmationTag,
+    cipherSuite.hash,
+  );
+  const epochSecrets = await initializeEpoch(
+    state.keySchedule.initSecret,
+    commitSecret,
+    groupContext,
+    res.pskSecret,
+    cipherSuite.kdf,
+  );
+  const confirmationTag = await createConfirmationTag(
+    epochSecrets.keySchedule.confirmationKey,
+    groupContext.confirmedTranscriptHash,
+    cipherSuite.hash,
+  );
+
+  const { privateMessage } = await protect(
+    state.keySchedule.senderDataSecret,
+    new Uint8Array(),
+    state.groupContext,
+    state.secretTree,
+    {
+      ...framedContent,
+      auth: {
+        contentType: framedContent.contentType,
+        signature,
+        confirmationTag,
+      },
+    },
+    state.privatePath.leafIndex,
+    clientConfig.paddingConfig,
+    cipherSuite,
+  );
+
+  const [historicalReceiverData] = addHistoricalReceiverData(
+    state,
+    clientConfig,
+  );
+  const newState: ClientState = {
+    groupContext,
+    ratchetTree: tree,
+    secretTree: createSecretTree(
+      leafWidth(tree.length),
+      epochSecrets.encryptionSecret,
+    ),
+    keySchedule: epochSecrets.keySchedule,
+    privatePath,
+    unappliedProposals: {},
+    historicalReceiverData,
+    confirmationTag,
+    signaturePrivateKey: signatureKeys.signKey,
+    groupActiveState: { kind: "active" },
+  };
+
+  zeroOutUint8Array(commitSecret);
+  zeroOutUint8Array(epochSecrets.joinerSecret);
+
+  return {
+    commit: {
+      version: protocolVersions.mls10,
+      wireformat: wireformats.mls_private_message,
+      privateMessage,
+    },
+    newState,
+  };
+}
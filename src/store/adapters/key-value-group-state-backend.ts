@@ -1,18 +1,31 @@
 import { bytesToHex, hexToBytes } from "@noble/hashes/utils.js";
 import { SerializedClientState } from "../../core/client-state.js";
 import { KeyValueStoreBackend } from "../../utils/key-value.js";
-import { GroupStateStoreBackend } from "../group-state-store.js";
+import {
+  GroupStateJournal,
+  GroupStateStoreBackend,
+} from "../group-state-store.js";
+
+/** The key prefix of the group journals, which are kept in the same backend as the states */
+const JOURNAL_PREFIX = "journal:";
 
 /**
  * Adapter to convert a KeyValueStoreBackend<string, SerializedClientState> to GroupStateStoreBackend.
  * This is useful for migrating existing backends that use string keys.
+ *
+ * The journal of a group is stored in the same backend under `journal:<groupIdHex>`.
  */
 export class KeyValueGroupStateBackend implements GroupStateStoreBackend {
-  constructor(private backend: KeyValueStoreBackend<SerializedClientState>) {}
+  constructor(
+    private backend: KeyValueStoreBackend<
+      SerializedClientState | GroupStateJournal
+    >,
+  ) {}
 
   async get(groupId: Uint8Array): Promise<SerializedClientState | null> {
     const key = bytesToHex(groupId);
-    return this.backend.getItem(key);
+    const item = await this.backend.getItem(key);
+    return item instanceof Uint8Array ? item : null;
   }
 
   async set(
@@ -30,6 +43,27 @@ export class KeyValueGroupStateBackend implements GroupStateStoreBackend {
 
   async list(): Promise<Uint8Array[]> {
     const keys = await this.backend.keys();
-    return keys.map((key) => hexToBytes(key));
+    return keys
+      .filter((key) => !key.startsWith(JOURNAL_PREFIX))
+      .map((key) => hexToBytes(key));
+  }
+
+  async getJournal(groupId: Uint8Array): Promise<GroupStateJournal | null> {
+    const key = JOURNAL_PREFIX + bytesToHex(groupId);
+    const item = await this.backend.getItem(key);
+    return item instanceof Uint8Array ? null : item;
+  }
+
+  async setJournal(
+    groupId: Uint8Array,
+    journal: GroupStateJournal,
+  ): Promise<void> {
+    const key = JOURNAL_PREFIX + bytesToHex(groupId);
+    await this.backend.setItem(key, journal);
+  }
+
+  async removeJournal(groupId: Uint8Array): Promise<void> {
+    const key = JOURNAL_PREFIX + bytesToHex(groupId);
+    await this.backend.removeItem(key);
   }
 }
@@ -0,0 +1,50 @@
+import { sha256 } from "@noble/hashes/sha2.js";
+import { bytesToHex } from "@noble/hashes/utils.js";
+
+/** A descriptor for a blob that has been uploaded to a {@link BlobStore} */
+export type BlobDescriptor = {
+  /** The hex encoded SHA-256 hash of the blob */
+  sha256: string;
+  /** The size of the blob in bytes */
+  size: number;
+  /** The URL the blob can be downloaded from (optional for stores that only address blobs by hash) */
+  url?: string;
+};
+
+/**
+ * A generic interface for a content addressed blob store (e.g. a Blossom server).
+ * Blobs are addressed by the SHA-256 hash of their contents, so implementations
+ * never see anything but the encrypted bytes.
+ */
+export interface BlobStore {
+  /** Upload a blob and return its descriptor */
+  upload(data: Uint8Array): Promise<BlobDescriptor>;
+  /** Download a blob by its hex encoded SHA-256 hash, returns null if the blob is not found */
+  download(sha256: string): Promise<Uint8Array | null>;
+}
+
+/** A simple in-memory {@link BlobStore}. Useful for tests and examples */
+export class MemoryBlobStore implements BlobStore {
+  private blobs = new Map<string, Uint8Array>();
+
+  /** The number of blobs currently stored */
+  get size() {
+    return this.blobs.size;
+  }
+
+  async upload(data: Uint8Array): Promise<BlobDescriptor> {
+    const hash = bytesToHex(sha256(data));
+    this.blobs.set(hash, data.slice());
+
+    return { sha256: hash, size: data.length, url: `memory:${hash}` };
+  }
+
+  async download(hash: string): Promise<Uint8Array | null> {
+    return this.blobs.get(hash.toLowerCase())?.slice() ?? null;
+  }
+
+  /** Removes a blob from the store */
+  async remove(hash: string): Promise<void> {
+    this.blobs.delete(hash.toLowerCase());
+  }
+}
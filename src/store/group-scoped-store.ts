@@ -0,0 +1,96 @@
+import { bytesToHex } from "@noble/hashes/utils.js";
+import type { KeyValueStoreBackend } from "../utils/key-value.js";
+
+/**
+ * A key-value store that scopes its items to groups, used by the stores that
+ * keep per-group records such as pending events or outgoing messages.
+ *
+ * Items are keyed by `<groupIdHex>:<id>`. The keys of the backend are read once
+ * and indexed by group, so listing or purging a group only touches its own items.
+ * The store assumes it is the only writer of its backend.
+ */
+export class GroupScopedStore<T> {
+  private backend: KeyValueStoreBackend<T>;
+
+  /** The item ids of each group, loaded from the backend keys on first use */
+  #index?: Promise<Map<string, Set<string>>>;
+
+  constructor(backend: KeyValueStoreBackend<T>) {
+    this.backend = backend;
+  }
+
+  private key(groupIdHex: string, id: string) {
+    return `${groupIdHex}:${id}`;
+  }
+
+  private getIndex(): Promise<Map<string, Set<string>>> {
+    if (!this.#index) {
+      this.#index = this.backend.keys().then((keys) => {
+        const index = new Map<string, Set<string>>();
+        for (const key of keys) {
+          const separator = key.indexOf(":");
+          if (separator === -1) continue;
+          const groupIdHex = key.slice(0, separator);
+          let ids = index.get(groupIdHex);
+          if (!ids) index.set(groupIdHex, (ids = new Set()));
+          ids.add(key.slice(separator + 1));
+        }
+        return index;
+      });
+      // Read the keys again next time if loading failed
+      this.#index.catch(() => (this.#index = undefined));
+    }
+    return this.#index;
+  }
+
+  /** Gets an item of a group */
+  async get(groupId: Uint8Array, id: string): Promise<T | null> {
+    return await this.backend.getItem(this.key(bytesToHex(groupId), id));
+  }
+
+  /** Adds or updates an item of a group */
+  async set(groupId: Uint8Array, id: string, value: T): Promise<void> {
+    const groupIdHex = bytesToHex(groupId);
+    const index = await this.getIndex();
+    await this.backend.setItem(this.key(groupIdHex, id), value);
+
+    let ids = index.get(groupIdHex);
+    if (!ids) index.set(groupIdHex, (ids = new Set()));
+    ids.add(id);
+  }
+
+  /** Removes an item of a group */
+  async remove(groupId: Uint8Array, id: string): Promise<void> {
+    const groupIdHex = bytesToHex(groupId);
+    const index = await this.getIndex();
+    await this.backend.removeItem(this.key(groupIdHex, id));
+    index.get(groupIdHex)?.delete(id);
+  }
+
+  /** Lists the item ids of a group */
+  async ids(groupId: Uint8Array): Promise<string[]> {
+    const ids = (await this.getIndex()).get(bytesToHex(groupId));
+    return Array.from(ids ?? []);
+  }
+
+  /** Lists all items of a group */
+  async list(groupId: Uint8Array): Promise<T[]> {
+    const groupIdHex = bytesToHex(groupId);
+    const ids = (await this.getIndex()).get(groupIdHex);
+    const items: T[] = [];
+    for (const id of ids ?? []) {
+      const item = await this.backend.getItem(this.key(groupIdHex, id));
+      if (item) items.push(item);
+    }
+    return items;
+  }
+
+  /** Removes all items of a group */
+  async purge(groupId: Uint8Array): Promise<void> {
+    const groupIdHex = bytesToHex(groupId);
+    const index = await this.getIndex();
+    for (const id of index.get(groupIdHex) ?? [])
+      await this.backend.removeItem(this.key(groupIdHex, id));
+    index.delete(groupIdHex);
+  }
+}
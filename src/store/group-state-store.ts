@@ -1,7 +1,13 @@
 import { EventEmitter } from "eventemitter3";
 import { SerializedClientState } from "../core/client-state.js";
 
-/** A generic interface for a bytes-only group state store backend */
+/**
+ * A generic interface for a bytes-only group state store backend.
+ *
+ * The journal of a group is kept beside its state, so it is as durable as the state itself.
+ * The journal methods are optional: backends without them get no crash recovery, their
+ * groups are saved as before and pending Welcomes are only sent once.
+ */
 export interface GroupStateStoreBackend {
   /** Get state bytes from the store by group ID */
   get(groupId: Uint8Array): Promise<SerializedClientState | null>;
@@ -11,8 +17,50 @@ export interface GroupStateStoreBackend {
   remove(groupId: Uint8Array): Promise<void>;
   /** List all group IDs in the store */
   list(): Promise<Uint8Array[]>;
+  /** Get the journal of a group by group ID */
+  getJournal?(groupId: Uint8Array): Promise<GroupStateJournal | null>;
+  /** Set the journal of a group by group ID */
+  setJournal?(groupId: Uint8Array, journal: GroupStateJournal): Promise<void>;
+  /** Remove the journal of a group by group ID */
+  removeJournal?(groupId: Uint8Array): Promise<void>;
 }
 
+/** The Welcomes of a commit that still have to be sent to the members it added */
+export type PendingWelcomes = {
+  /** The id of the commit event that added the members */
+  commitEventId: string;
+  /** The TLS encoded MLS Welcome */
+  welcome: Uint8Array;
+  /** The relays of the group, included in the Welcome rumor */
+  groupRelays: string[];
+  /** The members that have not been sent the Welcome yet */
+  recipients: { pubkey: string; keyPackageEventId?: string }[];
+};
+
+/** A group state transition recorded in the journal before its side effects happen */
+export type GroupStateTransition = {
+  /** What caused the transition */
+  reason: "commit" | "ingest";
+  /** The ids of the group events that trigger the transition */
+  eventIds: string[];
+  /** The serialized group state after the transition */
+  stateBytes: SerializedClientState;
+  /** Whether the triggering events are known to be on the relays */
+  confirmed: boolean;
+  /** Unix timestamp (seconds) when the transition was recorded */
+  createdAt: number;
+  /** The Welcomes to send once the commit of the transition is published */
+  welcomes?: PendingWelcomes;
+};
+
+/** The write-ahead journal of a group */
+export type GroupStateJournal = {
+  /** The transition that was started but whose state was not saved yet */
+  transition?: GroupStateTransition;
+  /** The Welcomes of published commits that were not sent yet */
+  welcomes?: PendingWelcomes[];
+};
+
 /** Events emitted by the GroupStateStore */
 type GroupStateStoreEvents = {
   /** Emitted when a group state is added */
@@ -27,6 +75,16 @@ type GroupStateStoreEvents = {
   ) => void;
   /** Emitted when a group state is removed */
   groupStateRemoved: (groupId: Uint8Array) => void;
+  /** Emitted when a journaled transition is applied to a group state on recovery */
+  transitionReplayed: (
+    groupId: Uint8Array,
+    transition: GroupStateTransition,
+  ) => void;
+  /** Emitted when a journaled transition is discarded on recovery */
+  transitionRolledBack: (
+    groupId: Uint8Array,
+    transition: GroupStateTransition,
+  ) => void;
 };
 
 /**
@@ -39,12 +97,33 @@ type GroupStateStoreEvents = {
  * 1. Storage layer has no dependency on ClientConfig (policy concern)
  * 2. Storage is backend-neutral and portable
  * 3. Namespacing is handled by the backend instance, not the store
+ *
+ * It also keeps a write-ahead journal of group state transitions. A group records
+ * the state it is moving to before publishing or after applying an event, and the
+ * entry is completed once the state is saved. An entry that is still there on the
+ * next load is replayed or rolled back with {@link replayTransition} and
+ * {@link rollbackTransition}. The Welcomes of a journaled commit stay in the journal
+ * until they are sent, so they can be sent again after a crash.
  */
 export class GroupStateStore extends EventEmitter<GroupStateStoreEvents> {
   constructor(private backend: GroupStateStoreBackend) {
     super();
   }
 
+  /** Reads the journal of a group, or null if the backend keeps no journal */
+  private async getJournal(
+    groupId: Uint8Array,
+  ): Promise<GroupStateJournal | null> {
+    return (await this.backend.getJournal?.(groupId)) ?? null;
+  }
+
+  /** Writes the journal of a group, removing it once nothing is left in it */
+  private async setJournal(groupId: Uint8Array, journal: GroupStateJournal) {
+    if (!journal.transition && !journal.welcomes?.length)
+      await this.backend.removeJournal?.(groupId);
+    else await this.backend.setJournal?.(groupId, journal);
+  }
+
   /**
    * Retrieves the serialized state bytes from storage.
    *
@@ -84,6 +163,7 @@ export class GroupStateStore extends EventEmitter<GroupStateStoreEvents> {
    */
   async remove(groupId: Uint8Array): Promise<void> {
     await this.backend.remove(groupId);
+    await this.backend.removeJournal?.(groupId);
     this.emit("groupStateRemoved", groupId);
   }
 
@@ -103,4 +183,120 @@ export class GroupStateStore extends EventEmitter<GroupStateStoreEvents> {
     const item = await this.backend.get(groupId);
     return item !== null;
   }
+
+  /**
+   * Records the transition a group is about to make, replacing any earlier unfinished one.
+   *
+   * @param groupId - The group ID
+   * @param transition - The transition and the state it leads to
+   */
+  async beginTransition(
+    groupId: Uint8Array,
+    transition: GroupStateTransition,
+  ): Promise<void> {
+    const journal = await this.getJournal(groupId);
+    await this.setJournal(groupId, { ...journal, transition });
+  }
+
+  /**
+   * Marks the unfinished transition of a group as confirmed, once its events reached a relay.
+   * @param groupId - The group ID
+   */
+  async confirmTransition(groupId: Uint8Array): Promise<void> {
+    const transition = await this.getTransition(groupId);
+    if (!transition || transition.confirmed) return;
+    await this.beginTransition(groupId, { ...transition, confirmed: true });
+  }
+
+  /**
+   * Removes the unfinished transition of a group once its state was saved,
+   * keeping its Welcomes until they are sent.
+   * @param groupId - The group ID
+   */
+  async completeTransition(groupId: Uint8Array): Promise<void> {
+    const journal = await this.getJournal(groupId);
+    if (!journal?.transition) return;
+
+    const { welcomes } = journal.transition;
+    await this.setJournal(groupId, {
+      welcomes: welcomes
+        ? [...(journal.welcomes ?? []), welcomes]
+        : journal.welcomes,
+    });
+  }
+
+  /**
+   * Gets the unfinished transition of a group.
+   * @param groupId - The group ID
+   */
+  async getTransition(
+    groupId: Uint8Array,
+  ): Promise<GroupStateTransition | null> {
+    return (await this.getJournal(groupId))?.transition ?? null;
+  }
+
+  /**
+   * Gets the Welcomes of published commits that were not sent yet.
+   * @param groupId - The group ID
+   */
+  async getPendingWelcomes(groupId: Uint8Array): Promise<PendingWelcomes[]> {
+    return (await this.getJournal(groupId))?.welcomes ?? [];
+  }
+
+  /**
+   * Removes the Welcomes of a commit from the journal once they were sent.
+   *
+   * @param groupId - The group ID
+   * @param commitEventId - The id of the commit event that added the members
+   */
+  async completeWelcomes(
+    groupId: Uint8Array,
+    commitEventId: string,
+  ): Promise<void> {
+    const journal = await this.getJournal(groupId);
+    if (!journal?.welcomes) return;
+    await this.setJournal(groupId, {
+      ...journal,
+      welcomes: journal.welcomes.filter(
+        (w) => w.commitEventId !== commitEventId,
+      ),
+    });
+  }
+
+  /**
+   * Applies the unfinished transition of a group by storing the state it leads to.
+   *
+   * @param groupId - The group ID
+   * @returns The transition that was replayed, or null if there was none
+   */
+  async replayTransition(
+    groupId: Uint8Array,
+  ): Promise<GroupStateTransition | null> {
+    const transition = await this.getTransition(groupId);
+    if (!transition) return null;
+
+    await this.set(groupId, transition.stateBytes);
+    await this.completeTransition(groupId);
+    this.emit("transitionReplayed", groupId, transition);
+    return transition;
+  }
+
+  /**
+   * Discards the unfinished transition of a group, keeping the stored state.
+   *
+   * @param groupId - The group ID
+   * @returns The transition that was rolled back, or null if there was none
+   */
+  async rollbackTransition(
+    groupId: Uint8Array,
+  ): Promise<GroupStateTransition | null> {
+    const journal = await this.getJournal(groupId);
+    const transition = journal?.transition;
+    if (!transition) return null;
+
+    // The commit was never published, so its Welcomes are dropped with it
+    await this.setJournal(groupId, { welcomes: journal.welcomes });
+    this.emit("transitionRolledBack", groupId, transition);
+    return transition;
+  }
 }
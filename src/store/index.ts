@@ -1,12 +1,29 @@
 // New bytes-first storage
 export * from "./group-state-store.js";
 
+// Shared base for stores that keep records per group
+export * from "./group-scoped-store.js";
+
 // Adapters for common backend patterns
 export * from "./adapters/key-value-group-state-backend.js";
 
 // Invite storage
 export * from "./invite-store.js";
 
+// Blob storage for encrypted media
+export * from "./blob-store.js";
+export * from "./media-key-store.js";
+
+// Group events waiting for their epoch and events already handled
+export * from "./pending-event-store.js";
+export * from "./processed-event-store.js";
+
+// Outgoing messages waiting for a relay
+export * from "./outbox-store.js";
+
+// How far each group has been synced from its relays
+export * from "./sync-cursor-store.js";
+
 // Legacy hydrated storage (deprecated, will be removed in a future version)
 export * from "./group-store.js";
 export * from "./key-package-store.js";
@@ -35,4 +35,7 @@ export interface InviteStore {
 
   /** Storage for seen gift wrap event IDs (deduplication) - value is always true */
   seen: KeyValueStoreBackend<boolean>;
+
+  /** Storage for the since-cursor of the inbox subscription - keyed by the user's pubkey (optional) */
+  cursor?: KeyValueStoreBackend<number>;
 }
@@ -0,0 +1,61 @@
+import type { KeyValueStoreBackend } from "../utils/key-value.js";
+import { GroupScopedStore } from "./group-scoped-store.js";
+
+/**
+ * Stores the media exporter secrets of past group epochs so attachments sent in
+ * earlier epochs can still be decrypted after the group state has moved on.
+ *
+ * Secrets are keyed by `<groupIdHex>:<epoch>`. Groups remove the secrets of epochs
+ * outside their media key retention window with {@link prune}, so old attachments
+ * stop being readable like the messages of those epochs.
+ */
+export class MediaKeyStore {
+  private store: GroupScopedStore<Uint8Array>;
+
+  constructor(backend: KeyValueStoreBackend<Uint8Array>) {
+    this.store = new GroupScopedStore(backend);
+  }
+
+  /** Stores the media exporter secret for a group epoch */
+  async set(
+    groupId: Uint8Array,
+    epoch: bigint,
+    secret: Uint8Array,
+  ): Promise<void> {
+    await this.store.set(groupId, String(epoch), secret);
+  }
+
+  /** Gets the media exporter secret for a group epoch */
+  async get(groupId: Uint8Array, epoch: bigint): Promise<Uint8Array | null> {
+    return await this.store.get(groupId, String(epoch));
+  }
+
+  /** Checks if the media exporter secret for a group epoch is stored */
+  async has(groupId: Uint8Array, epoch: bigint): Promise<boolean> {
+    return (await this.get(groupId, epoch)) !== null;
+  }
+
+  /**
+   * Removes and zeroes the secrets of a group's epochs that are older than the retention window.
+   *
+   * @param groupId - The group ID
+   * @param currentEpoch - The current epoch of the group
+   * @param retention - How many past epochs to keep secrets for
+   */
+  async prune(
+    groupId: Uint8Array,
+    currentEpoch: bigint,
+    retention: number,
+  ): Promise<void> {
+    for (const id of await this.store.ids(groupId)) {
+      if (BigInt(id) >= currentEpoch - BigInt(retention)) continue;
+      (await this.store.get(groupId, id))?.fill(0);
+      await this.store.remove(groupId, id);
+    }
+  }
+
+  /** Removes all stored secrets for a group */
+  async purge(groupId: Uint8Array): Promise<void> {
+    await this.store.purge(groupId);
+  }
+}
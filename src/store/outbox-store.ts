@@ -0,0 +1,59 @@
+import type { NostrEvent } from "nostr-tools";
+import type { KeyValueStoreBackend } from "../utils/key-value.js";
+import { GroupScopedStore } from "./group-scoped-store.js";
+
+/** The delivery state of an outgoing group message */
+export type OutboxMessageStatus = "queued" | "sent" | "failed";
+
+/** An encrypted application message waiting to be acknowledged by a relay */
+export type OutboxMessage = {
+  /** The encrypted kind 445 group event */
+  event: NostrEvent;
+  /** The id of the rumor inside the message */
+  rumorId: string;
+  /** The delivery state of the message */
+  status: OutboxMessageStatus;
+  /** How many times publishing was attempted */
+  attempts: number;
+  /** Unix timestamp (seconds) when the message was queued */
+  createdAt: number;
+  /** Unix timestamp (milliseconds) of the next publish attempt of a queued message */
+  nextAttemptAt?: number;
+  /** The reason the last publish attempt failed */
+  error?: string;
+};
+
+/**
+ * Stores encrypted application messages until a relay acknowledges them, so
+ * they can be published again after a restart without re-encrypting them.
+ *
+ * Messages are keyed by `<groupIdHex>:<eventId>`.
+ */
+export class OutboxStore {
+  private store: GroupScopedStore<OutboxMessage>;
+
+  constructor(backend: KeyValueStoreBackend<OutboxMessage>) {
+    this.store = new GroupScopedStore(backend);
+  }
+
+  /** Adds or updates an outgoing message of a group */
+  async set(groupId: Uint8Array, message: OutboxMessage): Promise<void> {
+    await this.store.set(groupId, message.event.id, message);
+  }
+
+  /** Removes an outgoing message of a group */
+  async remove(groupId: Uint8Array, eventId: string): Promise<void> {
+    await this.store.remove(groupId, eventId);
+  }
+
+  /** Lists all outgoing messages of a group, oldest first */
+  async list(groupId: Uint8Array): Promise<OutboxMessage[]> {
+    const messages = await this.store.list(groupId);
+    return messages.sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  /** Removes all outgoing messages of a group */
+  async purge(groupId: Uint8Array): Promise<void> {
+    await this.store.purge(groupId);
+  }
+}
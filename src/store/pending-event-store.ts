@@ -0,0 +1,49 @@
+import type { NostrEvent } from "nostr-tools";
+import type { KeyValueStoreBackend } from "../utils/key-value.js";
+import { GroupScopedStore } from "./group-scoped-store.js";
+
+/** A group event that could not be processed yet and is waiting for its epoch */
+export type PendingGroupEvent = {
+  /** The kind 445 group event */
+  event: NostrEvent;
+  /** The epoch of the MLS message, if its NIP-44 layer could be decrypted */
+  epoch?: number;
+  /** The group epoch when the event was first parked */
+  parkedEpoch: number;
+  /** The group epoch when the event was last tried */
+  triedEpoch: number;
+};
+
+/**
+ * Stores the group events that could not be processed yet so they can be
+ * replayed once the group reaches their epoch, even after a restart.
+ *
+ * Events are keyed by `<groupIdHex>:<eventId>`.
+ */
+export class PendingEventStore {
+  private store: GroupScopedStore<PendingGroupEvent>;
+
+  constructor(backend: KeyValueStoreBackend<PendingGroupEvent>) {
+    this.store = new GroupScopedStore(backend);
+  }
+
+  /** Adds or updates a pending event of a group */
+  async set(groupId: Uint8Array, pending: PendingGroupEvent): Promise<void> {
+    await this.store.set(groupId, pending.event.id, pending);
+  }
+
+  /** Removes a pending event of a group */
+  async remove(groupId: Uint8Array, eventId: string): Promise<void> {
+    await this.store.remove(groupId, eventId);
+  }
+
+  /** Lists all pending events of a group */
+  async list(groupId: Uint8Array): Promise<PendingGroupEvent[]> {
+    return await this.store.list(groupId);
+  }
+
+  /** Removes all pending events of a group */
+  async purge(groupId: Uint8Array): Promise<void> {
+    await this.store.purge(groupId);
+  }
+}
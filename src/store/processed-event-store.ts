@@ -0,0 +1,50 @@
+import type { KeyValueStoreBackend } from "../utils/key-value.js";
+import { GroupScopedStore } from "./group-scoped-store.js";
+
+/** What happened to a group event that was handled by a group */
+export type ProcessedEventStatus = "processed" | "skipped" | "failed";
+
+/** A group event id recorded in a group's processed event log */
+export type ProcessedEventRecord = {
+  /** The kind 445 event id */
+  id: string;
+  /** What happened to the event */
+  status: ProcessedEventStatus;
+  /** Unix timestamp (seconds) when the event was recorded */
+  recordedAt: number;
+};
+
+/**
+ * Stores the ids of group events that were already handled so the same relay
+ * backlog can be ingested again without processing events twice.
+ *
+ * Records are keyed by `<groupIdHex>:<eventId>`.
+ */
+export class ProcessedEventStore {
+  private store: GroupScopedStore<ProcessedEventRecord>;
+
+  constructor(backend: KeyValueStoreBackend<ProcessedEventRecord>) {
+    this.store = new GroupScopedStore(backend);
+  }
+
+  /** Records a handled event of a group */
+  async set(groupId: Uint8Array, record: ProcessedEventRecord): Promise<void> {
+    await this.store.set(groupId, record.id, record);
+  }
+
+  /** Removes a handled event of a group */
+  async remove(groupId: Uint8Array, eventId: string): Promise<void> {
+    await this.store.remove(groupId, eventId);
+  }
+
+  /** Lists all handled events of a group, oldest first */
+  async list(groupId: Uint8Array): Promise<ProcessedEventRecord[]> {
+    const records = await this.store.list(groupId);
+    return records.sort((a, b) => a.recordedAt - b.recordedAt);
+  }
+
+  /** Removes all handled events of a group */
+  async purge(groupId: Uint8Array): Promise<void> {
+    await this.store.purge(groupId);
+  }
+}
@@ -0,0 +1,39 @@
+import { bytesToHex } from "@noble/hashes/utils.js";
+import type { KeyValueStoreBackend } from "../utils/key-value.js";
+
+/** How far the group events of a group have been synced from its relays */
+export type SyncCursor = {
+  /** Unix timestamp (seconds) of the newest group event that was ingested */
+  since: number;
+  /** Unix timestamp (seconds) when the cursor was last moved */
+  updatedAt: number;
+};
+
+/**
+ * Stores a since-cursor per group so syncing can backfill only the group
+ * events that were published while the client was offline.
+ *
+ * Cursors are keyed by `<groupIdHex>`.
+ */
+export class SyncCursorStore {
+  private backend: KeyValueStoreBackend<SyncCursor>;
+
+  constructor(backend: KeyValueStoreBackend<SyncCursor>) {
+    this.backend = backend;
+  }
+
+  /** Gets the cursor of a group */
+  async get(groupId: Uint8Array): Promise<SyncCursor | null> {
+    return await this.backend.getItem(bytesToHex(groupId));
+  }
+
+  /** Sets the cursor of a group */
+  async set(groupId: Uint8Array, cursor: SyncCursor): Promise<void> {
+    await this.backend.setItem(bytesToHex(groupId), cursor);
+  }
+
+  /** Removes the cursor of a group */
+  async remove(groupId: Uint8Array): Promise<void> {
+    await this.backend.removeItem(bytesToHex(groupId));
+  }
+}
@@ -11,3 +11,29 @@ export interface KeyValueStoreBackend<T> {
   /** Get all keys in the store */
   keys(): Promise<string[]>;
 }
+
+/** A {@link KeyValueStoreBackend} that keeps items in memory, used when no backend is configured */
+export class MemoryKeyValueStore<T> implements KeyValueStoreBackend<T> {
+  private items = new Map<string, T>();
+
+  async getItem(key: string): Promise<T | null> {
+    return this.items.get(key) ?? null;
+  }
+
+  async setItem(key: string, value: T): Promise<T> {
+    this.items.set(key, value);
+    return value;
+  }
+
+  async removeItem(key: string): Promise<void> {
+    this.items.delete(key);
+  }
+
+  async clear(): Promise<void> {
+    this.items.clear();
+  }
+
+  async keys(): Promise<string[]> {
+    return Array.from(this.items.keys());
+  }
+}